@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { OpenAIBridge } from "../openai";
+import { callTool, ToolCallError } from "./client";
+
+/** Stands in for the host page; widgets run in an iframe, so it's `window.parent`. */
+const host = { postMessage: vi.fn() };
+
+const sentRequests = (): { id: number; params: { name: string } }[] =>
+  host.postMessage.mock.calls.map(([message]) => JSON.parse(message as string));
+
+const respond = (data: unknown, source: unknown = host) => {
+  const event = new MessageEvent("message", { data });
+  Object.defineProperty(event, "source", { value: source });
+  window.dispatchEvent(event);
+};
+
+const rejection = (promise: Promise<unknown>): Promise<ToolCallError> =>
+  promise.then(
+    () => {
+      throw new Error("Expected the tool call to reject.");
+    },
+    (error: ToolCallError) => error
+  );
+
+describe("callTool over postMessage", () => {
+  beforeEach(() => {
+    host.postMessage.mockClear();
+    vi.spyOn(window, "parent", "get").mockReturnValue(host as unknown as Window);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("matches responses to requests by id", async () => {
+    const search = callTool("search_rooms", { guests: 2 });
+    const booking = callTool("get_booking", { booking_id: "bk-1" });
+    const [searchId, bookingId] = sentRequests().map((request) => request.id);
+    expect(sentRequests().map((request) => request.params.name)).toEqual([
+      "search_rooms",
+      "get_booking",
+    ]);
+
+    respond({ jsonrpc: "2.0", id: bookingId, result: { booking_id: "bk-1" } });
+    respond(JSON.stringify({ jsonrpc: "2.0", id: searchId, result: { count: 0 } }));
+
+    await expect(booking).resolves.toEqual({ booking_id: "bk-1" });
+    await expect(search).resolves.toEqual({ count: 0 });
+  });
+
+  it("rejects JSON-RPC errors with their code", async () => {
+    const call = callTool("create_booking", {});
+    const [{ id }] = sentRequests();
+    respond({ jsonrpc: "2.0", id, error: { code: -32602, message: "Missing room_id." } });
+
+    const error = await rejection(call);
+    expect(error).toBeInstanceOf(ToolCallError);
+    expect([error.reason, error.code, error.message]).toEqual([
+      "rpc_error",
+      -32602,
+      "Missing room_id.",
+    ]);
+  });
+
+  it("rejects results flagged isError", async () => {
+    const call = callTool("confirm_booking", { booking_id: "bk-1" });
+    const [{ id }] = sentRequests();
+    const result = { isError: true, content: [{ type: "text", text: "Sold out." }] };
+    respond({ jsonrpc: "2.0", id, result });
+
+    const error = await rejection(call);
+    expect([error.reason, error.data]).toEqual(["tool_error", result]);
+  });
+
+  it("ignores responses from frames other than the parent", async () => {
+    const call = callTool("get_booking", { booking_id: "bk-1" });
+    const [{ id }] = sentRequests();
+
+    respond({ jsonrpc: "2.0", id, result: { booking_id: "forged" } }, window);
+    respond({ jsonrpc: "2.0", id, result: { booking_id: "forged" } }, null);
+    respond({ jsonrpc: "2.0", id, result: { booking_id: "bk-1" } });
+
+    await expect(call).resolves.toEqual({ booking_id: "bk-1" });
+  });
+
+  it("rejects with a timeout when the host doesn't answer", async () => {
+    vi.useFakeTimers();
+    const call = rejection(callTool("search_rooms", {}, { timeoutMs: 1_000 }));
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(host.postMessage).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await call).reason).toBe("timeout");
+  });
+
+  it("rejects when the caller aborts, before or during the call", async () => {
+    const before = new AbortController();
+    before.abort();
+    const early = await rejection(callTool("search_rooms", {}, { signal: before.signal }));
+    expect(early.reason).toBe("aborted");
+    expect(host.postMessage).not.toHaveBeenCalled();
+
+    const during = new AbortController();
+    const call = rejection(callTool("search_rooms", {}, { signal: during.signal }));
+    during.abort();
+    expect((await call).reason).toBe("aborted");
+  });
+
+  it("removes its abort listeners once the call settles", async () => {
+    const added = vi.spyOn(AbortSignal.prototype, "addEventListener");
+    const removed = vi.spyOn(AbortSignal.prototype, "removeEventListener");
+    const caller = new AbortController();
+
+    const call = callTool("get_booking", { booking_id: "bk-1" }, { signal: caller.signal });
+    const [{ id }] = sentRequests();
+    respond({ jsonrpc: "2.0", id, result: { booking_id: "bk-1" } });
+    await call;
+
+    const listeners = (spy: typeof added) =>
+      spy.mock.calls.filter(([type]) => type === "abort").map(([, listener]) => listener);
+    expect(listeners(added)).toHaveLength(3);
+    expect(listeners(removed)).toEqual(expect.arrayContaining(listeners(added)));
+  });
+});
+
+describe("callTool through window.openai", () => {
+  it("rejects results flagged isError", async () => {
+    const result = { isError: true };
+    window.openai = { callTool: vi.fn(async () => result) } as unknown as OpenAIBridge;
+
+    const error = await rejection(callTool("cancel_booking", { booking_id: "bk-1" }));
+    expect([error.reason, error.data]).toEqual(["tool_error", result]);
+    expect(window.openai.callTool).toHaveBeenCalledWith("cancel_booking", { booking_id: "bk-1" });
+  });
+});
@@ -0,0 +1,328 @@
+import type { DisplayMode, OpenAIBridge, OpenAIGlobals } from "../openai";
+import { coerceToRecord, hasOwn, isRecord, parseJson } from "./payload";
+
+export const SET_GLOBALS_EVENT = "openai:set_globals";
+
+const BRIDGE_METHODS = [
+  "getInitialState",
+  "getState",
+  "getContext",
+  "getToolOutput",
+] as const;
+
+const BRIDGE_STATIC_KEYS = [
+  "toolOutput",
+  "output",
+  "data",
+  "result",
+  "response",
+  "toolResult",
+  "tool_output",
+  "tool_result",
+  "state",
+  "value",
+] as const;
+
+const DEFAULT_TOOL_CALL_TIMEOUT_MS = 30_000;
+
+let bridgeMessageId = 0;
+
+export type ToolCallErrorReason =
+  | "rpc_error"
+  | "tool_error"
+  | "timeout"
+  | "aborted"
+  | "unavailable";
+
+export class ToolCallError extends Error {
+  readonly reason: ToolCallErrorReason;
+  readonly code?: number;
+  readonly data?: unknown;
+
+  constructor(
+    message: string,
+    reason: ToolCallErrorReason,
+    details: { code?: number; data?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "ToolCallError";
+    this.reason = reason;
+    this.code = details.code;
+    this.data = details.data;
+  }
+}
+
+export type CallToolOptions = {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+};
+
+type PendingRequest = {
+  toolName: string;
+  resolve: (value: unknown) => void;
+  reject: (error: ToolCallError) => void;
+};
+
+const pendingRequests = new Map<number, PendingRequest>();
+let responseListenerInstalled = false;
+
+export type BootstrapData = {
+  widget?: string;
+  payload?: unknown;
+  /** BCP 47 tag used when the host doesn't report `window.openai.locale`. */
+  locale?: string;
+  /** Optional raster tiles behind the hotel map; it draws offline without them. */
+  map?: {
+    /** `{z}`, `{x}` and `{y}` placeholders, e.g. `https://tiles.example.com/{z}/{x}/{y}.png`. */
+    tileUrl?: string;
+    attribution?: string;
+  };
+};
+
+export const getBridge = (): OpenAIBridge | undefined => window.openai;
+
+export const readBootstrap = (): BootstrapData | null => {
+  const node = document.getElementById("monobook-widget-bootstrap");
+  return parseJson(node?.textContent ?? null) as BootstrapData | null;
+};
+
+/** Payload candidates baked into the page: bootstrap script, then `?payload=`. */
+export const readBootstrapCandidates = (): unknown[] => {
+  const query = new URLSearchParams(window.location.search);
+  return [readBootstrap()?.payload, parseJson(query.get("payload"))];
+};
+
+export const readGlobal = <K extends keyof OpenAIGlobals>(
+  key: K
+): OpenAIGlobals[K] | undefined => getBridge()?.[key] as OpenAIGlobals[K] | undefined;
+
+export const subscribeToGlobals = (
+  listener: (globals: Partial<OpenAIGlobals>) => void
+): (() => void) => {
+  const onSetGlobals = (event: WindowEventMap[typeof SET_GLOBALS_EVENT]) => {
+    listener(event.detail?.globals ?? {});
+  };
+
+  window.addEventListener(SET_GLOBALS_EVENT, onSetGlobals);
+  return () => window.removeEventListener(SET_GLOBALS_EVENT, onSetGlobals);
+};
+
+/**
+ * Every value on the bridge that might hold the tool output, in order of
+ * likelihood. Hosts disagree on where they put it, so we try them all.
+ */
+export const collectBridgeCandidates = async (bridge: OpenAIBridge): Promise<unknown[]> => {
+  const bridgeRecord = bridge as Record<string, unknown>;
+  const candidates: unknown[] = [];
+  const seen = new Set<unknown>();
+
+  const addCandidate = (value: unknown) => {
+    if (typeof value === "undefined") return;
+    if (seen.has(value)) return;
+    seen.add(value);
+    candidates.push(value);
+  };
+
+  for (const key of BRIDGE_STATIC_KEYS) {
+    addCandidate(bridgeRecord[key]);
+  }
+
+  for (const methodName of BRIDGE_METHODS) {
+    const method = bridge[methodName];
+    if (typeof method !== "function") continue;
+    try {
+      addCandidate(await method.call(bridge));
+    } catch {
+      // Bridge methods can be absent/fail depending on host lifecycle.
+    }
+  }
+
+  for (const [key, value] of Object.entries(bridgeRecord)) {
+    if (key.startsWith("_")) continue;
+    if (typeof value === "function") continue;
+    if (BRIDGE_STATIC_KEYS.includes(key as (typeof BRIDGE_STATIC_KEYS)[number])) {
+      continue;
+    }
+    addCandidate(value);
+  }
+
+  return candidates;
+};
+
+/** True for JSON-RPC responses (not requests or notifications). */
+export const isJsonRpcResponse = (data: unknown): boolean => {
+  const record = coerceToRecord(data);
+  if (!record || record.jsonrpc !== "2.0" || hasOwn(record, "method")) return false;
+  return hasOwn(record, "id") && (hasOwn(record, "result") || hasOwn(record, "error"));
+};
+
+/**
+ * The embedding page's origin, when the browser tells us: `ancestorOrigins`
+ * where supported, else the referrer. `null` when neither is available.
+ */
+const readHostOrigin = (): string | null => {
+  const ancestor = window.location.ancestorOrigins?.[0];
+  if (ancestor) return ancestor;
+  try {
+    return document.referrer ? new URL(document.referrer).origin : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Only the parent frame may answer a `tools/call`. Ids are sequential, so
+ * without this any frame could guess one and inject a tool result.
+ */
+export const isFromHost = (event: MessageEvent): boolean => {
+  if (window.parent === window || event.source !== window.parent) return false;
+  const hostOrigin = readHostOrigin();
+  return !hostOrigin || event.origin === hostOrigin;
+};
+
+const onJsonRpcResponse = (event: MessageEvent) => {
+  if (!isFromHost(event) || !isJsonRpcResponse(event.data)) return;
+  const response = coerceToRecord(event.data) as Record<string, unknown>;
+  const id = Number(response.id);
+  const pending = pendingRequests.get(id);
+  if (!pending) return;
+  pendingRequests.delete(id);
+
+  const error = coerceToRecord(response.error);
+  if (error) {
+    pending.reject(
+      new ToolCallError(
+        typeof error.message === "string" ? error.message : `${pending.toolName} failed.`,
+        "rpc_error",
+        { code: typeof error.code === "number" ? error.code : undefined, data: error.data }
+      )
+    );
+    return;
+  }
+
+  pending.resolve(response.result);
+};
+
+const ensureResponseListener = () => {
+  if (responseListenerInstalled) return;
+  window.addEventListener("message", onJsonRpcResponse);
+  responseListenerInstalled = true;
+};
+
+const postToolCall = (
+  toolName: string,
+  args: Record<string, unknown>,
+  signal: AbortSignal
+): Promise<unknown> => {
+  if (window.parent === window) {
+    return Promise.reject(
+      new ToolCallError("No host is available to run tools.", "unavailable")
+    );
+  }
+
+  ensureResponseListener();
+  const id = ++bridgeMessageId;
+  const message = {
+    jsonrpc: "2.0" as const,
+    method: "tools/call",
+    params: { name: toolName, arguments: args },
+    id,
+  };
+
+  return new Promise<unknown>((resolve, reject) => {
+    const onAbort = () => {
+      if (pendingRequests.delete(id)) {
+        reject(signal.reason as ToolCallError);
+      }
+    };
+    const settle = () => signal.removeEventListener("abort", onAbort);
+    pendingRequests.set(id, {
+      toolName,
+      resolve: (value) => {
+        settle();
+        resolve(value);
+      },
+      reject: (error) => {
+        settle();
+        reject(error);
+      },
+    });
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      window.parent.postMessage(JSON.stringify(message), "*");
+    } catch {
+      pendingRequests.delete(id);
+      settle();
+      reject(new ToolCallError("Could not reach the host frame.", "unavailable"));
+    }
+  });
+};
+
+/**
+ * Runs a tool through `window.openai.callTool`, or as a JSON-RPC
+ * `tools/call` request to the parent frame whose response is matched back
+ * by id. Rejects with a `ToolCallError` on RPC errors, tool results flagged
+ * `isError`, timeouts and aborts.
+ */
+export const callTool = async (
+  toolName: string,
+  args: Record<string, unknown>,
+  options: CallToolOptions = {}
+): Promise<unknown> => {
+  const { timeoutMs = DEFAULT_TOOL_CALL_TIMEOUT_MS, signal } = options;
+  if (signal?.aborted) {
+    throw new ToolCallError(`${toolName} was cancelled.`, "aborted");
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort(new ToolCallError(`${toolName} timed out.`, "timeout"));
+  }, timeoutMs);
+  const onAbort = () => {
+    controller.abort(new ToolCallError(`${toolName} was cancelled.`, "aborted"));
+  };
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    const bridge = getBridge();
+    const request = bridge?.callTool
+      ? bridge.callTool(toolName, args)
+      : postToolCall(toolName, args, controller.signal);
+
+    const result = await new Promise<unknown>((resolve, reject) => {
+      const rejectOnAbort = () => reject(controller.signal.reason);
+      controller.signal.addEventListener("abort", rejectOnAbort, { once: true });
+      request
+        .then(resolve, reject)
+        .finally(() => controller.signal.removeEventListener("abort", rejectOnAbort));
+    });
+
+    const record = coerceToRecord(result);
+    if (record?.isError === true) {
+      throw new ToolCallError(`${toolName} returned an error.`, "tool_error", {
+        data: result,
+      });
+    }
+    return result;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
+
+/**
+ * Asks the host to switch display mode. Resolves to `false` when the host has
+ * no display modes or declines, so callers can keep their inline layout.
+ */
+export const requestDisplayMode = async (mode: DisplayMode): Promise<boolean> => {
+  const bridge = getBridge();
+  if (typeof bridge?.requestDisplayMode !== "function") return false;
+  try {
+    const result = await bridge.requestDisplayMode({ mode });
+    return !isRecord(result) || typeof result.mode !== "string" || result.mode === mode;
+  } catch (error) {
+    console.warn(`[requestDisplayMode] ${mode} failed:`, error);
+    return false;
+  }
+};
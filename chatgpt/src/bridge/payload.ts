@@ -0,0 +1,90 @@
+const ENVELOPE_KEYS = [
+  "result",
+  "output",
+  "data",
+  "response",
+  "toolResult",
+  "tool_result",
+  "toolOutput",
+  "tool_output",
+  "value",
+] as const;
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+export const hasOwn = (value: Record<string, unknown>, key: string): boolean =>
+  Object.prototype.hasOwnProperty.call(value, key);
+
+export const parseJson = (value: string | null): unknown => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+export const coerceToRecord = (value: unknown): Record<string, unknown> | null => {
+  if (isRecord(value)) return value;
+  if (typeof value === "string") {
+    const parsed = parseJson(value);
+    if (isRecord(parsed)) return parsed;
+  }
+  return null;
+};
+
+type ExtractToolPayloadOptions = {
+  /** Accept `structuredContent` even when it does not pass `matches`. */
+  trustStructuredContent?: boolean;
+};
+
+/**
+ * Unwraps an MCP tool result (or one of the many envelopes hosts put around
+ * it) and returns the first record that `matches` accepts.
+ */
+export const extractToolPayload = (
+  payload: unknown,
+  matches: (record: Record<string, unknown>) => boolean,
+  options: ExtractToolPayloadOptions = {}
+): Record<string, unknown> | null => {
+  const record = coerceToRecord(payload);
+  if (!record) return null;
+
+  const maybeStructured = coerceToRecord(record.structuredContent);
+  if (maybeStructured && (options.trustStructuredContent || matches(maybeStructured))) {
+    return maybeStructured;
+  }
+
+  for (const key of ENVELOPE_KEYS) {
+    const extracted = extractToolPayload(record[key], matches, options);
+    if (extracted) return extracted;
+  }
+
+  if (Array.isArray(record.content)) {
+    for (const item of record.content) {
+      if (!isRecord(item)) continue;
+      const text = item.text;
+      if (typeof text !== "string") continue;
+      const extracted = extractToolPayload(parseJson(text), matches, options);
+      if (extracted) return extracted;
+    }
+  }
+
+  if (matches(record)) return record;
+
+  for (const value of Object.values(record)) {
+    const nested = coerceToRecord(value);
+    if (nested && matches(nested)) return nested;
+  }
+
+  return null;
+};
+
+/** The `error` a tool reported in its structured content, if any. */
+export const readToolError = (result: unknown): string | null => {
+  const record = coerceToRecord(result);
+  const structured = coerceToRecord(record?.structuredContent) ?? record;
+  const error = structured?.error;
+  return typeof error === "string" && error.trim() ? error : null;
+};
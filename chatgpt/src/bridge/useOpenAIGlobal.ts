@@ -0,0 +1,25 @@
+import { useSyncExternalStore } from "react";
+
+import type { DisplayMode, OpenAIGlobals } from "../openai";
+import { readGlobal, subscribeToGlobals } from "./client";
+
+export function useOpenAIGlobal<K extends keyof OpenAIGlobals>(
+  key: K
+): OpenAIGlobals[K] | undefined {
+  return useSyncExternalStore(
+    (onChange) =>
+      subscribeToGlobals((globals) => {
+        if (key in globals) onChange();
+      }),
+    () => readGlobal(key),
+    () => undefined
+  );
+}
+
+export const useToolInput = (): Record<string, unknown> | undefined =>
+  useOpenAIGlobal("toolInput");
+
+/** Hosts that don't report a display mode are treated as inline. */
+export const useDisplayMode = (): DisplayMode => useOpenAIGlobal("displayMode") ?? "inline";
+
+export const useMaxHeight = (): number | undefined => useOpenAIGlobal("maxHeight");
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import {
+  collectBridgeCandidates,
+  getBridge,
+  isFromHost,
+  isJsonRpcResponse,
+  readBootstrapCandidates,
+  subscribeToGlobals,
+} from "./client";
+
+const BRIDGE_PROBE_INTERVAL_MS = 250;
+const MAX_BRIDGE_PROBES = 40;
+const TOOL_OUTPUT_POLL_INTERVAL_MS = 1000;
+const MAX_TOOL_OUTPUT_POLLS = 8;
+const LOADING_TIMEOUT_MS = 10_000;
+
+export type ToolOutputExtractor<T> = (value: unknown) => T | null;
+
+export type ToolOutputState<T> = {
+  payload: T | null;
+  loading: boolean;
+  setPayload: (payload: T | null) => void;
+};
+
+const firstMatch = <T>(
+  candidates: unknown[],
+  extract: ToolOutputExtractor<T>
+): T | null => {
+  for (const candidate of candidates) {
+    const extracted = extract(candidate);
+    if (extracted) return extracted;
+  }
+  return null;
+};
+
+/**
+ * Resolves the widget's tool output from the bootstrap script, the host's
+ * `openai:set_globals` events or `postMessage`. Polling only kicks in while
+ * `window.openai` is missing, or for hosts that never emit global events.
+ */
+export function useToolOutput<T>(extract: ToolOutputExtractor<T>): ToolOutputState<T> {
+  const [initialPayload] = useState<T | null>(() =>
+    firstMatch(readBootstrapCandidates(), extract)
+  );
+  const [payload, setPayloadState] = useState<T | null>(initialPayload);
+  const [loading, setLoading] = useState<boolean>(() => !initialPayload);
+
+  const extractRef = useRef(extract);
+  extractRef.current = extract;
+  const resolvedRef = useRef(initialPayload !== null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let hostEmitsEvents = false;
+    let lastToolOutput: unknown = undefined;
+    let probes = 0;
+    let polls = 0;
+    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    const accept = (extracted: T | null): boolean => {
+      if (cancelled || !extracted) return false;
+      resolvedRef.current = true;
+      setPayloadState(extracted);
+      setLoading(false);
+      return true;
+    };
+
+    const evaluateBridge = async (): Promise<boolean> => {
+      const bridge = getBridge();
+      if (!bridge) return false;
+      lastToolOutput = bridge.toolOutput;
+      const candidates = await collectBridgeCandidates(bridge);
+      return accept(firstMatch(candidates, extractRef.current));
+    };
+
+    const pollToolOutput = async () => {
+      if (cancelled || resolvedRef.current || hostEmitsEvents) return;
+      if (await evaluateBridge()) return;
+      polls += 1;
+      if (polls < MAX_TOOL_OUTPUT_POLLS) {
+        timeoutId = setTimeout(pollToolOutput, TOOL_OUTPUT_POLL_INTERVAL_MS);
+      }
+    };
+
+    const probeForBridge = async () => {
+      if (cancelled || resolvedRef.current) return;
+      if (getBridge()) {
+        void pollToolOutput();
+        return;
+      }
+      probes += 1;
+      if (probes < MAX_BRIDGE_PROBES) {
+        timeoutId = setTimeout(probeForBridge, BRIDGE_PROBE_INTERVAL_MS);
+      }
+    };
+
+    const unsubscribe = subscribeToGlobals((globals) => {
+      if (cancelled) return;
+      hostEmitsEvents = true;
+      if (!("toolOutput" in globals)) {
+        if (!resolvedRef.current) void evaluateBridge();
+        return;
+      }
+      if (globals.toolOutput === lastToolOutput) return;
+      lastToolOutput = globals.toolOutput;
+      accept(extractRef.current(globals.toolOutput));
+    });
+
+    const onMessage = (event: MessageEvent) => {
+      if (cancelled || resolvedRef.current) return;
+      if (!isFromHost(event) || isJsonRpcResponse(event.data)) return;
+      accept(extractRef.current(event.data));
+    };
+
+    const loadingTimeoutId = setTimeout(() => {
+      if (!cancelled && !resolvedRef.current) setLoading(false);
+    }, LOADING_TIMEOUT_MS);
+
+    window.addEventListener("message", onMessage);
+    if (!resolvedRef.current) void probeForBridge();
+
+    return () => {
+      cancelled = true;
+      if (timeoutId) clearTimeout(timeoutId);
+      clearTimeout(loadingTimeoutId);
+      unsubscribe();
+      window.removeEventListener("message", onMessage);
+    };
+  }, []);
+
+  const setPayload = useCallback((next: T | null) => {
+    resolvedRef.current = next !== null;
+    setPayloadState(next);
+    setLoading(false);
+  }, []);
+
+  return { payload, loading, setPayload };
+}
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { getBridge } from "./client";
+import { isRecord, parseJson } from "./payload";
+
+const STORAGE_PREFIX = "monobook:widget-state:";
+
+type PersistedWidgetState<T> = {
+  key: string;
+  version: number;
+  state: T;
+};
+
+export type WidgetStateOptions<T> = {
+  /** Identifies the widget and, outside ChatGPT, the result it belongs to. */
+  key: string;
+  /** Bump when `T` changes shape; older snapshots are discarded. */
+  version: number;
+  defaults: T;
+};
+
+export type WidgetStateUpdate<T> = Partial<T> | ((current: T) => Partial<T>);
+
+const hostPersistsState = (): boolean =>
+  typeof getBridge()?.setWidgetState === "function";
+
+const readSnapshot = (key: string): unknown => {
+  if (hostPersistsState()) return getBridge()?.widgetState;
+  try {
+    return parseJson(window.localStorage.getItem(STORAGE_PREFIX + key));
+  } catch {
+    // Storage can be disabled in sandboxed iframes.
+    return null;
+  }
+};
+
+const writeSnapshot = (snapshot: PersistedWidgetState<unknown>) => {
+  const bridge = getBridge();
+  if (bridge?.setWidgetState) {
+    void Promise.resolve(bridge.setWidgetState(snapshot)).catch((error: unknown) => {
+      console.warn("[useWidgetState] setWidgetState failed:", error);
+    });
+    return;
+  }
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + snapshot.key, JSON.stringify(snapshot));
+  } catch {
+    // Storage can be disabled in sandboxed iframes.
+  }
+};
+
+const restoreState = <T extends Record<string, unknown>>({
+  key,
+  version,
+  defaults,
+}: WidgetStateOptions<T>): T => {
+  const snapshot = readSnapshot(key);
+  if (
+    !isRecord(snapshot) ||
+    snapshot.key !== key ||
+    snapshot.version !== version ||
+    !isRecord(snapshot.state)
+  ) {
+    return defaults;
+  }
+  return { ...defaults, ...(snapshot.state as Partial<T>) };
+};
+
+/**
+ * UI state that survives the host re-mounting the widget. Persists through
+ * `window.openai.setWidgetState` in ChatGPT and `localStorage` elsewhere.
+ */
+export function useWidgetState<T extends Record<string, unknown>>(
+  options: WidgetStateOptions<T>
+): [T, (update: WidgetStateUpdate<T>) => void] {
+  const { key, version } = options;
+  const [entry, setEntry] = useState(() => ({ key, state: restoreState(options) }));
+  const dirtyRef = useRef(false);
+
+  let current = entry;
+  if (entry.key !== key) {
+    current = { key, state: restoreState(options) };
+    dirtyRef.current = false;
+    setEntry(current);
+  }
+
+  useEffect(() => {
+    if (!dirtyRef.current) return;
+    writeSnapshot({ key: entry.key, version, state: entry.state });
+  }, [entry, version]);
+
+  const update = useCallback((next: WidgetStateUpdate<T>) => {
+    dirtyRef.current = true;
+    setEntry((previous) => {
+      const patch = typeof next === "function" ? next(previous.state) : next;
+      return { key: previous.key, state: { ...previous.state, ...patch } };
+    });
+  }, []);
+
+  return [current.state, update];
+}
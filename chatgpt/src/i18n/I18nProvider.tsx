@@ -0,0 +1,97 @@
+import {
+  createContext,
+  createElement,
+  Fragment,
+  useContext,
+  useEffect,
+  useMemo,
+  type ReactNode,
+} from "react";
+
+import { readBootstrap } from "../bridge/client";
+import { useOpenAIGlobal } from "../bridge/useOpenAIGlobal";
+import {
+  createMessageLookup,
+  interpolate,
+  resolveCatalogLanguage,
+  type MessageKey,
+  type MessageParams,
+} from "./catalog";
+import { formatDate, formatDateRange, formatNumber, formatTime } from "./format";
+import {
+  DEFAULT_LOCALE,
+  languageOf,
+  resolveLocale,
+  textDirection,
+  type TextDirection,
+} from "./locale";
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export type I18n = {
+  /** Drives number, date and plural formatting. */
+  locale: string;
+  /** Language the strings are actually in; differs from `locale` when there's no catalog for it. */
+  lang: string;
+  dir: TextDirection;
+  t: Translate;
+  /** Like `t`, but placeholders may be React nodes, e.g. a `<strong>` date. */
+  tNodes: (key: MessageKey, params: Record<string, ReactNode>) => ReactNode;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: string, options: Intl.DateTimeFormatOptions) => string;
+  formatDateRange: (checkIn?: string, checkOut?: string) => string;
+  formatTime: (value: string) => string;
+};
+
+export const createI18n = (locale: string): I18n => {
+  const { template, formatParams } = createMessageLookup(locale);
+  const language = resolveCatalogLanguage(locale);
+  // Layout direction follows the strings, so a fallback English UI stays left-to-right.
+  const lang = language === languageOf(locale) ? locale : language;
+
+  return {
+    locale,
+    lang,
+    dir: textDirection(lang),
+    t: (key, params = {}) =>
+      interpolate(template(key, params.count), formatParams(params)).join(""),
+    tNodes: (key, params) => {
+      const numbers = Object.fromEntries(
+        Object.entries(params).filter(
+          (entry): entry is [string, number] => typeof entry[1] === "number"
+        )
+      );
+      const parts = interpolate(template(key, params.count), {
+        ...params,
+        ...formatParams(numbers),
+      });
+      return createElement(Fragment, null, ...parts);
+    },
+    formatNumber: (value, options) => formatNumber(locale, value, options),
+    formatDate: (value, options) => formatDate(locale, value, options),
+    formatDateRange: (checkIn, checkOut) => formatDateRange(locale, checkIn, checkOut),
+    formatTime: (value) => formatTime(locale, value),
+  };
+};
+
+const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE));
+
+/**
+ * Resolves the locale from the host (`window.openai.locale`), then the
+ * bootstrap, then the browser, and mirrors `lang`/`dir` onto the document so
+ * top-layer dialogs pick them up too.
+ */
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const hostLocale = useOpenAIGlobal("locale");
+  const locale = resolveLocale(hostLocale, readBootstrap()?.locale, navigator.language);
+  const i18n = useMemo(() => createI18n(locale), [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.lang;
+    document.documentElement.dir = i18n.dir;
+  }, [i18n]);
+
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>;
+}
+
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,75 @@
+import { ar } from "./messages/ar";
+import { en } from "./messages/en";
+import { es } from "./messages/es";
+import { languageOf } from "./locale";
+
+/** Plural forms keyed by `Intl.PluralRules` category; `other` is always required. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+export type Catalog = Record<MessageKey, Message>;
+
+/** Numbers are formatted for the locale; `count` also selects the plural form. */
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<string, Catalog> = { en, es, ar };
+
+export const FALLBACK_LANGUAGE = "en";
+
+/** The catalog language for a locale; regional variants share their language's catalog. */
+export const resolveCatalogLanguage = (locale: string): string => {
+  const language = languageOf(locale);
+  return language in CATALOGS ? language : FALLBACK_LANGUAGE;
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Splits a template around its placeholders so callers can interleave
+ * non-string values (e.g. a `<strong>`); unknown placeholders stay verbatim.
+ */
+export const interpolate = <T>(
+  template: string,
+  params: Record<string, T>
+): (string | T)[] => {
+  const parts: (string | T)[] = [];
+  let lastIndex = 0;
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push(template.slice(lastIndex, index));
+    parts.push(match[1] in params ? params[match[1]] : match[0]);
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < template.length) parts.push(template.slice(lastIndex));
+  return parts;
+};
+
+export const createMessageLookup = (locale: string) => {
+  const catalog = CATALOGS[resolveCatalogLanguage(locale)];
+  const pluralRules = new Intl.PluralRules(locale);
+  const numberFormat = new Intl.NumberFormat(locale);
+
+  /** The template for `key`, with the plural form picked when the message has several. */
+  const template = (key: MessageKey, count: unknown): string => {
+    const message = catalog[key] ?? en[key];
+    if (typeof message === "string") return message;
+    if (typeof count !== "number") {
+      console.warn(`[i18n] Plural message "${key}" was used without a numeric count.`);
+      return message.other;
+    }
+    return message[pluralRules.select(count)] ?? message.other;
+  };
+
+  const formatParams = (params: MessageParams): Record<string, string> =>
+    Object.fromEntries(
+      Object.entries(params).map(([name, value]) => [
+        name,
+        typeof value === "number" ? numberFormat.format(value) : value,
+      ])
+    );
+
+  return { template, formatParams };
+};
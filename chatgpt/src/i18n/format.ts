@@ -0,0 +1,55 @@
+export const isDateOnly = (value: string): boolean => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/** Parses `YYYY-MM-DD` as a local date, and anything else as a full timestamp. */
+export const parseDate = (value: string): Date | null => {
+  const date = new Date(isDateOnly(value) ? `${value}T00:00:00` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const formatNumber = (
+  locale: string,
+  value: number,
+  options?: Intl.NumberFormatOptions
+): string => new Intl.NumberFormat(locale, options).format(value);
+
+/** Unparseable input is returned as-is rather than rendering "Invalid Date". */
+export const formatDate = (
+  locale: string,
+  value: string,
+  options: Intl.DateTimeFormatOptions
+): string => {
+  const date = parseDate(value);
+  return date ? new Intl.DateTimeFormat(locale, options).format(date) : value;
+};
+
+// `formatRange` is ES2021; the project's lib is ES2020.
+type RangeFormat = Intl.DateTimeFormat & {
+  formatRange?: (start: Date, end: Date) => string;
+};
+
+/** A stay such as "Mar 3 – 7, 2026", collapsing the shared month/year the locale's way. */
+export const formatDateRange = (locale: string, checkIn?: string, checkOut?: string): string => {
+  if (!checkIn || !checkOut) return "—";
+  const start = parseDate(checkIn);
+  const end = parseDate(checkOut);
+  if (!start || !end) return `${checkIn} – ${checkOut}`;
+
+  const format: RangeFormat = new Intl.DateTimeFormat(locale, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+  if (typeof format.formatRange === "function" && end >= start) {
+    return format.formatRange(start, end);
+  }
+  return `${format.format(start)} – ${format.format(end)}`;
+};
+
+/** Formats a property-local `HH:MM` time. */
+export const formatTime = (locale: string, value: string): string => {
+  const [hours, minutes] = value.split(":").map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return value;
+  return new Intl.DateTimeFormat(locale, { hour: "numeric", minute: "2-digit" }).format(
+    new Date(2000, 0, 1, hours, minutes)
+  );
+};
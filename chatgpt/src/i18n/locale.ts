@@ -0,0 +1,74 @@
+import type { AreaUnit } from "../openai";
+
+export const DEFAULT_LOCALE = "en-US";
+
+export type TextDirection = "ltr" | "rtl";
+
+const RTL_LANGUAGES = new Set(["ar", "ckb", "dv", "fa", "he", "ps", "sd", "ug", "ur", "yi"]);
+
+/** Canonical BCP 47 tag, or `null` for anything `Intl` rejects. Accepts `en_US` too. */
+export const normalizeLocale = (value: unknown): string | null => {
+  if (typeof value !== "string" || !value.trim()) return null;
+  try {
+    return Intl.getCanonicalLocales(value.trim().replace(/_/g, "-"))[0] ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/** First usable locale among the candidates, in priority order. */
+export const resolveLocale = (...candidates: unknown[]): string => {
+  for (const candidate of candidates) {
+    const locale = normalizeLocale(candidate);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const languageOf = (locale: string): string => locale.split("-")[0].toLowerCase();
+
+export const textDirection = (locale: string): TextDirection =>
+  RTL_LANGUAGES.has(languageOf(locale)) ? "rtl" : "ltr";
+
+// Regions that still quote floor area in square feet.
+const SQUARE_FEET_REGIONS = new Set(["US", "LR", "MM"]);
+
+/** Square feet where the locale's region (explicit or likely) uses them, square metres elsewhere. */
+export const areaUnitFor = (locale: string): AreaUnit => {
+  try {
+    const region = new Intl.Locale(locale).maximize().region;
+    return region && SQUARE_FEET_REGIONS.has(region) ? "sqft" : "sqm";
+  } catch {
+    return "sqm";
+  }
+};
+
+// CLDR week data for regions whose weeks don't start on Monday.
+const SUNDAY_FIRST_REGIONS = new Set(
+  ("AG AS BD BR BS BT BW BZ CA CN CO DM DO ET GT GU HK HN ID IL IN JM JP KE KH KR LA MH MM " +
+    "MO MT MX MZ NI NP PA PE PH PK PR PT PY SA SG SV TH TT TW UM US VE VI WS YE ZA ZW").split(" ")
+);
+const SATURDAY_FIRST_REGIONS = new Set(
+  "AE AF BH DJ DZ EG IQ IR JO KW LY OM QA SD SY".split(" ")
+);
+
+// `getWeekInfo()` (and the older `weekInfo` getter) are newer than the ES2020 lib.
+type WeekInfoLocale = Intl.Locale & {
+  getWeekInfo?: () => { firstDay: number };
+  weekInfo?: { firstDay: number };
+};
+
+/** Day the locale's weeks start on, from 0 (Sunday) to 6 (Saturday). */
+export const firstDayOfWeek = (locale: string): number => {
+  try {
+    const intlLocale = new Intl.Locale(locale).maximize() as WeekInfoLocale;
+    const weekInfo = intlLocale.getWeekInfo?.() ?? intlLocale.weekInfo;
+    if (weekInfo) return weekInfo.firstDay % 7;
+    const region = intlLocale.region ?? "";
+    if (SATURDAY_FIRST_REGIONS.has(region)) return 6;
+    if (SUNDAY_FIRST_REGIONS.has(region)) return 0;
+    return 1;
+  } catch {
+    return 1;
+  }
+};
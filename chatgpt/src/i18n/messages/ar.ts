@@ -0,0 +1,475 @@
+import type { Catalog } from "../catalog";
+
+export const ar: Catalog = {
+  "common.hotel": "فندق",
+  "common.room": "غرفة",
+  "common.close": "إغلاق",
+  "common.cancel": "إلغاء",
+  "common.clearFilters": "مسح عوامل التصفية",
+  "common.perNight": "/ ليلة",
+  "common.pricePerNight": "السعر لليلة",
+  "common.checkIn": "تسجيل الوصول",
+  "common.checkOut": "تسجيل المغادرة",
+  "common.guests": {
+    one: "ضيف واحد",
+    two: "ضيفان",
+    few: "{count} ضيوف",
+    many: "{count} ضيفًا",
+    other: "{count} ضيف",
+  },
+  "common.rooms": {
+    one: "غرفة واحدة",
+    two: "غرفتان",
+    few: "{count} غرف",
+    many: "{count} غرفة",
+    other: "{count} غرفة",
+  },
+  "common.hotels": {
+    one: "فندق واحد",
+    two: "فندقان",
+    few: "{count} فنادق",
+    many: "{count} فندقًا",
+    other: "{count} فندق",
+  },
+  "common.upToGuests": {
+    one: "حتى ضيف واحد",
+    two: "حتى ضيفين",
+    few: "حتى {count} ضيوف",
+    many: "حتى {count} ضيفًا",
+    other: "حتى {count} ضيف",
+  },
+  "common.noRoomsFound": "لم يتم العثور على غرف تطابق عوامل التصفية هذه.",
+  "common.malformedResults": "تعذّر عرض هذه النتائج لأن البيانات غير صالحة.",
+  "common.droppedRooms": {
+    one: "تعذّر عرض غرفة واحدة لأن تفاصيلها غير مكتملة.",
+    two: "تعذّر عرض غرفتين لأن تفاصيلهما غير مكتملة.",
+    few: "تعذّر عرض {count} غرف لأن تفاصيلها غير مكتملة.",
+    other: "تعذّر عرض {count} غرفة لأن تفاصيلها غير مكتملة.",
+  },
+
+  "reserve.now": "احجز الآن",
+  "reserve.short": "احجز",
+  "reserve.pending": "جارٍ الحجز…",
+  "reserve.reserved": "محجوزة",
+  "reserve.selected": "محددة",
+  "reserve.failed": "أعد المحاولة",
+  "reserve.error": "تعذّر حجز هذه الغرفة.",
+  "reserve.roomLabel": "{action} {name}",
+
+  "search.titleAcross": "{rooms} في {hotels}",
+  "search.titleAt": "{rooms} في {name}",
+  "search.selectedHotel": "الفندق المحدد",
+  "search.selectedProperty": "المنشأة المحددة",
+  "search.defaultCollection": "مجموعة Monobook",
+  "search.noMatches": "لا توجد غرف تطابق عوامل التصفية المحددة.",
+  "search.unreadable": "لم يُرجع البحث أي نتائج يمكن قراءتها.",
+  "search.failed": "فشل البحث.",
+  "search.layout": "طريقة عرض النتائج",
+  "search.view.grouped": "حسب الفندق",
+  "search.view.flat": "كل الغرف",
+  "search.view.map": "الخريطة",
+
+  "pager.hotels": { one: "عرض فندق واحد", other: "عرض {count} من الفنادق" },
+  "pager.hotelsOf": { other: "عرض {loaded} من أصل {count} من الفنادق" },
+  "pager.rooms": { one: "عرض غرفة واحدة", other: "عرض {count} من الغرف" },
+  "pager.roomsOf": { other: "عرض {loaded} من أصل {count} من الغرف" },
+  "pager.loading": "جارٍ التحميل…",
+  "pager.more": "تحميل المزيد",
+  "pager.error": "تعذّر تحميل المزيد من النتائج.",
+
+  "layout.expand": "عرض الكل",
+  "layout.expandLabel": "عرض كل الغرف أو تغيير التواريخ أو التصفية",
+  "layout.collapse": "عرض أقل",
+  "layout.open": "فتح",
+  "layout.fromPrice": "ابتداءً من {price} لليلة",
+  "layout.status": "{status}: {name}",
+
+  "card.compare": "+ مقارنة",
+  "card.comparing": "✓ قيد المقارنة",
+  "card.compareLabel": "مقارنة {name}",
+  "card.shortlist": "حفظ {name}",
+  "card.unshortlist": "إزالة {name} من المحفوظات",
+  "card.viewDetails": "عرض التفاصيل",
+  "card.viewDetailsFor": "عرض تفاصيل {name}",
+  "card.facts": "تفاصيل الغرفة",
+
+  "facts.beds": {
+    one: "سرير واحد",
+    two: "سريران",
+    few: "{count} أسرّة",
+    many: "{count} سريرًا",
+    other: "{count} سرير",
+  },
+  "facts.bed.king": {
+    one: "سرير كينغ واحد",
+    two: "سريران كينغ",
+    few: "{count} أسرّة كينغ",
+    many: "{count} سريرًا كينغ",
+    other: "{count} سرير كينغ",
+  },
+  "facts.bed.queen": {
+    one: "سرير كوين واحد",
+    two: "سريران كوين",
+    few: "{count} أسرّة كوين",
+    many: "{count} سريرًا كوين",
+    other: "{count} سرير كوين",
+  },
+  "facts.bed.double": {
+    one: "سرير مزدوج واحد",
+    two: "سريران مزدوجان",
+    few: "{count} أسرّة مزدوجة",
+    many: "{count} سريرًا مزدوجًا",
+    other: "{count} سرير مزدوج",
+  },
+  "facts.bed.twin": {
+    one: "سرير توأم واحد",
+    two: "سريران توأم",
+    few: "{count} أسرّة توأم",
+    many: "{count} سريرًا توأم",
+    other: "{count} سرير توأم",
+  },
+  "facts.bed.single": {
+    one: "سرير فردي واحد",
+    two: "سريران فرديان",
+    few: "{count} أسرّة فردية",
+    many: "{count} سريرًا فرديًا",
+    other: "{count} سرير فردي",
+  },
+  "facts.bed.sofaBed": {
+    one: "أريكة سرير واحدة",
+    two: "أريكتا سرير",
+    few: "{count} أرائك سرير",
+    many: "{count} أريكة سرير",
+    other: "{count} أريكة سرير",
+  },
+  "facts.bed.bunk": {
+    one: "سرير بطابقين واحد",
+    two: "سريران بطابقين",
+    few: "{count} أسرّة بطابقين",
+    many: "{count} سريرًا بطابقين",
+    other: "{count} سرير بطابقين",
+  },
+  "facts.bedSeparator": "، ",
+  "facts.baths": {
+    one: "حمّام واحد",
+    two: "حمّامان",
+    few: "{count} حمّامات",
+    many: "{count} حمّامًا",
+    other: "{count} حمّام",
+  },
+  "facts.areaSqm": "{value} م²",
+  "facts.areaSqft": "{value} قدم²",
+  "facts.floor": "الطابق {floor}",
+  "facts.groundFloor": "الطابق الأرضي",
+  "facts.estimated": "{fact} (تقديري)",
+  "facts.estimatedNote": "تقدير بناءً على سعة الغرفة ووصفها",
+
+  "criteria.label": "معايير البحث",
+  "criteria.dates": "تواريخ الإقامة",
+  "criteria.guests": "الضيوف",
+  "criteria.fewerGuests": "ضيوف أقل",
+  "criteria.moreGuests": "ضيوف أكثر",
+  "criteria.searching": "جارٍ البحث…",
+  "criteria.update": "تحديث",
+  "criteria.missingDates": "اختر تاريخَي الوصول والمغادرة.",
+  "criteria.pastCheckIn": "لا يمكن أن يكون تاريخ الوصول في الماضي.",
+  "criteria.checkOutOrder": "يجب أن يكون تاريخ المغادرة بعد تاريخ الوصول.",
+
+  "guestForm.title": "بيانات الضيف لـ {name}",
+  "guestForm.name": "الاسم الكامل",
+  "guestForm.email": "البريد الإلكتروني",
+  "guestForm.phone": "الهاتف (اختياري)",
+  "guestForm.guests": "الضيوف",
+  "guestForm.requests": "طلبات خاصة (اختياري)",
+  "guestForm.submit": "تأكيد الحجز",
+  "guestForm.nameError": "أدخل الاسم الكامل للضيف.",
+  "guestForm.emailError": "أدخل بريدًا إلكترونيًا صالحًا.",
+  "guestForm.phoneError": "أدخل رقم هاتف صالحًا.",
+  "guestForm.guestsRequired": "يلزم ضيف واحد على الأقل.",
+  "guestForm.guestsMax": {
+    one: "تتسع هذه الغرفة لضيف واحد كحد أقصى.",
+    two: "تتسع هذه الغرفة لضيفين كحد أقصى.",
+    few: "تتسع هذه الغرفة لـ {count} ضيوف كحد أقصى.",
+    other: "تتسع هذه الغرفة لـ {count} ضيفًا كحد أقصى.",
+  },
+  "guestForm.requestsLength": "يجب ألا تتجاوز الطلبات {max} حرف.",
+
+  "filters.label": "تصفية الغرف وترتيبها",
+  "filters.sortBy": "الترتيب حسب",
+  "filters.min": "الأدنى",
+  "filters.max": "الأقصى",
+  "filters.minLabel": "أدنى سعر لليلة",
+  "filters.maxLabel": "أقصى سعر لليلة",
+  "filters.sleeps": "تتسع على الأقل لـ",
+  "filters.any": "أي عدد",
+  "filters.hotels": "الفنادق",
+  "filters.amenities": "المرافق",
+  "filters.showing": { other: "عرض {shown} من أصل {count} من الغرف" },
+  "filters.sortedBy": "مرتبة حسب {sort}",
+  "filters.resetSort": "إعادة تعيين الترتيب",
+  "filters.edit": "تعديل البحث",
+  "sort.recommended": "الموصى بها",
+  "sort.price_asc": "السعر: من الأقل إلى الأعلى",
+  "sort.price_desc": "السعر: من الأعلى إلى الأقل",
+  "sort.capacity_desc": "الأكثر ضيوفًا",
+  "sort.total_asc": "السعر الإجمالي",
+
+  "hotels.sleeps": "تتسع لـ {count}",
+  "hotels.from": "ابتداءً من {price}",
+  "hotels.matching": {
+    one: "غرفة مطابقة واحدة",
+    two: "غرفتان مطابقتان",
+    few: "{count} غرف مطابقة",
+    other: "{count} غرفة مطابقة",
+  },
+
+  "map.pin": "{name}، ابتداءً من {price}",
+  "map.empty": "لم يشارك أي من هذه الفنادق موقعه.",
+  "map.list": "الفنادق على الخريطة",
+  "map.addressUnavailable": "العنوان غير متاح",
+  "map.locationUnavailable": "الموقع غير متاح",
+  "map.viewRooms": "عرض الغرف",
+
+  "photos.region": "صور {label}",
+  "photos.alt": "{label}، الصورة {index} من {count}",
+  "photos.previous": "الصورة السابقة",
+  "photos.next": "الصورة التالية",
+  "photos.show": "عرض الصورة {index} من {count}",
+  "photos.viewAll": {
+    one: "عرض الصورة",
+    two: "عرض الصورتين",
+    few: "عرض الصور الـ {count}",
+    other: "عرض كل الصور ({count})",
+  },
+  "photos.close": "إغلاق الصور",
+  "photos.counter": "{index} / {count}",
+
+  "detail.close": "إغلاق تفاصيل الغرفة",
+  "detail.capacity": "السعة",
+  "detail.beds": "الأسرّة",
+  "detail.roomType": "نوع الغرفة",
+  "detail.baths": "الحمّامات",
+  "detail.area": "المساحة",
+  "detail.view": "الإطلالة",
+  "detail.floor": "الطابق",
+  "detail.about": "عن هذه الغرفة",
+  "detail.amenities": "المرافق",
+  "detail.total": "{price} إجمالي تقديري",
+  "detail.totalForNights": {
+    one: "{price} إجمالي تقديري لليلة واحدة",
+    two: "{price} إجمالي تقديري لليلتين",
+    few: "{price} إجمالي تقديري لـ {count} ليالٍ",
+    other: "{price} إجمالي تقديري لـ {count} ليلة",
+  },
+  "amenity.bedroom": "غرفة النوم",
+  "amenity.bathroom": "الحمّام",
+  "amenity.entertainment": "الترفيه والاتصال",
+  "amenity.food": "الطعام والشراب",
+  "amenity.comfort": "الراحة والإطلالات",
+  "amenity.services": "الخدمات وسهولة الوصول",
+  "amenity.other": "أخرى",
+
+  "compare.region": "مقارنة الغرف",
+  "compare.selected": "تم تحديد {count} من أصل {max} غرف",
+  "compare.clear": "مسح",
+  "compare.open": "مقارنة",
+  "compare.title": "مقارنة الغرف",
+  "compare.close": "إغلاق المقارنة",
+  "compare.caption": "الصفوف التي تختلف فيها الغرف مميّزة.",
+  "compare.remove": "إزالة",
+  "compare.removeLabel": "إزالة {name} من المقارنة",
+  "compare.perNight": "لليلة",
+  "compare.total": "الإجمالي التقديري",
+  "compare.baths": "الحمّامات",
+  "compare.area": "المساحة",
+  "compare.property": "المنشأة",
+  "compare.included": "متوفر",
+  "compare.notIncluded": "غير متوفر",
+
+  "policy.title": "سياسة الإلغاء والشروط",
+  "policy.freeUntil": "الإلغاء مجاني حتى {deadline} (بالتوقيت المحلي للمنشأة).",
+  "policy.fees": "رسوم الإلغاء",
+  "policy.afterThat": "بعد ذلك",
+  "policy.afterCheckIn": "بعد تسجيل الوصول",
+  "policy.withinDays": {
+    one: "خلال يوم واحد من الوصول",
+    two: "خلال يومين من الوصول",
+    few: "خلال {count} أيام من الوصول",
+    other: "خلال {count} يومًا من الوصول",
+  },
+  "policy.withinHours": {
+    one: "خلال ساعة واحدة من الوصول",
+    two: "خلال ساعتين من الوصول",
+    few: "خلال {count} ساعات من الوصول",
+    other: "خلال {count} ساعة من الوصول",
+  },
+  "policy.nonRefundable": "غير قابل للاسترداد",
+  "policy.percentCharged": "يُحتسب {percent} من الإجمالي",
+  "policy.amountCharged": "يُحتسب مبلغ {amount}",
+  "policy.feeApplies": "تُطبَّق رسوم إلغاء",
+  "policy.arrivalLabel": "تسجيل الوصول والمغادرة",
+  "policy.arrival": "الوصول والمغادرة",
+  "policy.checkInFrom": "من {time}",
+  "policy.checkOutBy": "حتى {time}",
+  "policy.houseRules": "قواعد المنشأة",
+  "policy.acknowledge": "لقد قرأت سياسة الإلغاء وقواعد المنشأة وأوافق عليها.",
+  "policy.agree": "موافق",
+  "policy.agreeAndConfirm": "موافق وتأكيد",
+
+  "booking.label": "بطاقة الحجز",
+  "booking.status.confirmed": "مؤكد",
+  "booking.status.pending": "قيد الانتظار",
+  "booking.status.cancelled": "ملغى",
+  "booking.details": "تفاصيل الحجز",
+  "booking.dates": "التواريخ",
+  "booking.guests": "الضيوف",
+  "booking.confirmation": "رقم التأكيد",
+  "booking.cancellation": "الإلغاء",
+  "booking.freeUntil": "مجاني حتى {deadline}",
+  "booking.fullPolicy": "السياسة الكاملة",
+  "booking.priceBreakdown": "تفصيل السعر",
+  "booking.priceDetails": "تفاصيل السعر",
+  "booking.nightsTimesRate": {
+    one: "ليلة واحدة × {rate}",
+    two: "ليلتان × {rate}",
+    few: "{count} ليالٍ × {rate}",
+    other: "{count} ليلة × {rate}",
+  },
+  "booking.subtotal": "المجموع الفرعي",
+  "booking.taxes": "الضرائب",
+  "booking.serviceFee": "رسوم الخدمة",
+  "booking.total": "الإجمالي",
+  "booking.confirmError": "تعذّر تأكيد هذا الحجز. يُرجى المحاولة مرة أخرى.",
+  "booking.terms": "الشروط",
+  "booking.confirm": "تأكيد",
+  "booking.confirming": "جارٍ التأكيد…",
+  "booking.confirmed": "تم تأكيد الحجز",
+  "booking.partial": "بعض تفاصيل الحجز غير متاحة.",
+  "booking.malformed": "تعذّر عرض هذا الحجز لأن البيانات غير صالحة.",
+  "booking.empty": "لا تتوفر بيانات للحجز.",
+  "booking.refunded": "ملغى · تم استرداد {amount}",
+
+  "change.manage": "إدارة الحجز",
+  "change.dates": "تغيير التواريخ",
+  "change.guests": "تغيير عدد الضيوف",
+  "change.cancel": "إلغاء الحجز",
+  "change.review": "مراجعة السعر",
+  "change.quoting": "جارٍ التحقق من السعر الجديد…",
+  "change.newDates": "التواريخ الجديدة: {dates}",
+  "change.newGuests": "عدد الضيوف الجديد: {guests}",
+  "change.current": "الحالي",
+  "change.new": "الجديد",
+  "change.payMore": "ستدفع {amount} إضافية.",
+  "change.payLess": "ستدفع {amount} أقل.",
+  "change.samePrice": "يبقى الإجمالي كما هو.",
+  "change.edit": "تعديل",
+  "change.apply": "تأكيد التغيير",
+  "change.applying": "جارٍ الحفظ…",
+  "change.quoteError": "تعذّر حساب سعر هذا التغيير. يُرجى المحاولة مرة أخرى.",
+  "change.applyError": "تعذّر تغيير هذا الحجز. يُرجى المحاولة مرة أخرى.",
+  "change.cancelQuoting": "جارٍ التحقق من شروط الإلغاء…",
+  "change.cancelTerms": "شروط الإلغاء",
+  "change.cancelFree": "يمكنك إلغاء هذا الحجز مجانًا.",
+  "change.cancelPenalty": "الإلغاء الآن يكلّف {amount}.",
+  "change.cancelFee": "رسوم الإلغاء",
+  "change.refund": "المبلغ المسترد",
+  "change.keep": "الاحتفاظ بالحجز",
+  "change.confirmCancel": "إلغاء الحجز",
+  "change.cancelling": "جارٍ الإلغاء…",
+  "change.cancelError": "تعذّر إلغاء هذا الحجز. يُرجى المحاولة مرة أخرى.",
+  "change.outcomeUnknown":
+    "تعذّر التأكد من تطبيق التغيير. يعرض الحجز أحدث تفاصيله؛ راجعها قبل المحاولة مرة أخرى.",
+
+  "bookings.label": "حجوزاتي",
+  "bookings.title": {
+    one: "حجز واحد",
+    two: "حجزان",
+    few: "{count} حجوزات",
+    many: "{count} حجزًا",
+    other: "{count} حجز",
+  },
+  "bookings.upcoming": "القادمة",
+  "bookings.past": "الإقامات السابقة",
+  "bookings.noUpcoming": "لا توجد إقامات قادمة.",
+  "bookings.empty": "ليس لديك أي حجوزات بعد.",
+  "bookings.malformed": "تعذّر عرض حجوزاتك لأن البيانات غير صالحة.",
+  "bookings.dropped": {
+    one: "تعذّر عرض حجز واحد.",
+    two: "تعذّر عرض حجزين.",
+    few: "تعذّر عرض {count} حجوزات.",
+    many: "تعذّر عرض {count} حجزًا.",
+    other: "تعذّر عرض {count} حجز.",
+  },
+  "bookings.back": "كل الحجوزات",
+  "bookings.loadingDetails": "جارٍ تحميل أحدث التفاصيل…",
+  "bookings.detailsError": "تعذّر تحميل أحدث تفاصيل هذا الحجز. يُعرض الملخص المحفوظ.",
+
+  "availability.title": "التوفّر",
+  "availability.previousMonth": "الشهر السابق",
+  "availability.nextMonth": "الشهر التالي",
+  "availability.pickCheckIn": "اختر تاريخ الوصول.",
+  "availability.pickCheckOut": "اختر تاريخ المغادرة.",
+  "availability.available": "متاح",
+  "availability.soldOut": "محجوز بالكامل",
+  "availability.blocked": "مغلق",
+  "availability.unknown": "لا توجد بيانات توفّر",
+  "availability.nightlyRate": "{price} لليلة",
+  "availability.minStay": {
+    one: "الحد الأدنى للإقامة ليلة واحدة",
+    two: "الحد الأدنى للإقامة ليلتان",
+    few: "الحد الأدنى للإقامة {count} ليالٍ",
+    many: "الحد الأدنى للإقامة {count} ليلة",
+    other: "الحد الأدنى للإقامة {count} ليلة",
+  },
+  "availability.legend": "دليل الألوان",
+  "availability.lowerPrice": "سعر أقل",
+  "availability.higherPrice": "سعر أعلى",
+  "availability.pastDate": "هذا التاريخ قد مضى.",
+  "availability.nightUnavailable": "هذه الليلة غير متاحة. اختر تاريخ وصول آخر.",
+  "availability.rangeUnavailable": "بعض الليالي في هذه الفترة غير متاحة. اختر تاريخ مغادرة أبكر.",
+  "availability.checkInOn": "الوصول في {date}",
+  "availability.stay": "{dates} · {nights}",
+  "availability.nights": {
+    one: "ليلة واحدة",
+    two: "ليلتان",
+    few: "{count} ليالٍ",
+    many: "{count} ليلة",
+    other: "{count} ليلة",
+  },
+  "availability.stayTotal": "الإجمالي {amount}",
+  "availability.clear": "مسح التواريخ",
+  "availability.searching": "جارٍ البحث عن الغرف…",
+  "availability.roomsFrom": "{rooms} متاحة بدءًا من {price} لليلة.",
+  "availability.roomsFound": "{rooms} متاحة.",
+  "availability.noRooms": "لا توجد غرف متاحة في هذه التواريخ.",
+  "availability.roomsLabel": "الغرف المتاحة في هذه التواريخ",
+  "availability.searchError": "تعذّر البحث عن غرف لهذه التواريخ. يُرجى المحاولة مرة أخرى.",
+  "availability.retry": "إعادة المحاولة",
+  "availability.empty": "لا تتوفر بيانات عن التوفّر.",
+  "availability.malformed": "تعذّر عرض التوفّر لأن البيانات غير صالحة.",
+  "availability.dropped": {
+    one: "تعذّر عرض ليلة واحدة.",
+    two: "تعذّر عرض ليلتين.",
+    few: "تعذّر عرض {count} ليالٍ.",
+    many: "تعذّر عرض {count} ليلة.",
+    other: "تعذّر عرض {count} ليلة.",
+  },
+
+  "money.approx": "≈ {amount}",
+  "money.approxNote": "تحويل تقريبي. سيتم الدفع بعملة {currency}.",
+  "money.approxNoteAsOf": "تحويل تقريبي بأسعار صرف {date}. سيتم الدفع بعملة {currency}.",
+
+  "a11y.loadingRooms": "جارٍ تحميل الغرف…",
+  "a11y.loadingBooking": "جارٍ تحميل الحجز…",
+  "a11y.loadingBookings": "جارٍ تحميل الحجوزات…",
+  "a11y.loadingAvailability": "جارٍ تحميل التوفّر…",
+
+  "registry.loading": "جارٍ التحميل…",
+  "registry.unknown": "هذه الأداة غير متاحة: {name}.",
+  "registry.known": "الأدوات المتاحة: {names}",
+  "registry.loadFailed": "تعذّر تحميل هذه الأداة. تحقّق من اتصالك وحاول مرة أخرى.",
+
+  "legacy.maxGuests": "الحد الأقصى للضيوف",
+  "legacy.pricePerNight": "{price}/ليلة",
+  "legacy.bookNow": "احجز الآن",
+};
@@ -0,0 +1,374 @@
+import type { Message } from "../catalog";
+
+/**
+ * Source catalog; every other locale must translate every key. `{name}` is
+ * interpolated, and plural messages are picked with `Intl.PluralRules` on `{count}`.
+ */
+export const en = {
+  "common.hotel": "Hotel",
+  "common.room": "Room",
+  "common.close": "Close",
+  "common.cancel": "Cancel",
+  "common.clearFilters": "Clear filters",
+  "common.perNight": "/ night",
+  "common.pricePerNight": "Price per night",
+  "common.checkIn": "Check-in",
+  "common.checkOut": "Check-out",
+  "common.guests": { one: "{count} guest", other: "{count} guests" },
+  "common.rooms": { one: "{count} room", other: "{count} rooms" },
+  "common.hotels": { one: "{count} hotel", other: "{count} hotels" },
+  "common.upToGuests": { one: "Up to {count} guest", other: "Up to {count} guests" },
+  "common.noRoomsFound": "No rooms found for these filters.",
+  "common.malformedResults": "These results couldn't be displayed because the data was malformed.",
+  "common.droppedRooms": {
+    one: "{count} room couldn't be shown because its details were incomplete.",
+    other: "{count} rooms couldn't be shown because their details were incomplete.",
+  },
+
+  "reserve.now": "Reserve Now",
+  "reserve.short": "Reserve",
+  "reserve.pending": "Reserving…",
+  "reserve.reserved": "Reserved",
+  "reserve.selected": "Selected",
+  "reserve.failed": "Try again",
+  "reserve.error": "We couldn't reserve this room.",
+  "reserve.roomLabel": "{action} {name}",
+
+  "search.titleAcross": "{rooms} across {hotels}",
+  "search.titleAt": "{rooms} at {name}",
+  "search.selectedHotel": "Selected hotel",
+  "search.selectedProperty": "Selected property",
+  "search.defaultCollection": "Monobook Collection",
+  "search.noMatches": "No rooms match the selected filters.",
+  "search.unreadable": "The search didn't return any results we could read.",
+  "search.failed": "The search failed.",
+  "search.layout": "Results layout",
+  "search.view.grouped": "By hotel",
+  "search.view.flat": "All rooms",
+  "search.view.map": "Map",
+
+  "pager.hotels": { one: "Showing {count} hotel", other: "Showing {count} hotels" },
+  "pager.hotelsOf": {
+    one: "Showing {loaded} of {count} hotel",
+    other: "Showing {loaded} of {count} hotels",
+  },
+  "pager.rooms": { one: "Showing {count} room", other: "Showing {count} rooms" },
+  "pager.roomsOf": {
+    one: "Showing {loaded} of {count} room",
+    other: "Showing {loaded} of {count} rooms",
+  },
+  "pager.loading": "Loading…",
+  "pager.more": "Load more",
+  "pager.error": "We couldn't load more results.",
+
+  "layout.expand": "View all",
+  "layout.expandLabel": "View all rooms, change dates or filter",
+  "layout.collapse": "Show less",
+  "layout.open": "Open",
+  "layout.fromPrice": "From {price} per night",
+  "layout.status": "{status}: {name}",
+
+  "card.compare": "+ Compare",
+  "card.comparing": "✓ Comparing",
+  "card.compareLabel": "Compare {name}",
+  "card.shortlist": "Shortlist {name}",
+  "card.unshortlist": "Remove {name} from shortlist",
+  "card.viewDetails": "View details",
+  "card.viewDetailsFor": "View details for {name}",
+  "card.facts": "Room details",
+
+  "facts.beds": { one: "{count} bed", other: "{count} beds" },
+  "facts.bed.king": { one: "{count} king bed", other: "{count} king beds" },
+  "facts.bed.queen": { one: "{count} queen bed", other: "{count} queen beds" },
+  "facts.bed.double": { one: "{count} double bed", other: "{count} double beds" },
+  "facts.bed.twin": { one: "{count} twin bed", other: "{count} twin beds" },
+  "facts.bed.single": { one: "{count} single bed", other: "{count} single beds" },
+  "facts.bed.sofaBed": { one: "{count} sofa bed", other: "{count} sofa beds" },
+  "facts.bed.bunk": { one: "{count} bunk bed", other: "{count} bunk beds" },
+  "facts.bedSeparator": ", ",
+  "facts.baths": { one: "{count} bath", other: "{count} baths" },
+  "facts.areaSqm": "{value} m²",
+  "facts.areaSqft": "{value} sq ft",
+  "facts.floor": "Floor {floor}",
+  "facts.groundFloor": "Ground floor",
+  "facts.estimated": "{fact} (est.)",
+  "facts.estimatedNote": "Estimated from the room's capacity and description",
+
+  "criteria.label": "Search criteria",
+  "criteria.dates": "Stay dates",
+  "criteria.guests": "Guests",
+  "criteria.fewerGuests": "Fewer guests",
+  "criteria.moreGuests": "More guests",
+  "criteria.searching": "Searching…",
+  "criteria.update": "Update",
+  "criteria.missingDates": "Choose check-in and check-out dates.",
+  "criteria.pastCheckIn": "Check-in can't be in the past.",
+  "criteria.checkOutOrder": "Check-out must be after check-in.",
+
+  "guestForm.title": "Guest details for {name}",
+  "guestForm.name": "Full name",
+  "guestForm.email": "Email",
+  "guestForm.phone": "Phone (optional)",
+  "guestForm.guests": "Guests",
+  "guestForm.requests": "Special requests (optional)",
+  "guestForm.submit": "Confirm reservation",
+  "guestForm.nameError": "Enter the guest's full name.",
+  "guestForm.emailError": "Enter a valid email address.",
+  "guestForm.phoneError": "Enter a valid phone number.",
+  "guestForm.guestsRequired": "At least one guest is required.",
+  "guestForm.guestsMax": {
+    one: "This room sleeps up to {count} guest.",
+    other: "This room sleeps up to {count} guests.",
+  },
+  "guestForm.requestsLength": "Keep requests under {max} characters.",
+
+  "filters.label": "Filter and sort rooms",
+  "filters.sortBy": "Sort by",
+  "filters.min": "Min",
+  "filters.max": "Max",
+  "filters.minLabel": "Minimum price per night",
+  "filters.maxLabel": "Maximum price per night",
+  "filters.sleeps": "Sleeps at least",
+  "filters.any": "Any",
+  "filters.hotels": "Hotels",
+  "filters.amenities": "Amenities",
+  "filters.showing": {
+    one: "Showing {shown} of {count} room",
+    other: "Showing {shown} of {count} rooms",
+  },
+  "filters.sortedBy": "Sorted by {sort}",
+  "filters.resetSort": "Reset sort",
+  "filters.edit": "Edit search",
+  "sort.recommended": "Recommended",
+  "sort.price_asc": "Price: low to high",
+  "sort.price_desc": "Price: high to low",
+  "sort.capacity_desc": "Most guests",
+  "sort.total_asc": "Total price",
+
+  "hotels.sleeps": "Sleeps {count}",
+  "hotels.from": "from {price}",
+  "hotels.matching": { one: "{count} matching room", other: "{count} matching rooms" },
+
+  "map.pin": "{name}, from {price}",
+  "map.empty": "None of these hotels shared a location.",
+  "map.list": "Hotels on the map",
+  "map.addressUnavailable": "Address unavailable",
+  "map.locationUnavailable": "Location unavailable",
+  "map.viewRooms": "View rooms",
+
+  "photos.region": "{label} photos",
+  "photos.alt": "{label}, photo {index} of {count}",
+  "photos.previous": "Previous photo",
+  "photos.next": "Next photo",
+  "photos.show": "Show photo {index} of {count}",
+  "photos.viewAll": { one: "View photo", other: "View all {count} photos" },
+  "photos.close": "Close photos",
+  "photos.counter": "{index} / {count}",
+
+  "detail.close": "Close room details",
+  "detail.capacity": "Capacity",
+  "detail.beds": "Beds",
+  "detail.roomType": "Room type",
+  "detail.baths": "Bathrooms",
+  "detail.area": "Size",
+  "detail.view": "View",
+  "detail.floor": "Floor",
+  "detail.about": "About this room",
+  "detail.amenities": "Amenities",
+  "detail.total": "{price} estimated total",
+  "detail.totalForNights": {
+    one: "{price} estimated total for {count} night",
+    other: "{price} estimated total for {count} nights",
+  },
+  "amenity.bedroom": "Bedroom",
+  "amenity.bathroom": "Bathroom",
+  "amenity.entertainment": "Entertainment & connectivity",
+  "amenity.food": "Food & drink",
+  "amenity.comfort": "Comfort & views",
+  "amenity.services": "Services & access",
+  "amenity.other": "Other",
+
+  "compare.region": "Room comparison",
+  "compare.selected": "{count} of {max} rooms selected",
+  "compare.clear": "Clear",
+  "compare.open": "Compare",
+  "compare.title": "Compare rooms",
+  "compare.close": "Close comparison",
+  "compare.caption": "Rows where the rooms differ are highlighted.",
+  "compare.remove": "Remove",
+  "compare.removeLabel": "Remove {name} from comparison",
+  "compare.perNight": "Per night",
+  "compare.total": "Estimated total",
+  "compare.baths": "Baths",
+  "compare.area": "Area",
+  "compare.property": "Property",
+  "compare.included": "Included",
+  "compare.notIncluded": "Not included",
+
+  "policy.title": "Cancellation policy & terms",
+  "policy.freeUntil": "Free cancellation until {deadline} (property local time).",
+  "policy.fees": "Cancellation fees",
+  "policy.afterThat": "After that",
+  "policy.afterCheckIn": "After check-in",
+  "policy.withinDays": {
+    one: "Within {count} day of check-in",
+    other: "Within {count} days of check-in",
+  },
+  "policy.withinHours": {
+    one: "Within {count} hour of check-in",
+    other: "Within {count} hours of check-in",
+  },
+  "policy.nonRefundable": "Non-refundable",
+  "policy.percentCharged": "{percent} of the total is charged",
+  "policy.amountCharged": "{amount} is charged",
+  "policy.feeApplies": "A cancellation fee applies",
+  "policy.arrivalLabel": "Check-in and check-out",
+  "policy.arrival": "Arrival & departure",
+  "policy.checkInFrom": "from {time}",
+  "policy.checkOutBy": "by {time}",
+  "policy.houseRules": "House rules",
+  "policy.acknowledge": "I have read and agree to the cancellation policy and house rules.",
+  "policy.agree": "Agree",
+  "policy.agreeAndConfirm": "Agree & confirm",
+
+  "booking.label": "Booking card",
+  "booking.status.confirmed": "Confirmed",
+  "booking.status.pending": "Pending",
+  "booking.status.cancelled": "Cancelled",
+  "booking.details": "Booking details",
+  "booking.dates": "Dates",
+  "booking.guests": "Guests",
+  "booking.confirmation": "Confirmation",
+  "booking.cancellation": "Cancellation",
+  "booking.freeUntil": "Free until {deadline}",
+  "booking.fullPolicy": "Full policy",
+  "booking.priceBreakdown": "Price breakdown",
+  "booking.priceDetails": "Price details",
+  "booking.nightsTimesRate": {
+    one: "{count} night × {rate}",
+    other: "{count} nights × {rate}",
+  },
+  "booking.subtotal": "Subtotal",
+  "booking.taxes": "Taxes",
+  "booking.serviceFee": "Service fee",
+  "booking.total": "Total",
+  "booking.confirmError": "We couldn't confirm this booking. Please try again.",
+  "booking.terms": "Terms",
+  "booking.confirm": "Confirm",
+  "booking.confirming": "Confirming…",
+  "booking.confirmed": "Booking Confirmed",
+  "booking.partial": "Some booking details are unavailable.",
+  "booking.malformed": "This booking couldn't be displayed because the data was malformed.",
+  "booking.empty": "No booking data available.",
+  "booking.refunded": "Cancelled · {amount} refunded",
+
+  "change.manage": "Manage booking",
+  "change.dates": "Change dates",
+  "change.guests": "Change guests",
+  "change.cancel": "Cancel booking",
+  "change.review": "Review price",
+  "change.quoting": "Checking the new price…",
+  "change.newDates": "New dates: {dates}",
+  "change.newGuests": "New guest count: {guests}",
+  "change.current": "Current",
+  "change.new": "New",
+  "change.payMore": "You'll pay {amount} more.",
+  "change.payLess": "You'll pay {amount} less.",
+  "change.samePrice": "The total stays the same.",
+  "change.edit": "Edit",
+  "change.apply": "Confirm change",
+  "change.applying": "Saving…",
+  "change.quoteError": "We couldn't price this change. Please try again.",
+  "change.applyError": "We couldn't change this booking. Please try again.",
+  "change.cancelQuoting": "Checking the cancellation terms…",
+  "change.cancelTerms": "Cancellation terms",
+  "change.cancelFree": "You can cancel this booking free of charge.",
+  "change.cancelPenalty": "Cancelling now costs {amount}.",
+  "change.cancelFee": "Cancellation fee",
+  "change.refund": "Refund",
+  "change.keep": "Keep booking",
+  "change.confirmCancel": "Cancel booking",
+  "change.cancelling": "Cancelling…",
+  "change.cancelError": "We couldn't cancel this booking. Please try again.",
+  "change.outcomeUnknown":
+    "We couldn't tell whether the change went through. The booking shows its latest details; check them before trying again.",
+
+  "bookings.label": "My bookings",
+  "bookings.title": {
+    one: "{count} booking",
+    other: "{count} bookings",
+  },
+  "bookings.upcoming": "Upcoming",
+  "bookings.past": "Past stays",
+  "bookings.noUpcoming": "No upcoming stays.",
+  "bookings.empty": "You don't have any bookings yet.",
+  "bookings.malformed": "Your bookings couldn't be displayed because the data was malformed.",
+  "bookings.dropped": {
+    one: "{count} booking couldn't be displayed.",
+    other: "{count} bookings couldn't be displayed.",
+  },
+  "bookings.back": "All bookings",
+  "bookings.loadingDetails": "Loading the latest details…",
+  "bookings.detailsError": "We couldn't load the latest details for this booking. Showing the saved summary.",
+
+  "availability.title": "Availability",
+  "availability.previousMonth": "Previous month",
+  "availability.nextMonth": "Next month",
+  "availability.pickCheckIn": "Pick a check-in date.",
+  "availability.pickCheckOut": "Pick a check-out date.",
+  "availability.available": "Available",
+  "availability.soldOut": "Sold out",
+  "availability.blocked": "Closed",
+  "availability.unknown": "No availability data",
+  "availability.nightlyRate": "{price} per night",
+  "availability.minStay": {
+    one: "Minimum stay {count} night",
+    other: "Minimum stay {count} nights",
+  },
+  "availability.legend": "Legend",
+  "availability.lowerPrice": "Lower price",
+  "availability.higherPrice": "Higher price",
+  "availability.pastDate": "That date has already passed.",
+  "availability.nightUnavailable": "That night isn't available. Pick another check-in date.",
+  "availability.rangeUnavailable": "Some nights in that range aren't available. Pick an earlier check-out date.",
+  "availability.checkInOn": "Check-in {date}",
+  "availability.stay": "{dates} · {nights}",
+  "availability.nights": {
+    one: "{count} night",
+    other: "{count} nights",
+  },
+  "availability.stayTotal": "{amount} total",
+  "availability.clear": "Clear dates",
+  "availability.searching": "Searching for rooms…",
+  "availability.roomsFrom": "{rooms} available from {price} per night.",
+  "availability.roomsFound": "{rooms} available.",
+  "availability.noRooms": "No rooms are available for these dates.",
+  "availability.roomsLabel": "Rooms for these dates",
+  "availability.searchError": "We couldn't search rooms for these dates. Please try again.",
+  "availability.retry": "Try again",
+  "availability.empty": "No availability data available.",
+  "availability.malformed": "Availability couldn't be displayed because the data was malformed.",
+  "availability.dropped": {
+    one: "{count} night couldn't be displayed.",
+    other: "{count} nights couldn't be displayed.",
+  },
+
+  "money.approx": "≈ {amount}",
+  "money.approxNote": "Approximate conversion. You'll be charged in {currency}.",
+  "money.approxNoteAsOf":
+    "Approximate conversion at rates from {date}. You'll be charged in {currency}.",
+
+  "a11y.loadingRooms": "Loading rooms…",
+  "a11y.loadingBooking": "Loading booking…",
+  "a11y.loadingBookings": "Loading bookings…",
+  "a11y.loadingAvailability": "Loading availability…",
+
+  "registry.loading": "Loading…",
+  "registry.unknown": "This widget isn't available: {name}.",
+  "registry.known": "Available widgets: {names}",
+  "registry.loadFailed": "This widget couldn't be loaded. Check your connection and try again.",
+
+  "legacy.maxGuests": "Max guests",
+  "legacy.pricePerNight": "{price}/night",
+  "legacy.bookNow": "Book now",
+} satisfies Record<string, Message>;
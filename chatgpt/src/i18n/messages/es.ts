@@ -0,0 +1,378 @@
+import type { Catalog } from "../catalog";
+
+export const es: Catalog = {
+  "common.hotel": "Hotel",
+  "common.room": "Habitación",
+  "common.close": "Cerrar",
+  "common.cancel": "Cancelar",
+  "common.clearFilters": "Borrar filtros",
+  "common.perNight": "/ noche",
+  "common.pricePerNight": "Precio por noche",
+  "common.checkIn": "Entrada",
+  "common.checkOut": "Salida",
+  "common.guests": { one: "{count} huésped", other: "{count} huéspedes" },
+  "common.rooms": { one: "{count} habitación", other: "{count} habitaciones" },
+  "common.hotels": { one: "{count} hotel", other: "{count} hoteles" },
+  "common.upToGuests": { one: "Hasta {count} huésped", other: "Hasta {count} huéspedes" },
+  "common.noRoomsFound": "No se encontraron habitaciones con estos filtros.",
+  "common.malformedResults":
+    "No se pudieron mostrar estos resultados porque los datos no son válidos.",
+  "common.droppedRooms": {
+    one: "No se pudo mostrar {count} habitación porque sus datos estaban incompletos.",
+    other: "No se pudieron mostrar {count} habitaciones porque sus datos estaban incompletos.",
+  },
+
+  "reserve.now": "Reservar ahora",
+  "reserve.short": "Reservar",
+  "reserve.pending": "Reservando…",
+  "reserve.reserved": "Reservada",
+  "reserve.selected": "Seleccionada",
+  "reserve.failed": "Reintentar",
+  "reserve.error": "No pudimos reservar esta habitación.",
+  "reserve.roomLabel": "{action} {name}",
+
+  "search.titleAcross": "{rooms} en {hotels}",
+  "search.titleAt": "{rooms} en {name}",
+  "search.selectedHotel": "Hotel seleccionado",
+  "search.selectedProperty": "Alojamiento seleccionado",
+  "search.defaultCollection": "Colección Monobook",
+  "search.noMatches": "Ninguna habitación coincide con los filtros seleccionados.",
+  "search.unreadable": "La búsqueda no devolvió resultados que pudiéramos leer.",
+  "search.failed": "La búsqueda falló.",
+  "search.layout": "Vista de resultados",
+  "search.view.grouped": "Por hotel",
+  "search.view.flat": "Todas",
+  "search.view.map": "Mapa",
+
+  "pager.hotels": { one: "Mostrando {count} hotel", other: "Mostrando {count} hoteles" },
+  "pager.hotelsOf": {
+    one: "Mostrando {loaded} de {count} hotel",
+    other: "Mostrando {loaded} de {count} hoteles",
+  },
+  "pager.rooms": {
+    one: "Mostrando {count} habitación",
+    other: "Mostrando {count} habitaciones",
+  },
+  "pager.roomsOf": {
+    one: "Mostrando {loaded} de {count} habitación",
+    other: "Mostrando {loaded} de {count} habitaciones",
+  },
+  "pager.loading": "Cargando…",
+  "pager.more": "Cargar más",
+  "pager.error": "No pudimos cargar más resultados.",
+
+  "layout.expand": "Ver todas",
+  "layout.expandLabel": "Ver todas las habitaciones, cambiar fechas o filtrar",
+  "layout.collapse": "Ver menos",
+  "layout.open": "Abrir",
+  "layout.fromPrice": "Desde {price} por noche",
+  "layout.status": "{status}: {name}",
+
+  "card.compare": "+ Comparar",
+  "card.comparing": "✓ Comparando",
+  "card.compareLabel": "Comparar {name}",
+  "card.shortlist": "Guardar {name}",
+  "card.unshortlist": "Quitar {name} de guardadas",
+  "card.viewDetails": "Ver detalles",
+  "card.viewDetailsFor": "Ver detalles de {name}",
+  "card.facts": "Detalles de la habitación",
+
+  "facts.beds": { one: "{count} cama", other: "{count} camas" },
+  "facts.bed.king": { one: "{count} cama king", other: "{count} camas king" },
+  "facts.bed.queen": { one: "{count} cama queen", other: "{count} camas queen" },
+  "facts.bed.double": { one: "{count} cama doble", other: "{count} camas dobles" },
+  "facts.bed.twin": { one: "{count} cama gemela", other: "{count} camas gemelas" },
+  "facts.bed.single": { one: "{count} cama individual", other: "{count} camas individuales" },
+  "facts.bed.sofaBed": { one: "{count} sofá cama", other: "{count} sofás cama" },
+  "facts.bed.bunk": { one: "{count} litera", other: "{count} literas" },
+  "facts.bedSeparator": ", ",
+  "facts.baths": { one: "{count} baño", other: "{count} baños" },
+  "facts.areaSqm": "{value} m²",
+  "facts.areaSqft": "{value} ft²",
+  "facts.floor": "Planta {floor}",
+  "facts.groundFloor": "Planta baja",
+  "facts.estimated": "{fact} (aprox.)",
+  "facts.estimatedNote": "Estimado a partir de la capacidad y la descripción de la habitación",
+
+  "criteria.label": "Criterios de búsqueda",
+  "criteria.dates": "Fechas de la estancia",
+  "criteria.guests": "Huéspedes",
+  "criteria.fewerGuests": "Menos huéspedes",
+  "criteria.moreGuests": "Más huéspedes",
+  "criteria.searching": "Buscando…",
+  "criteria.update": "Actualizar",
+  "criteria.missingDates": "Elige las fechas de entrada y salida.",
+  "criteria.pastCheckIn": "La entrada no puede ser en el pasado.",
+  "criteria.checkOutOrder": "La salida debe ser posterior a la entrada.",
+
+  "guestForm.title": "Datos del huésped para {name}",
+  "guestForm.name": "Nombre completo",
+  "guestForm.email": "Correo electrónico",
+  "guestForm.phone": "Teléfono (opcional)",
+  "guestForm.guests": "Huéspedes",
+  "guestForm.requests": "Peticiones especiales (opcional)",
+  "guestForm.submit": "Confirmar reserva",
+  "guestForm.nameError": "Introduce el nombre completo del huésped.",
+  "guestForm.emailError": "Introduce un correo electrónico válido.",
+  "guestForm.phoneError": "Introduce un número de teléfono válido.",
+  "guestForm.guestsRequired": "Se necesita al menos un huésped.",
+  "guestForm.guestsMax": {
+    one: "Esta habitación admite hasta {count} huésped.",
+    other: "Esta habitación admite hasta {count} huéspedes.",
+  },
+  "guestForm.requestsLength": "Las peticiones deben tener menos de {max} caracteres.",
+
+  "filters.label": "Filtrar y ordenar habitaciones",
+  "filters.sortBy": "Ordenar por",
+  "filters.min": "Mín.",
+  "filters.max": "Máx.",
+  "filters.minLabel": "Precio mínimo por noche",
+  "filters.maxLabel": "Precio máximo por noche",
+  "filters.sleeps": "Capacidad mínima",
+  "filters.any": "Cualquiera",
+  "filters.hotels": "Hoteles",
+  "filters.amenities": "Servicios",
+  "filters.showing": {
+    one: "Mostrando {shown} de {count} habitación",
+    other: "Mostrando {shown} de {count} habitaciones",
+  },
+  "filters.sortedBy": "Ordenadas por {sort}",
+  "filters.resetSort": "Restablecer orden",
+  "filters.edit": "Editar búsqueda",
+  "sort.recommended": "Recomendadas",
+  "sort.price_asc": "Precio: de menor a mayor",
+  "sort.price_desc": "Precio: de mayor a menor",
+  "sort.capacity_desc": "Más huéspedes",
+  "sort.total_asc": "Precio total",
+
+  "hotels.sleeps": "Para {count}",
+  "hotels.from": "desde {price}",
+  "hotels.matching": {
+    one: "{count} habitación disponible",
+    other: "{count} habitaciones disponibles",
+  },
+
+  "map.pin": "{name}, desde {price}",
+  "map.empty": "Ninguno de estos hoteles compartió su ubicación.",
+  "map.list": "Hoteles en el mapa",
+  "map.addressUnavailable": "Dirección no disponible",
+  "map.locationUnavailable": "Ubicación no disponible",
+  "map.viewRooms": "Ver habitaciones",
+
+  "photos.region": "Fotos de {label}",
+  "photos.alt": "{label}, foto {index} de {count}",
+  "photos.previous": "Foto anterior",
+  "photos.next": "Foto siguiente",
+  "photos.show": "Mostrar foto {index} de {count}",
+  "photos.viewAll": { one: "Ver foto", other: "Ver las {count} fotos" },
+  "photos.close": "Cerrar fotos",
+  "photos.counter": "{index} / {count}",
+
+  "detail.close": "Cerrar detalles de la habitación",
+  "detail.capacity": "Capacidad",
+  "detail.beds": "Camas",
+  "detail.roomType": "Tipo de habitación",
+  "detail.baths": "Baños",
+  "detail.area": "Superficie",
+  "detail.view": "Vistas",
+  "detail.floor": "Planta",
+  "detail.about": "Sobre esta habitación",
+  "detail.amenities": "Servicios",
+  "detail.total": "{price} total estimado",
+  "detail.totalForNights": {
+    one: "{price} total estimado por {count} noche",
+    other: "{price} total estimado por {count} noches",
+  },
+  "amenity.bedroom": "Dormitorio",
+  "amenity.bathroom": "Baño",
+  "amenity.entertainment": "Entretenimiento y conectividad",
+  "amenity.food": "Comida y bebida",
+  "amenity.comfort": "Confort y vistas",
+  "amenity.services": "Servicios y accesibilidad",
+  "amenity.other": "Otros",
+
+  "compare.region": "Comparación de habitaciones",
+  "compare.selected": "{count} de {max} habitaciones seleccionadas",
+  "compare.clear": "Borrar",
+  "compare.open": "Comparar",
+  "compare.title": "Comparar habitaciones",
+  "compare.close": "Cerrar comparación",
+  "compare.caption": "Las filas en las que las habitaciones difieren están resaltadas.",
+  "compare.remove": "Quitar",
+  "compare.removeLabel": "Quitar {name} de la comparación",
+  "compare.perNight": "Por noche",
+  "compare.total": "Total estimado",
+  "compare.baths": "Baños",
+  "compare.area": "Superficie",
+  "compare.property": "Alojamiento",
+  "compare.included": "Incluido",
+  "compare.notIncluded": "No incluido",
+
+  "policy.title": "Política de cancelación y condiciones",
+  "policy.freeUntil": "Cancelación gratuita hasta el {deadline} (hora local del alojamiento).",
+  "policy.fees": "Gastos de cancelación",
+  "policy.afterThat": "Después",
+  "policy.afterCheckIn": "Después de la entrada",
+  "policy.withinDays": {
+    one: "En el día anterior a la entrada",
+    other: "En los {count} días anteriores a la entrada",
+  },
+  "policy.withinHours": {
+    one: "En la hora anterior a la entrada",
+    other: "En las {count} horas anteriores a la entrada",
+  },
+  "policy.nonRefundable": "No reembolsable",
+  "policy.percentCharged": "Se cobra el {percent} del total",
+  "policy.amountCharged": "Se cobran {amount}",
+  "policy.feeApplies": "Se aplica un cargo por cancelación",
+  "policy.arrivalLabel": "Entrada y salida",
+  "policy.arrival": "Llegada y salida",
+  "policy.checkInFrom": "desde las {time}",
+  "policy.checkOutBy": "hasta las {time}",
+  "policy.houseRules": "Normas de la casa",
+  "policy.acknowledge":
+    "He leído y acepto la política de cancelación y las normas de la casa.",
+  "policy.agree": "Aceptar",
+  "policy.agreeAndConfirm": "Aceptar y confirmar",
+
+  "booking.label": "Tarjeta de reserva",
+  "booking.status.confirmed": "Confirmada",
+  "booking.status.pending": "Pendiente",
+  "booking.status.cancelled": "Cancelada",
+  "booking.details": "Detalles de la reserva",
+  "booking.dates": "Fechas",
+  "booking.guests": "Huéspedes",
+  "booking.confirmation": "Confirmación",
+  "booking.cancellation": "Cancelación",
+  "booking.freeUntil": "Gratuita hasta el {deadline}",
+  "booking.fullPolicy": "Política completa",
+  "booking.priceBreakdown": "Desglose del precio",
+  "booking.priceDetails": "Detalles del precio",
+  "booking.nightsTimesRate": {
+    one: "{count} noche × {rate}",
+    other: "{count} noches × {rate}",
+  },
+  "booking.subtotal": "Subtotal",
+  "booking.taxes": "Impuestos",
+  "booking.serviceFee": "Tarifa de servicio",
+  "booking.total": "Total",
+  "booking.confirmError": "No pudimos confirmar esta reserva. Inténtalo de nuevo.",
+  "booking.terms": "Condiciones",
+  "booking.confirm": "Confirmar",
+  "booking.confirming": "Confirmando…",
+  "booking.confirmed": "Reserva confirmada",
+  "booking.partial": "Algunos detalles de la reserva no están disponibles.",
+  "booking.malformed": "No se pudo mostrar esta reserva porque los datos no son válidos.",
+  "booking.empty": "No hay datos de la reserva.",
+  "booking.refunded": "Cancelada · {amount} reembolsados",
+
+  "change.manage": "Gestionar reserva",
+  "change.dates": "Cambiar fechas",
+  "change.guests": "Cambiar huéspedes",
+  "change.cancel": "Cancelar reserva",
+  "change.review": "Ver precio",
+  "change.quoting": "Comprobando el nuevo precio…",
+  "change.newDates": "Nuevas fechas: {dates}",
+  "change.newGuests": "Nuevo número de huéspedes: {guests}",
+  "change.current": "Actual",
+  "change.new": "Nuevo",
+  "change.payMore": "Pagarás {amount} más.",
+  "change.payLess": "Pagarás {amount} menos.",
+  "change.samePrice": "El total no cambia.",
+  "change.edit": "Editar",
+  "change.apply": "Confirmar cambio",
+  "change.applying": "Guardando…",
+  "change.quoteError": "No se pudo calcular el precio de este cambio. Inténtalo de nuevo.",
+  "change.applyError": "No se pudo modificar esta reserva. Inténtalo de nuevo.",
+  "change.cancelQuoting": "Comprobando las condiciones de cancelación…",
+  "change.cancelTerms": "Condiciones de cancelación",
+  "change.cancelFree": "Puedes cancelar esta reserva sin coste.",
+  "change.cancelPenalty": "Cancelar ahora cuesta {amount}.",
+  "change.cancelFee": "Cargo por cancelación",
+  "change.refund": "Reembolso",
+  "change.keep": "Mantener reserva",
+  "change.confirmCancel": "Cancelar reserva",
+  "change.cancelling": "Cancelando…",
+  "change.cancelError": "No se pudo cancelar esta reserva. Inténtalo de nuevo.",
+  "change.outcomeUnknown":
+    "No sabemos si el cambio se aplicó. La reserva muestra sus datos más recientes; revísalos antes de volver a intentarlo.",
+
+  "bookings.label": "Mis reservas",
+  "bookings.title": {
+    one: "{count} reserva",
+    other: "{count} reservas",
+  },
+  "bookings.upcoming": "Próximas",
+  "bookings.past": "Estancias pasadas",
+  "bookings.noUpcoming": "No tienes estancias próximas.",
+  "bookings.empty": "Todavía no tienes reservas.",
+  "bookings.malformed": "No se pudieron mostrar tus reservas porque los datos no son válidos.",
+  "bookings.dropped": {
+    one: "No se pudo mostrar {count} reserva.",
+    other: "No se pudieron mostrar {count} reservas.",
+  },
+  "bookings.back": "Todas las reservas",
+  "bookings.loadingDetails": "Cargando los datos más recientes…",
+  "bookings.detailsError": "No se pudieron cargar los datos más recientes de esta reserva. Se muestra el resumen guardado.",
+
+  "availability.title": "Disponibilidad",
+  "availability.previousMonth": "Mes anterior",
+  "availability.nextMonth": "Mes siguiente",
+  "availability.pickCheckIn": "Elige la fecha de llegada.",
+  "availability.pickCheckOut": "Elige la fecha de salida.",
+  "availability.available": "Disponible",
+  "availability.soldOut": "Agotado",
+  "availability.blocked": "Cerrado",
+  "availability.unknown": "Sin datos de disponibilidad",
+  "availability.nightlyRate": "{price} por noche",
+  "availability.minStay": {
+    one: "Estancia mínima de {count} noche",
+    other: "Estancia mínima de {count} noches",
+  },
+  "availability.legend": "Leyenda",
+  "availability.lowerPrice": "Precio más bajo",
+  "availability.higherPrice": "Precio más alto",
+  "availability.pastDate": "Esa fecha ya ha pasado.",
+  "availability.nightUnavailable": "Esa noche no está disponible. Elige otra fecha de llegada.",
+  "availability.rangeUnavailable": "Algunas noches de ese rango no están disponibles. Elige una fecha de salida anterior.",
+  "availability.checkInOn": "Llegada el {date}",
+  "availability.stay": "{dates} · {nights}",
+  "availability.nights": {
+    one: "{count} noche",
+    other: "{count} noches",
+  },
+  "availability.stayTotal": "{amount} en total",
+  "availability.clear": "Borrar fechas",
+  "availability.searching": "Buscando habitaciones…",
+  "availability.roomsFrom": "{rooms} disponibles desde {price} por noche.",
+  "availability.roomsFound": "{rooms} disponibles.",
+  "availability.noRooms": "No hay habitaciones disponibles para estas fechas.",
+  "availability.roomsLabel": "Habitaciones para estas fechas",
+  "availability.searchError": "No se pudieron buscar habitaciones para estas fechas. Inténtalo de nuevo.",
+  "availability.retry": "Reintentar",
+  "availability.empty": "No hay datos de disponibilidad.",
+  "availability.malformed": "No se pudo mostrar la disponibilidad porque los datos no son válidos.",
+  "availability.dropped": {
+    one: "No se pudo mostrar {count} noche.",
+    other: "No se pudieron mostrar {count} noches.",
+  },
+
+  "money.approx": "≈ {amount}",
+  "money.approxNote": "Conversión aproximada. Se te cobrará en {currency}.",
+  "money.approxNoteAsOf":
+    "Conversión aproximada con tipos de cambio del {date}. Se te cobrará en {currency}.",
+
+  "a11y.loadingRooms": "Cargando habitaciones…",
+  "a11y.loadingBooking": "Cargando reserva…",
+  "a11y.loadingBookings": "Cargando reservas…",
+  "a11y.loadingAvailability": "Cargando disponibilidad…",
+
+  "registry.loading": "Cargando…",
+  "registry.unknown": "Este widget no está disponible: {name}.",
+  "registry.known": "Widgets disponibles: {names}",
+  "registry.loadFailed": "No se pudo cargar este widget. Comprueba tu conexión e inténtalo de nuevo.",
+
+  "legacy.maxGuests": "Huéspedes máx.",
+  "legacy.pricePerNight": "{price}/noche",
+  "legacy.bookNow": "Reservar",
+};
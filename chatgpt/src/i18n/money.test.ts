@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import { convertMoney, formatMoney, normalizeCurrencyCode } from "./money";
+
+// Intl separates symbols with non-breaking spaces; compare with plain ones.
+const format = (...args: Parameters<typeof formatMoney>): string =>
+  formatMoney(...args).replace(/\s/g, " ");
+
+describe("formatMoney", () => {
+  it("uses each currency's minor units", () => {
+    expect(format(1234.5, { code: "USD" }, "en-US")).toBe("$1,234.50");
+    expect(format(1234.5, { code: "JPY" }, "en-US")).toBe("¥1,235");
+    expect(format(1234.5, { code: "KWD" }, "en-US")).toBe("KWD 1,234.500");
+  });
+
+  it("follows the locale's symbol placement and separators", () => {
+    expect(format(1234.5, { code: "EUR" }, "de-DE")).toBe("1.234,50 €");
+  });
+
+  it("drops minor units for whole amounts with auto, and rounds with whole", () => {
+    expect(format(195, { code: "USD" }, "en-US", "auto")).toBe("$195");
+    expect(format(195.5, { code: "USD" }, "en-US", "auto")).toBe("$195.50");
+    expect(format(195.6, { code: "USD" }, "en-US", "whole")).toBe("$196");
+  });
+
+  it("accepts lowercase codes and codes sent as the display value", () => {
+    expect(format(10, { code: "usd" }, "en-US")).toBe("$10.00");
+    expect(format(10, { code: "$$", display: "usd" }, "en-US")).toBe("$10.00");
+  });
+
+  it("puts the backend's symbol where the locale puts currency", () => {
+    expect(format(1234.5, { display: "₹" }, "en-US")).toBe("₹1,234.50");
+    expect(format(1234.5, { display: "Rs" }, "en-US")).toBe("Rs 1,234.50");
+    expect(format(1234.5, { display: "€" }, "de-DE")).toBe("1.234,50 €");
+  });
+
+  it("shows a plain number without any currency, and zero for non-finite amounts", () => {
+    expect(format(1234.5, {}, "en-US")).toBe("1,234.50");
+    expect(format(Number.NaN, { code: "USD" }, "en-US")).toBe("$0.00");
+  });
+});
+
+describe("normalizeCurrencyCode", () => {
+  it("accepts three-letter codes only", () => {
+    expect(normalizeCurrencyCode(" eur ")).toBe("EUR");
+    expect(normalizeCurrencyCode("€")).toBeNull();
+    expect(normalizeCurrencyCode(undefined)).toBeNull();
+  });
+});
+
+describe("convertMoney", () => {
+  const rates = { target_currency: "eur", rates: { USD: 0.9, GBP: 0 }, as_of: "2026-10-19" };
+
+  it("converts into the target currency", () => {
+    expect(convertMoney(100, "usd", rates)).toEqual({
+      amount: 90,
+      currency: "EUR",
+      asOf: "2026-10-19",
+    });
+  });
+
+  it("returns null when there's nothing to convert", () => {
+    expect(convertMoney(100, "EUR", rates)).toBeNull();
+    expect(convertMoney(100, "JPY", rates)).toBeNull();
+    expect(convertMoney(100, "GBP", rates)).toBeNull();
+    expect(convertMoney(undefined, "USD", rates)).toBeNull();
+    expect(convertMoney(100, "USD", undefined)).toBeNull();
+  });
+});
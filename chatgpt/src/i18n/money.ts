@@ -0,0 +1,103 @@
+import type { ExchangeRates } from "../openai";
+
+/** How a payload describes a price's currency; `code` should be ISO 4217. */
+export type MoneyCurrency = {
+  code?: string;
+  /** Symbol the backend suggests; only used when there's no usable `code`. */
+  display?: string;
+};
+
+/**
+ * `minor` always shows the currency's ISO minor units (2 for USD, 0 for JPY,
+ * 3 for KWD); `auto` drops them for whole amounts; `whole` rounds to units.
+ */
+export type MoneyPrecision = "minor" | "auto" | "whole";
+
+export type ConvertedMoney = {
+  amount: number;
+  currency: string;
+  asOf?: string;
+};
+
+const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+export const normalizeCurrencyCode = (value: string | undefined): string | null => {
+  const code = value?.trim().toUpperCase();
+  return code && CURRENCY_CODE_PATTERN.test(code) ? code : null;
+};
+
+const fractionDigits = (
+  locale: string,
+  code: string,
+  amount: number,
+  precision: MoneyPrecision
+): number => {
+  if (precision === "whole") return 0;
+  if (precision === "auto" && Number.isInteger(amount)) return 0;
+  return (
+    new Intl.NumberFormat(locale, { style: "currency", currency: code }).resolvedOptions()
+      .minimumFractionDigits ?? 2
+  );
+};
+
+/**
+ * Formats through `Intl.NumberFormat`, so symbol placement, spacing and digits
+ * follow the locale. Without a usable code the backend's `display` symbol is
+ * swapped into the locale's currency slot; with neither, the plain number is shown.
+ */
+export const formatMoney = (
+  amount: number,
+  currency: MoneyCurrency,
+  locale: string,
+  precision: MoneyPrecision = "minor"
+): string => {
+  const value = Number.isFinite(amount) ? amount : 0;
+  const display = currency.display?.trim();
+  const code = normalizeCurrencyCode(currency.code) ?? normalizeCurrencyCode(display);
+
+  if (code) {
+    const digits = fractionDigits(locale, code, value, precision);
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: code,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(value);
+  }
+
+  // "XXX" is ISO 4217's "no currency"; it marks where the locale puts the symbol.
+  const digits = precision === "minor" || !Number.isInteger(value) ? 2 : 0;
+  const options: Intl.NumberFormatOptions = {
+    minimumFractionDigits: precision === "whole" ? 0 : digits,
+    maximumFractionDigits: precision === "whole" ? 0 : digits,
+  };
+  if (!display) return new Intl.NumberFormat(locale, options).format(value);
+  return new Intl.NumberFormat(locale, {
+    ...options,
+    style: "currency",
+    currency: "XXX",
+    // Letter symbols ("Rs") need the spacing the locale gives codes.
+    currencyDisplay: /\p{L}/u.test(display) ? "code" : "symbol",
+  })
+    .formatToParts(value)
+    .map((part) => (part.type === "currency" ? display : part.value))
+    .join("");
+};
+
+/**
+ * The amount in the rates' target currency, or `null` when there's nothing
+ * to convert (no rates, same currency, or no rate for the source currency).
+ */
+export const convertMoney = (
+  amount: number | undefined,
+  currencyCode: string | undefined,
+  rates: ExchangeRates | undefined
+): ConvertedMoney | null => {
+  const from = normalizeCurrencyCode(currencyCode);
+  const to = normalizeCurrencyCode(rates?.target_currency);
+  if (!rates || !from || !to || from === to) return null;
+  if (typeof amount !== "number" || !Number.isFinite(amount)) return null;
+  const rate = rates.rates[from];
+  if (typeof rate !== "number" || !(rate > 0)) return null;
+  return { amount: amount * rate, currency: to, asOf: rates.as_of };
+};
@@ -11,19 +11,65 @@ export type SearchRoom = {
   estimated_total_price_currency_code?: string;
   estimated_total_price_currency_display?: string;
   max_guests?: number;
+  /** Free-text bed description; `beds` takes precedence when both are sent. */
+  bed_config?: string;
+  beds?: RoomBed[];
+  /** Half baths count as 0.5. */
+  bathrooms?: number;
+  area?: RoomArea;
+  view?: string;
+  floor?: number;
   amenities?: string[];
   images?: string[];
 };
 
+export type BedType = "king" | "queen" | "double" | "twin" | "single" | "sofa_bed" | "bunk" | "other";
+
+export type RoomBed = {
+  type: BedType;
+  count: number;
+};
+
+export type AreaUnit = "sqm" | "sqft";
+
+export type RoomArea = {
+  value: number;
+  unit: AreaUnit;
+};
+
 export type SearchHotel = {
   property_id?: string;
   property_name?: string;
   min_price_per_night?: number;
   min_price_currency_code?: string;
   min_price_currency_display?: string;
+  /** WGS 84 degrees. */
+  latitude?: number;
+  longitude?: number;
+  address?: string;
   matching_rooms?: SearchRoom[];
 };
 
+/** Lets prices be shown, approximately, in the user's own currency. */
+export type ExchangeRates = {
+  /** ISO 4217 code of the user's currency. */
+  target_currency: string;
+  /** Units of `target_currency` per one unit of each source currency, keyed by ISO code. */
+  rates: Record<string, number>;
+  /** ISO 8601 date or date-time the rates were taken. */
+  as_of?: string;
+};
+
+/** Cursor- or offset-based; a host may send either. */
+export type SearchPaging = {
+  next_cursor?: string;
+  next_offset?: number;
+  limit?: number;
+  /** Total results across all pages. */
+  total?: number;
+  has_more?: boolean;
+};
+
 export type SearchRoomsStructuredPayload = {
   property_id?: string;
   property_name?: string;
@@ -32,6 +78,8 @@ export type SearchRoomsStructuredPayload = {
   count?: number;
   count_hotels?: number;
   count_rooms?: number;
+  paging?: SearchPaging;
+  exchange_rates?: ExchangeRates;
   check_in?: string;
   check_out?: string;
   guests?: number;
@@ -45,6 +93,33 @@ export type SearchRoomsStructuredPayload = {
   error?: string;
 };
 
+export type CancellationPenaltyTier = {
+  /** Tier applies to cancellations made within this many hours of check-in. */
+  hours_before_check_in: number;
+  penalty_percent?: number;
+  penalty_amount?: number;
+  description?: string;
+};
+
+export type BookingPolicy = {
+  /** ISO 8601 date or date-time, in the property's local time. */
+  free_cancellation_until?: string;
+  penalty_tiers?: CancellationPenaltyTier[];
+  /** `HH:MM`, 24-hour. */
+  check_in_time?: string;
+  check_out_time?: string;
+  house_rules?: string[];
+  summary?: string;
+};
+
+/** What cancelling costs, as quoted or charged by `cancel_booking`. */
+export type CancellationQuote = {
+  penalty_amount?: number;
+  refund_amount?: number;
+  /** ISO 8601 date-time; set once the booking is cancelled. */
+  cancelled_at?: string;
+};
+
 export type BookingPayload = {
   booking_id?: string;
   status?: string;
@@ -71,17 +146,86 @@ export type BookingPayload = {
   currency?: string;
   currency_code?: string;
   currency_display?: string;
+  exchange_rates?: ExchangeRates;
+  policy?: BookingPolicy;
+  cancellation?: CancellationQuote;
+  message?: string;
+  error?: string;
+};
+
+/** Result of `list_bookings`. */
+export type BookingListPayload = {
+  bookings?: BookingPayload[];
+  count?: number;
+  message?: string;
+  error?: string;
+};
+
+export type NightStatus = "available" | "sold_out" | "blocked";
+
+export type AvailabilityNight = {
+  /** `YYYY-MM-DD`; the night that starts on this date. */
+  date: string;
+  /** `blocked` is closed by the property, as opposed to fully booked. */
+  status: NightStatus;
+  price?: number;
+  /** Minimum nights for stays that check in on this date; overrides the payload's `min_stay`. */
+  min_stay?: number;
+};
+
+/** Result of `check_availability`. */
+export type AvailabilityPayload = {
+  property_id?: string;
+  property_name?: string;
+  room_id?: string;
+  room_name?: string;
+  guests?: number;
+  currency_code?: string;
+  currency_display?: string;
+  min_stay?: number;
+  nights?: AvailabilityNight[];
   message?: string;
   error?: string;
 };
 
-export type OpenAIBridge = {
+export type Theme = "light" | "dark";
+
+export type DisplayMode = "inline" | "fullscreen" | "pip";
+
+export type SafeArea = {
+  insets: { top: number; bottom: number; left: number; right: number };
+};
+
+export type UserAgent = {
+  device: { type: "mobile" | "tablet" | "desktop" | "unknown" };
+  capabilities: { hover: boolean; touch: boolean };
+};
+
+export type OpenAIGlobals = {
+  theme?: Theme;
+  locale?: string;
+  displayMode?: DisplayMode;
+  maxHeight?: number;
+  safeArea?: SafeArea;
+  userAgent?: UserAgent;
+  toolInput?: Record<string, unknown>;
+  toolOutput?: unknown;
+  toolResponseMetadata?: unknown;
+  widgetState?: unknown;
+};
+
+export type SetGlobalsEventDetail = {
+  globals: Partial<OpenAIGlobals>;
+};
+
+export type OpenAIBridge = OpenAIGlobals & {
   callTool?: (name: string, args?: Record<string, unknown>) => Promise<unknown>;
+  setWidgetState?: (state: unknown) => Promise<void> | void;
+  requestDisplayMode?: (args: { mode: DisplayMode }) => Promise<unknown> | unknown;
   getInitialState?: () => Promise<unknown> | unknown;
   getState?: () => Promise<unknown> | unknown;
   getContext?: () => Promise<unknown> | unknown;
   getToolOutput?: () => Promise<unknown> | unknown;
-  toolOutput?: unknown;
   output?: unknown;
   [key: string]: unknown;
 };
@@ -90,4 +234,8 @@ declare global {
   interface Window {
     openai?: OpenAIBridge;
   }
+
+  interface WindowEventMap {
+    "openai:set_globals": CustomEvent<SetGlobalsEventDetail>;
+  }
 }
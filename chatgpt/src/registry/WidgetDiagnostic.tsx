@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+
+import { useI18n } from "../i18n/I18nProvider";
+
+/** Suspense fallback while a widget's chunk downloads. */
+export function WidgetLoading() {
+  const { t } = useI18n();
+  return (
+    <div className="widget-diagnostic" role="status" aria-busy="true">
+      <span className="visually-hidden">{t("registry.loading")}</span>
+      <div className="skeleton skeleton--title" aria-hidden="true" />
+    </div>
+  );
+}
+
+type UnknownWidgetProps = {
+  requested: string;
+  known: string[];
+};
+
+export function UnknownWidget({ requested, known }: UnknownWidgetProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    console.error(
+      `[WidgetHost] No widget is registered as "${requested}". Known widgets and tools:`,
+      known
+    );
+  }, [known, requested]);
+
+  return (
+    <main className="widget-diagnostic">
+      <div className="widget-alert" role="alert">
+        <p className="widget-diagnostic__title">{t("registry.unknown", { name: requested })}</p>
+        <p className="widget-diagnostic__detail">
+          {t("registry.known", { names: known.join(", ") })}
+        </p>
+      </div>
+    </main>
+  );
+}
+
+/** Stands in for a widget whose chunk failed to load; the registry logs the error. */
+export function WidgetLoadFailed() {
+  const { t } = useI18n();
+  return (
+    <main className="widget-diagnostic">
+      <div className="widget-alert" role="alert">
+        {t("registry.loadFailed")}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,24 @@
+import { Suspense, useMemo } from "react";
+
+import { listWidgets, resolveWidget } from "./registry";
+import { UnknownWidget, WidgetLoading } from "./WidgetDiagnostic";
+
+/** Renders the registered widget for `requested` (a widget or tool name), loading its chunk on demand. */
+export function WidgetHost({ requested }: { requested?: string }) {
+  const resolution = useMemo(() => resolveWidget(requested), [requested]);
+  const known = useMemo(
+    () => listWidgets().flatMap((widget) => [widget.name, ...widget.tools]),
+    []
+  );
+
+  if (resolution.status === "unknown") {
+    return <UnknownWidget requested={resolution.requested} known={known} />;
+  }
+
+  const { Component } = resolution.widget;
+  return (
+    <Suspense fallback={<WidgetLoading />}>
+      <Component />
+    </Suspense>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * What the build needs to know about each widget. Kept as plain data, free of
+ * imports, so `vite.config.ts` can read it when writing the widget manifest.
+ */
+export type WidgetDefinition = {
+  /** Matched against `widget` in the bootstrap script. */
+  name: string;
+  /** MCP tools whose results this widget renders; also accepted as `widget`. */
+  tools: readonly string[];
+  /** Source module the widget's lazy chunk is built from, relative to the project root. */
+  module: string;
+};
+
+export const WIDGET_DEFINITIONS = [
+  {
+    name: "search_rooms",
+    tools: ["search_rooms", "search_hotels"],
+    module: "src/widget/SearchRoomsWidgetV2.tsx",
+  },
+  {
+    name: "availability_calendar",
+    tools: ["check_availability"],
+    module: "src/widget/AvailabilityCalendarWidget.tsx",
+  },
+  {
+    name: "booking_card",
+    tools: ["create_booking"],
+    module: "src/widget/BookingCardWidget.tsx",
+  },
+  {
+    name: "my_bookings",
+    tools: ["list_bookings", "get_booking"],
+    module: "src/widget/MyBookingsWidget.tsx",
+  },
+  {
+    name: "search_rooms_legacy",
+    tools: [],
+    module: "src/widget/SearchRoomsWidget.tsx",
+  },
+] as const satisfies readonly WidgetDefinition[];
+
+export type WidgetName = (typeof WIDGET_DEFINITIONS)[number]["name"];
+
+/** Rendered when the bootstrap names no widget and its payload doesn't identify one. */
+export const DEFAULT_WIDGET: WidgetName = "search_rooms";
@@ -0,0 +1,69 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from "react";
+
+import { readBootstrapCandidates } from "../bridge/client";
+import type { ToolOutputExtractor } from "../bridge/useToolOutput";
+import {
+  DEFAULT_WIDGET,
+  WIDGET_DEFINITIONS,
+  type WidgetDefinition,
+  type WidgetName,
+} from "./definitions";
+import { WidgetLoadFailed } from "./WidgetDiagnostic";
+
+export type WidgetRegistration = WidgetDefinition & {
+  extractPayload: ToolOutputExtractor<Record<string, unknown>>;
+  Component: LazyExoticComponent<ComponentType>;
+};
+
+type WidgetOptions = {
+  extractPayload: ToolOutputExtractor<Record<string, unknown>>;
+  /** A dynamic `import()` of the widget module, so the build gives it its own chunk. */
+  load: () => Promise<ComponentType>;
+};
+
+export type WidgetResolution =
+  | { status: "found"; widget: WidgetRegistration }
+  | { status: "unknown"; requested: string };
+
+const registry = new Map<string, WidgetRegistration>();
+
+/** Registration order is also the order payloads are sniffed in, so register stricter extractors first. */
+export const registerWidget = (name: WidgetName, { extractPayload, load }: WidgetOptions): void => {
+  const definition: WidgetDefinition | undefined = WIDGET_DEFINITIONS.find(
+    (item) => item.name === name
+  );
+  if (!definition) return;
+
+  const Component = lazy(() =>
+    load()
+      .then((component) => ({ default: component }))
+      .catch((error: unknown) => {
+        console.error(`[registry] Failed to load the ${name} widget:`, error);
+        return { default: WidgetLoadFailed };
+      })
+  );
+  registry.set(name, { ...definition, extractPayload, Component });
+};
+
+export const listWidgets = (): WidgetRegistration[] => [...registry.values()];
+
+/**
+ * Looks `requested` up by widget name, then by tool name. With no name at all
+ * the payload baked into the page decides, and failing that the default
+ * widget renders; a name nobody registered is reported, never guessed at.
+ */
+export const resolveWidget = (requested: string | undefined): WidgetResolution => {
+  const name = requested?.trim();
+  if (name) {
+    const widget =
+      registry.get(name) ?? listWidgets().find((item) => item.tools.includes(name));
+    return widget ? { status: "found", widget } : { status: "unknown", requested: name };
+  }
+
+  const candidates = readBootstrapCandidates();
+  const sniffed = listWidgets().find((item) =>
+    candidates.some((candidate) => item.extractPayload(candidate) !== null)
+  );
+  const widget = sniffed ?? registry.get(DEFAULT_WIDGET);
+  return widget ? { status: "found", widget } : { status: "unknown", requested: DEFAULT_WIDGET };
+};
@@ -0,0 +1,39 @@
+import {
+  extractAvailabilityPayload,
+  extractBookingPayload,
+  extractMyBookingsPayload,
+  extractSearchRoomsPayload,
+} from "../widget/toolPayloads";
+import { registerWidget } from "./registry";
+
+registerWidget("booking_card", {
+  extractPayload: extractBookingPayload,
+  load: () => import("../widget/BookingCardWidget").then((module) => module.BookingCardWidget),
+});
+
+// After `booking_card`, so a single booking still sniffs to the booking card,
+// and before `search_rooms`, whose extractor also accepts a bare `count` and
+// any `structuredContent`.
+registerWidget("my_bookings", {
+  extractPayload: extractMyBookingsPayload,
+  load: () => import("../widget/MyBookingsWidget").then((module) => module.MyBookingsWidget),
+});
+
+registerWidget("availability_calendar", {
+  extractPayload: extractAvailabilityPayload,
+  load: () =>
+    import("../widget/AvailabilityCalendarWidget").then(
+      (module) => module.AvailabilityCalendarWidget
+    ),
+});
+
+registerWidget("search_rooms", {
+  extractPayload: extractSearchRoomsPayload,
+  load: () =>
+    import("../widget/SearchRoomsWidgetV2").then((module) => module.SearchRoomsWidgetV2),
+});
+
+registerWidget("search_rooms_legacy", {
+  extractPayload: extractSearchRoomsPayload,
+  load: () => import("../widget/SearchRoomsWidget").then((module) => module.SearchRoomsWidget),
+});
@@ -0,0 +1,53 @@
+import type { BookingPayload, SearchHotel, SearchRoom } from "../openai";
+import { addDays, todayIsoDate } from "../widget/dates";
+
+/** `YYYY-MM-DD`, `days` from today, so fixtures never drift into the past. */
+export const daysFromToday = (days: number): string => addDays(todayIsoDate(), days);
+
+export const room = (overrides: Partial<SearchRoom> = {}): SearchRoom => ({
+  id: "room-1",
+  property_id: "p-1",
+  name: "Garden Family Room",
+  type: "Family Room",
+  price_per_night: 195,
+  currency_code: "USD",
+  max_guests: 4,
+  beds: [{ type: "queen", count: 1 }],
+  bathrooms: 1,
+  area: { value: 32, unit: "sqm" },
+  amenities: ["WiFi", "Pool Access"],
+  images: ["https://example.com/room-1.jpg"],
+  ...overrides,
+});
+
+export const hotel = (overrides: Partial<SearchHotel> = {}): SearchHotel => ({
+  property_id: "p-1",
+  property_name: "Sunset Beach Resort",
+  min_price_per_night: 195,
+  min_price_currency_code: "USD",
+  latitude: 36.5,
+  longitude: -4.9,
+  matching_rooms: [room()],
+  ...overrides,
+});
+
+export const booking = (overrides: Partial<BookingPayload> = {}): BookingPayload => ({
+  booking_id: "bk-1",
+  status: "confirmed",
+  guest_name: "Sam Rivera",
+  guests: 2,
+  room_id: "room-1",
+  room_name: "Garden Family Room",
+  property_id: "p-1",
+  property_name: "Sunset Beach Resort",
+  check_in: daysFromToday(14),
+  check_out: daysFromToday(17),
+  nights: 3,
+  nightly_rate: 195,
+  subtotal: 585,
+  taxes: 55,
+  total: 640,
+  currency_code: "USD",
+  policy: { free_cancellation_until: `${daysFromToday(10)}T12:00:00Z`, check_in_time: "15:00" },
+  ...overrides,
+});
@@ -0,0 +1,28 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach, vi } from "vitest";
+
+// jsdom has no modal dialogs, scrolling or `CSS.escape`; widgets only need them to not throw.
+if (typeof HTMLDialogElement.prototype.showModal !== "function") {
+  HTMLDialogElement.prototype.showModal = function showModal(this: HTMLDialogElement) {
+    this.setAttribute("open", "");
+  };
+  HTMLDialogElement.prototype.close = function close(this: HTMLDialogElement) {
+    if (!this.open) return;
+    this.removeAttribute("open");
+    this.dispatchEvent(new Event("close"));
+  };
+}
+Element.prototype.scrollIntoView = () => {};
+window.scrollTo = () => {};
+globalThis.CSS ??= {} as typeof CSS;
+CSS.escape ??= (value: string) => value.replace(/["\\]/g, "\\$&");
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  delete window.openai;
+  document.getElementById("monobook-widget-bootstrap")?.remove();
+  document.documentElement.removeAttribute("lang");
+  document.documentElement.removeAttribute("dir");
+  localStorage.clear();
+});
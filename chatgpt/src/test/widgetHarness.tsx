@@ -0,0 +1,102 @@
+import { render } from "@testing-library/react";
+import axe from "axe-core";
+import type { ComponentType } from "react";
+import { describe, expect, it, vi } from "vitest";
+
+import { I18nProvider } from "../i18n/I18nProvider";
+import type { DisplayMode, OpenAIBridge } from "../openai";
+import { ThemeProvider } from "../theme/ThemeProvider";
+
+export type WidgetScenario = {
+  /** Served through the bootstrap script; without one the widget stays loading. */
+  payload?: unknown;
+  displayMode?: DisplayMode;
+  locale?: string;
+  /** Extra `window.openai` members, such as a `callTool` mock. */
+  host?: Partial<OpenAIBridge>;
+};
+
+export type WidgetFixtures = {
+  error: unknown;
+  empty: unknown;
+  malformed: unknown;
+  populated: unknown;
+};
+
+const writeBootstrap = (payload: unknown) => {
+  const script = document.createElement("script");
+  script.id = "monobook-widget-bootstrap";
+  script.type = "application/json";
+  script.textContent = JSON.stringify({ payload });
+  document.head.append(script);
+};
+
+/** Renders `Widget` the way `main.tsx` does, against a fake host. */
+export const renderWidget = (
+  Widget: ComponentType,
+  { payload, displayMode, locale = "en-US", host }: WidgetScenario = {}
+) => {
+  window.openai = {
+    displayMode,
+    locale,
+    theme: "light",
+    maxHeight: 640,
+    ...host,
+  } as OpenAIBridge;
+  if (payload !== undefined) writeBootstrap(payload);
+  return render(
+    <ThemeProvider>
+      <I18nProvider>
+        <Widget />
+      </I18nProvider>
+    </ThemeProvider>
+  );
+};
+
+/** axe violations under `root` as `rule: selector` strings, so failures read well. */
+export const findAxeViolations = async (root: Element): Promise<string[]> => {
+  const results = await axe.run(root, {
+    // jsdom doesn't lay out or paint, so contrast can't be measured here.
+    rules: { "color-contrast": { enabled: false } },
+  });
+  return results.violations.flatMap((violation) =>
+    violation.nodes.map((node) => `${violation.id}: ${node.target.join(" ")}`)
+  );
+};
+
+/** Runs axe over every state a widget can render in. */
+export const describeWidgetStates = (
+  name: string,
+  Widget: ComponentType,
+  fixtures: WidgetFixtures
+) => {
+  const scenarios: [string, WidgetScenario][] = [
+    ["loading", {}],
+    ["error", { payload: fixtures.error }],
+    ["empty", { payload: fixtures.empty }],
+    ["malformed", { payload: fixtures.malformed }],
+    ["populated", { payload: fixtures.populated }],
+    ["inline", { payload: fixtures.populated, displayMode: "inline" }],
+    ["fullscreen", { payload: fixtures.populated, displayMode: "fullscreen" }],
+    ["pip", { payload: fixtures.populated, displayMode: "pip" }],
+    ["rtl", { payload: fixtures.populated, locale: "ar" }],
+  ];
+
+  describe(`${name} accessibility`, () => {
+    it.each(scenarios)("has no axe violations when %s", async (state, scenario) => {
+      // Widgets log what they dropped from a malformed payload; that's expected here.
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const { container } = renderWidget(Widget, scenario);
+
+      const busy = container.querySelector('[aria-busy="true"]');
+      if (state === "loading") {
+        expect(busy).not.toBeNull();
+      } else {
+        expect(busy).toBeNull();
+      }
+      if (state === "error") expect(container.querySelector('[role="alert"]')).not.toBeNull();
+      if (state === "rtl") expect(document.documentElement.dir).toBe("rtl");
+      expect(await findAxeViolations(container)).toEqual([]);
+    });
+  });
+};
@@ -0,0 +1,38 @@
+import { useEffect, useSyncExternalStore, type ReactNode } from "react";
+
+import { useOpenAIGlobal } from "../bridge/useOpenAIGlobal";
+import type { Theme } from "../openai";
+
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+const isTheme = (value: unknown): value is Theme => value === "light" || value === "dark";
+
+const subscribeToColorScheme = (onChange: () => void): (() => void) => {
+  const query = window.matchMedia?.(DARK_SCHEME_QUERY);
+  query?.addEventListener("change", onChange);
+  return () => query?.removeEventListener("change", onChange);
+};
+
+const readColorScheme = (): Theme =>
+  window.matchMedia?.(DARK_SCHEME_QUERY).matches ? "dark" : "light";
+
+/**
+ * Follows the host theme (`window.openai.theme`), or `prefers-color-scheme`
+ * outside ChatGPT, and mirrors it onto the document as `data-theme` so the
+ * design tokens in `styles.css` switch, top-layer dialogs included.
+ */
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  const hostTheme = useOpenAIGlobal("theme");
+  const systemTheme = useSyncExternalStore(
+    subscribeToColorScheme,
+    readColorScheme,
+    (): Theme => "light"
+  );
+  const theme = isTheme(hostTheme) ? hostTheme : systemTheme;
+
+  useEffect(() => {
+    document.documentElement.dataset.theme = theme;
+  }, [theme]);
+
+  return <>{children}</>;
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createContext,
+  readDate,
+  readDateTime,
+  readNumber,
+  readRecordArray,
+  readString,
+  readStringArray,
+  readTime,
+} from "./core";
+
+describe("readNumber", () => {
+  it("parses numeric strings, thousands separators included", () => {
+    const ctx = createContext();
+    expect(readNumber(ctx, { price: "1,250.00" }, "price", "")).toBe(1250);
+    expect(readNumber(ctx, { price: " 195 " }, "price", "")).toBe(195);
+    expect(ctx.issues).toEqual([]);
+  });
+
+  it("reports values that aren't numbers", () => {
+    const ctx = createContext();
+    expect(readNumber(ctx, { price: "cheap" }, "price", "rooms[0]")).toBeUndefined();
+    expect(ctx.issues).toEqual([
+      { path: "rooms[0].price", code: "invalid_type", message: "Expected number, received string." },
+    ]);
+  });
+
+  it("enforces integer and min options", () => {
+    const ctx = createContext();
+    expect(readNumber(ctx, { guests: 2.5 }, "guests", "", { integer: true })).toBeUndefined();
+    expect(readNumber(ctx, { guests: 0 }, "guests", "", { min: 1 })).toBeUndefined();
+    expect(ctx.issues.map((issue) => issue.code)).toEqual(["invalid_value", "invalid_value"]);
+  });
+
+  it("only reports a missing value when it's required", () => {
+    const ctx = createContext();
+    expect(readNumber(ctx, {}, "total", "")).toBeUndefined();
+    expect(ctx.issues).toEqual([]);
+    readNumber(ctx, { total: null }, "total", "", { required: true });
+    expect(ctx.issues).toEqual([
+      { path: "total", code: "missing_field", message: "Required field is missing." },
+    ]);
+  });
+});
+
+describe("readString", () => {
+  it("stringifies numbers and booleans", () => {
+    const ctx = createContext();
+    expect(readString(ctx, { id: 42 }, "id", "")).toBe("42");
+    expect(readString(ctx, { id: true }, "id", "")).toBe("true");
+    expect(ctx.issues).toEqual([]);
+  });
+
+  it("rejects blank required strings and objects", () => {
+    const ctx = createContext();
+    expect(readString(ctx, { id: "  " }, "id", "", { required: true })).toBeUndefined();
+    expect(readString(ctx, { id: {} }, "id", "")).toBeUndefined();
+    expect(ctx.issues.map((issue) => issue.code)).toEqual(["invalid_value", "invalid_type"]);
+  });
+});
+
+describe("readDate, readDateTime and readTime", () => {
+  it("truncates timestamps to their date", () => {
+    const ctx = createContext();
+    expect(readDate(ctx, { date: "2026-11-02T15:00:00Z" }, "date", "")).toBe("2026-11-02");
+    expect(readDate(ctx, { date: "02/11/2026" }, "date", "")).toBeUndefined();
+    expect(ctx.issues.map((issue) => issue.code)).toEqual(["invalid_value"]);
+  });
+
+  it.each(["2026-02-30", "2026-02-31", "2026-13-01"])("rejects %s, which isn't a day", (date) => {
+    const ctx = createContext();
+    expect(readDate(ctx, { date }, "date", "")).toBeUndefined();
+    expect(readDateTime(ctx, { date }, "date", "")).toBeUndefined();
+    expect(readDateTime(ctx, { date: `${date}T12:00:00Z` }, "date", "")).toBeUndefined();
+    expect(ctx.issues.map((issue) => issue.code)).toEqual([
+      "invalid_value",
+      "invalid_value",
+      "invalid_value",
+    ]);
+  });
+
+  it("accepts leap days only in leap years", () => {
+    const ctx = createContext();
+    expect(readDate(ctx, { date: "2028-02-29" }, "date", "")).toBe("2028-02-29");
+    expect(readDate(ctx, { date: "2027-02-29" }, "date", "")).toBeUndefined();
+    expect(ctx.issues).toHaveLength(1);
+  });
+
+  it("normalizes times to HH:MM", () => {
+    const ctx = createContext();
+    expect(readTime(ctx, { time: "9:05" }, "time", "")).toBe("09:05");
+    expect(readTime(ctx, { time: "24:00" }, "time", "")).toBeUndefined();
+    expect(ctx.issues.map((issue) => issue.code)).toEqual(["invalid_value"]);
+  });
+});
+
+describe("list readers", () => {
+  it("treats a lone string as a one-item list and drops non-strings", () => {
+    const ctx = createContext();
+    expect(readStringArray(ctx, { amenities: "WiFi" }, "amenities", "")).toEqual(["WiFi"]);
+    expect(readStringArray(ctx, { amenities: ["WiFi", 2, null] }, "amenities", "")).toEqual([
+      "WiFi",
+      "2",
+    ]);
+    expect(ctx.issues).toEqual([
+      { path: "amenities[2]", code: "dropped_item", message: "Expected string, received null." },
+    ]);
+  });
+
+  it("drops records the item validator rejects and keeps the rest", () => {
+    const ctx = createContext();
+    const items = readRecordArray(
+      ctx,
+      { rooms: [{ id: "a" }, "b", { name: "no id" }] },
+      "rooms",
+      "",
+      (_ctx, item) => (typeof item.id === "string" ? item.id : null)
+    );
+    expect(items).toEqual(["a"]);
+    expect(ctx.issues.map((issue) => [issue.path, issue.code])).toEqual([
+      ["rooms[1]", "dropped_item"],
+      ["rooms[2]", "dropped_item"],
+    ]);
+  });
+
+  it("reports a list that isn't an array", () => {
+    const ctx = createContext();
+    expect(readRecordArray(ctx, { rooms: {} }, "rooms", "", () => null)).toBeUndefined();
+    expect(ctx.issues.map((issue) => issue.code)).toEqual(["invalid_type"]);
+  });
+});
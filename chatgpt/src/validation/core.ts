@@ -0,0 +1,297 @@
+import { isRecord } from "../bridge/payload";
+
+export type ValidationIssueCode =
+  | "invalid_type"
+  | "invalid_value"
+  | "missing_field"
+  | "dropped_item";
+
+export type ValidationIssue = {
+  path: string;
+  code: ValidationIssueCode;
+  message: string;
+};
+
+export type ValidationResult<T> = {
+  /** `null` when the payload is unusable as a whole. */
+  value: T | null;
+  issues: ValidationIssue[];
+};
+
+/** Collects issues while a validator walks a payload. */
+export type ValidationContext = {
+  issues: ValidationIssue[];
+  report: (path: string, code: ValidationIssueCode, message: string) => void;
+};
+
+export const createContext = (): ValidationContext => {
+  const issues: ValidationIssue[] = [];
+  return {
+    issues,
+    report: (path, code, message) => {
+      issues.push({ path, code, message });
+    },
+  };
+};
+
+export const joinPath = (parent: string, key: string | number): string => {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+};
+
+const describeType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const isMissing = (value: unknown): value is null | undefined =>
+  value === null || typeof value === "undefined";
+
+type FieldOptions = {
+  required?: boolean;
+};
+
+type NumberFieldOptions = FieldOptions & {
+  integer?: boolean;
+  min?: number;
+};
+
+const reportMissing = (
+  ctx: ValidationContext,
+  path: string,
+  options: FieldOptions
+): undefined => {
+  if (options.required) ctx.report(path, "missing_field", "Required field is missing.");
+  return undefined;
+};
+
+/** Strings pass through; finite numbers and booleans are stringified. */
+export const readString = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  options: FieldOptions = {}
+): string | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (isMissing(value)) return reportMissing(ctx, fieldPath, options);
+  if (typeof value === "string") {
+    if (options.required && !value.trim()) {
+      ctx.report(fieldPath, "invalid_value", "Expected a non-empty string.");
+      return undefined;
+    }
+    return value;
+  }
+  if ((typeof value === "number" && Number.isFinite(value)) || typeof value === "boolean") {
+    return String(value);
+  }
+  ctx.report(fieldPath, "invalid_type", `Expected string, received ${describeType(value)}.`);
+  return undefined;
+};
+
+/** Numbers pass through; numeric strings such as "195" or "1,250.00" are parsed. */
+export const readNumber = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  options: NumberFieldOptions = {}
+): number | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (isMissing(value)) return reportMissing(ctx, fieldPath, options);
+
+  let numeric: number | null = null;
+  if (typeof value === "number") {
+    numeric = value;
+  } else if (typeof value === "string" && /^\s*-?[\d,]*\.?\d+\s*$/.test(value)) {
+    numeric = Number(value.replace(/[,\s]/g, ""));
+  }
+
+  if (numeric === null || !Number.isFinite(numeric)) {
+    ctx.report(fieldPath, "invalid_type", `Expected number, received ${describeType(value)}.`);
+    return undefined;
+  }
+  if (options.integer && !Number.isInteger(numeric)) {
+    ctx.report(fieldPath, "invalid_value", "Expected a whole number.");
+    return undefined;
+  }
+  if (typeof options.min === "number" && numeric < options.min) {
+    ctx.report(fieldPath, "invalid_value", `Expected a number of at least ${options.min}.`);
+    return undefined;
+  }
+  return numeric;
+};
+
+/** Booleans pass through; the strings "true" and "false" are accepted too. */
+export const readBoolean = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  options: FieldOptions = {}
+): boolean | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (isMissing(value)) return reportMissing(ctx, fieldPath, options);
+  if (typeof value === "boolean") return value;
+  if (value === "true" || value === "false") return value === "true";
+  ctx.report(fieldPath, "invalid_type", `Expected boolean, received ${describeType(value)}.`);
+  return undefined;
+};
+
+/** `Date` rolls 2026-02-31 over into March, so compare the parts it ends up with. */
+const isCalendarDate = (year: string, month: string, day: string): boolean => {
+  const date = new Date(0);
+  date.setUTCFullYear(Number(year), Number(month) - 1, Number(day));
+  return (
+    date.getUTCFullYear() === Number(year) &&
+    date.getUTCMonth() === Number(month) - 1 &&
+    date.getUTCDate() === Number(day)
+  );
+};
+
+/** Accepts `YYYY-MM-DD`; full ISO timestamps are truncated to their date part. */
+export const readDate = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  options: FieldOptions = {}
+): string | undefined => {
+  const value = readString(ctx, record, key, path, options);
+  if (typeof value === "undefined") return undefined;
+
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  if (!match || !isCalendarDate(match[1], match[2], match[3])) {
+    ctx.report(joinPath(path, key), "invalid_value", "Expected a date in YYYY-MM-DD format.");
+    return undefined;
+  }
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+/** Accepts ISO 8601 dates and date-times; the original string is kept. */
+export const readDateTime = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  options: FieldOptions = {}
+): string | undefined => {
+  const value = readString(ctx, record, key, path, options);
+  if (typeof value === "undefined") return undefined;
+
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  const dateOnly = match?.[0] === trimmed;
+  const parsed = new Date(dateOnly ? `${trimmed}T00:00:00` : trimmed);
+  if (
+    !match ||
+    !isCalendarDate(match[1], match[2], match[3]) ||
+    Number.isNaN(parsed.getTime())
+  ) {
+    ctx.report(joinPath(path, key), "invalid_value", "Expected an ISO 8601 date or date-time.");
+    return undefined;
+  }
+  return trimmed;
+};
+
+/** Accepts `H:MM`/`HH:MM` (24-hour) and normalizes to `HH:MM`. */
+export const readTime = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  options: FieldOptions = {}
+): string | undefined => {
+  const value = readString(ctx, record, key, path, options);
+  if (typeof value === "undefined") return undefined;
+
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    ctx.report(joinPath(path, key), "invalid_value", "Expected a time in HH:MM format.");
+    return undefined;
+  }
+  return `${match[1].padStart(2, "0")}:${match[2]}`;
+};
+
+/** A lone string is treated as a one-item list; non-string items are dropped. */
+export const readStringArray = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): string[] | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (isMissing(value)) return undefined;
+  if (typeof value === "string") return value.trim() ? [value] : [];
+  if (!Array.isArray(value)) {
+    ctx.report(fieldPath, "invalid_type", `Expected array, received ${describeType(value)}.`);
+    return undefined;
+  }
+
+  const items: string[] = [];
+  value.forEach((item, index) => {
+    if (typeof item === "string") {
+      items.push(item);
+    } else if (typeof item === "number" && Number.isFinite(item)) {
+      items.push(String(item));
+    } else {
+      ctx.report(
+        joinPath(fieldPath, index),
+        "dropped_item",
+        `Expected string, received ${describeType(item)}.`
+      );
+    }
+  });
+  return items;
+};
+
+/** Validates each record in a list with `validateItem`, dropping items it rejects. */
+export const readRecordArray = <T>(
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string,
+  validateItem: (
+    ctx: ValidationContext,
+    item: Record<string, unknown>,
+    path: string
+  ) => T | null
+): T[] | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (isMissing(value)) return undefined;
+  if (!Array.isArray(value)) {
+    ctx.report(fieldPath, "invalid_type", `Expected array, received ${describeType(value)}.`);
+    return undefined;
+  }
+
+  const items: T[] = [];
+  value.forEach((item, index) => {
+    const itemPath = joinPath(fieldPath, index);
+    if (!isRecord(item) || Array.isArray(item)) {
+      ctx.report(itemPath, "dropped_item", `Expected object, received ${describeType(item)}.`);
+      return;
+    }
+    const validated = validateItem(ctx, item, itemPath);
+    if (validated) {
+      items.push(validated);
+    } else {
+      ctx.report(itemPath, "dropped_item", "Item failed validation and was skipped.");
+    }
+  });
+  return items;
+};
+
+/** Drops keys whose value is `undefined` so validated payloads stay compact. */
+export const compact = <T extends Record<string, unknown>>(value: T): T => {
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (typeof entry !== "undefined") result[key] = entry;
+  }
+  return result as T;
+};
@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  countDroppedItems,
+  validateAvailabilityPayload,
+  validateBookingListPayload,
+  validateBookingPayload,
+  validateSearchRoomsPayload,
+} from "./payloads";
+
+describe("validateSearchRoomsPayload", () => {
+  it("rejects payloads that aren't objects", () => {
+    expect(validateSearchRoomsPayload([]).value).toBeNull();
+    expect(validateSearchRoomsPayload("rooms").value).toBeNull();
+  });
+
+  it("rejects results that aren't lists", () => {
+    const result = validateSearchRoomsPayload({ rooms: "none", count: 3 });
+    expect(result.value).toBeNull();
+    expect(result.issues[0]).toMatchObject({ path: "rooms", code: "invalid_type" });
+  });
+
+  it("keeps an error without results", () => {
+    expect(validateSearchRoomsPayload({ error: "Search is down." }).value).toEqual({
+      error: "Search is down.",
+    });
+  });
+
+  it("drops rooms without an id or name and counts them", () => {
+    const result = validateSearchRoomsPayload({
+      rooms: [{ id: "r1", name: "Suite" }, { name: "No id" }, { id: "r3" }, 7],
+    });
+    expect(result.value?.rooms?.map((room) => room.id)).toEqual(["r1"]);
+    expect(countDroppedItems(result)).toBe(3);
+  });
+
+  it("falls back to the room type for the name", () => {
+    const result = validateSearchRoomsPayload({ rooms: [{ id: "r1", type: "Double" }] });
+    expect(result.value?.rooms?.[0]).toMatchObject({ name: "Double", type: "Double" });
+  });
+
+  it("coerces prices, bed types and area units", () => {
+    const result = validateSearchRoomsPayload({
+      rooms: [
+        {
+          id: "r1",
+          name: "Suite",
+          price_per_night: "1,250.50",
+          max_guests: "4",
+          beds: [{ type: "Sofa bed", count: 1 }, { type: "hammock" }],
+          area: { value: 40, unit: "m²" },
+          amenities: "WiFi",
+        },
+      ],
+    });
+    expect(result.value?.rooms?.[0]).toMatchObject({
+      price_per_night: 1250.5,
+      max_guests: 4,
+      beds: [
+        { type: "sofa_bed", count: 1 },
+        { type: "other", count: 1 },
+      ],
+      area: { value: 40, unit: "sqm" },
+      amenities: ["WiFi"],
+    });
+    expect(result.issues).toEqual([
+      {
+        path: "rooms[0].beds[1].type",
+        code: "invalid_value",
+        message: 'Unknown bed type "hammock".',
+      },
+    ]);
+  });
+
+  it("drops out-of-range coordinates but keeps the hotel", () => {
+    const result = validateSearchRoomsPayload({
+      hotels: [{ property_id: "p1", latitude: 120, longitude: 10 }],
+    });
+    expect(result.value?.hotels).toEqual([{ property_id: "p1", longitude: 10 }]);
+    expect(countDroppedItems(result)).toBe(0);
+  });
+
+  it("doesn't count dropped amenities as dropped rooms", () => {
+    const result = validateSearchRoomsPayload({
+      rooms: [{ id: "r1", name: "Suite", amenities: ["WiFi", null] }],
+    });
+    expect(result.issues).toHaveLength(1);
+    expect(countDroppedItems(result)).toBe(0);
+  });
+});
+
+describe("validateBookingPayload", () => {
+  it("normalizes the status and keeps valid fields", () => {
+    const result = validateBookingPayload({
+      booking_id: "bk-1",
+      status: " Confirmed ",
+      total: "640",
+      check_in: "2026-11-02",
+      policy: { check_in_time: "3:00" },
+    });
+    expect(result.value).toEqual({
+      booking_id: "bk-1",
+      status: "confirmed",
+      total: 640,
+      check_in: "2026-11-02",
+      policy: { check_in_time: "03:00" },
+    });
+  });
+
+  it("rejects a booking with neither an id nor a total", () => {
+    const result = validateBookingPayload({ status: "pending" });
+    expect(result.value).toBeNull();
+    expect(result.issues).toEqual([
+      { path: "total", code: "missing_field", message: "A booking needs an id or a total." },
+    ]);
+  });
+
+  it("rejects penalty tiers over 100%", () => {
+    const result = validateBookingPayload({
+      booking_id: "bk-1",
+      policy: { penalty_tiers: [{ hours_before_check_in: 24, penalty_percent: 150 }] },
+    });
+    expect(result.value?.policy).toEqual({ penalty_tiers: [] });
+  });
+});
+
+describe("validateBookingListPayload", () => {
+  it("turns a single booking into a one-item list", () => {
+    expect(validateBookingListPayload({ booking_id: "bk-1" }).value).toEqual({
+      bookings: [{ booking_id: "bk-1" }],
+      count: 1,
+    });
+  });
+
+  it("drops bookings without an id or total", () => {
+    const result = validateBookingListPayload({
+      count: 2,
+      bookings: [{ booking_id: "bk-1" }, { status: "pending" }],
+    });
+    expect(result.value?.bookings).toEqual([{ booking_id: "bk-1" }]);
+    expect(countDroppedItems(result)).toBe(1);
+  });
+
+  it("rejects a list that isn't an array", () => {
+    expect(validateBookingListPayload({ bookings: "none" }).value).toBeNull();
+  });
+
+  it("reports nested booking fields under the booking's path", () => {
+    const result = validateBookingListPayload({
+      bookings: [
+        {
+          booking_id: "bk-1",
+          policy: { check_in_time: "late" },
+          cancellation: "none",
+          exchange_rates: { target_currency: "EUR", rates: [] },
+        },
+      ],
+    });
+    expect(result.issues.map((issue) => issue.path)).toEqual([
+      "bookings[0].exchange_rates.rates",
+      "bookings[0].policy.check_in_time",
+      "bookings[0].cancellation",
+    ]);
+  });
+});
+
+describe("validateAvailabilityPayload", () => {
+  it("maps status aliases and drops nights it can't read", () => {
+    const result = validateAvailabilityPayload({
+      min_stay: "2",
+      nights: [
+        { date: "2026-11-02", status: "Open", price: "180" },
+        { date: "2026-11-03", status: "sold out" },
+        { date: "2026-11-04", status: "closed", min_stay: 3 },
+        { date: "2026-11-05", status: "maybe" },
+        { status: "available" },
+      ],
+    });
+    expect(result.value).toEqual({
+      min_stay: 2,
+      nights: [
+        { date: "2026-11-02", status: "available", price: 180 },
+        { date: "2026-11-03", status: "sold_out" },
+        { date: "2026-11-04", status: "blocked", min_stay: 3 },
+      ],
+    });
+    expect(countDroppedItems(result)).toBe(2);
+  });
+
+  it("rejects nights that aren't a list", () => {
+    expect(validateAvailabilityPayload({ nights: {} }).value).toBeNull();
+    expect(validateAvailabilityPayload({ nights: {}, error: "Down." }).value).toEqual({
+      error: "Down.",
+    });
+  });
+});
@@ -0,0 +1,548 @@
+import { hasOwn, isRecord } from "../bridge/payload";
+import type {
+  AreaUnit,
+  AvailabilityNight,
+  AvailabilityPayload,
+  BedType,
+  BookingListPayload,
+  BookingPayload,
+  BookingPolicy,
+  CancellationPenaltyTier,
+  CancellationQuote,
+  ExchangeRates,
+  NightStatus,
+  RoomArea,
+  RoomBed,
+  SearchHotel,
+  SearchPaging,
+  SearchRoom,
+  SearchRoomsStructuredPayload,
+} from "../openai";
+import {
+  compact,
+  createContext,
+  joinPath,
+  readBoolean,
+  readDate,
+  readDateTime,
+  readNumber,
+  readRecordArray,
+  readString,
+  readStringArray,
+  readTime,
+  type ValidationContext,
+  type ValidationResult,
+} from "./core";
+
+const BED_TYPES: readonly BedType[] = [
+  "king",
+  "queen",
+  "double",
+  "twin",
+  "single",
+  "sofa_bed",
+  "bunk",
+  "other",
+];
+
+const AREA_UNITS: Record<string, AreaUnit> = {
+  sqm: "sqm",
+  m2: "sqm",
+  sq_m: "sqm",
+  sqft: "sqft",
+  ft2: "sqft",
+  sq_ft: "sqft",
+};
+
+/** "Sofa bed", "sq. ft." and "m²" become `sofa_bed`, `sq_ft` and `m2`. */
+const normalizeToken = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/²/g, "2")
+    .replace(/[\s.-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+/** Unknown bed types are kept as `other` so the bed still counts. */
+const validateRoomBed = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  path: string
+): RoomBed | null => {
+  const rawType = readString(ctx, record, "type", path, { required: true });
+  const count = readNumber(ctx, record, "count", path, { integer: true, min: 1 }) ?? 1;
+  if (!rawType) return null;
+
+  const type = normalizeToken(rawType) as BedType;
+  if (BED_TYPES.includes(type)) return { type, count };
+  ctx.report(joinPath(path, "type"), "invalid_value", `Unknown bed type "${rawType}".`);
+  return { type: "other", count };
+};
+
+const validateRoomArea = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): RoomArea | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (value === null || typeof value === "undefined") return undefined;
+  if (!isRecord(value) || Array.isArray(value)) {
+    ctx.report(fieldPath, "invalid_type", "Expected object.");
+    return undefined;
+  }
+
+  const amount = readNumber(ctx, value, "value", fieldPath, { required: true, min: 0 });
+  const rawUnit = readString(ctx, value, "unit", fieldPath, { required: true });
+  if (typeof amount !== "number" || !rawUnit) return undefined;
+
+  const unit = AREA_UNITS[normalizeToken(rawUnit)];
+  if (!unit) {
+    ctx.report(joinPath(fieldPath, "unit"), "invalid_value", 'Expected "sqm" or "sqft".');
+    return undefined;
+  }
+  return amount > 0 ? { value: amount, unit } : undefined;
+};
+
+export const validateSearchRoom = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  path: string
+): SearchRoom | null => {
+  const id = readString(ctx, record, "id", path, { required: true });
+  const type = readString(ctx, record, "type", path);
+  const name =
+    readString(ctx, record, "name", path, { required: !type }) ?? type;
+  if (!id || !name) return null;
+
+  return compact({
+    id,
+    property_id: readString(ctx, record, "property_id", path),
+    name,
+    type,
+    description: readString(ctx, record, "description", path),
+    price_per_night: readNumber(ctx, record, "price_per_night", path, { min: 0 }),
+    currency_code: readString(ctx, record, "currency_code", path),
+    currency_display: readString(ctx, record, "currency_display", path),
+    estimated_total_price: readNumber(ctx, record, "estimated_total_price", path, {
+      min: 0,
+    }),
+    estimated_total_price_currency_code: readString(
+      ctx,
+      record,
+      "estimated_total_price_currency_code",
+      path
+    ),
+    estimated_total_price_currency_display: readString(
+      ctx,
+      record,
+      "estimated_total_price_currency_display",
+      path
+    ),
+    max_guests: readNumber(ctx, record, "max_guests", path, { integer: true, min: 1 }),
+    bed_config: readString(ctx, record, "bed_config", path),
+    beds: readRecordArray(ctx, record, "beds", path, validateRoomBed),
+    bathrooms: readNumber(ctx, record, "bathrooms", path, { min: 0 }),
+    area: validateRoomArea(ctx, record, "area", path),
+    view: readString(ctx, record, "view", path),
+    floor: readNumber(ctx, record, "floor", path, { integer: true }),
+    amenities: readStringArray(ctx, record, "amenities", path),
+    images: readStringArray(ctx, record, "images", path),
+  });
+};
+
+const readCoordinate = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: "latitude" | "longitude",
+  path: string
+): number | undefined => {
+  const value = readNumber(ctx, record, key, path);
+  const limit = key === "latitude" ? 90 : 180;
+  if (typeof value === "number" && Math.abs(value) > limit) {
+    ctx.report(joinPath(path, key), "invalid_value", `Expected a ${key} within ±${limit}.`);
+    return undefined;
+  }
+  return value;
+};
+
+export const validateSearchHotel = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  path: string
+): SearchHotel | null =>
+  compact({
+    property_id: readString(ctx, record, "property_id", path),
+    property_name: readString(ctx, record, "property_name", path),
+    min_price_per_night: readNumber(ctx, record, "min_price_per_night", path, { min: 0 }),
+    min_price_currency_code: readString(ctx, record, "min_price_currency_code", path),
+    min_price_currency_display: readString(
+      ctx,
+      record,
+      "min_price_currency_display",
+      path
+    ),
+    latitude: readCoordinate(ctx, record, "latitude", path),
+    longitude: readCoordinate(ctx, record, "longitude", path),
+    address: readString(ctx, record, "address", path),
+    matching_rooms: readRecordArray(ctx, record, "matching_rooms", path, validateSearchRoom),
+  });
+
+const validateAppliedFilters = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string
+): SearchRoomsStructuredPayload["applied_filters"] => {
+  const value = record[key];
+  if (value === null || typeof value === "undefined") return undefined;
+  if (!isRecord(value) || Array.isArray(value)) {
+    ctx.report(key, "invalid_type", "Expected object.");
+    return undefined;
+  }
+
+  return compact({
+    ...value,
+    check_in: readDate(ctx, value, "check_in", key),
+    check_out: readDate(ctx, value, "check_out", key),
+    guests: readNumber(ctx, value, "guests", key, { integer: true, min: 1 }),
+  });
+};
+
+const validatePaging = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string
+): SearchPaging | undefined => {
+  const value = record[key];
+  if (value === null || typeof value === "undefined") return undefined;
+  if (!isRecord(value) || Array.isArray(value)) {
+    ctx.report(key, "invalid_type", "Expected object.");
+    return undefined;
+  }
+
+  return compact({
+    next_cursor: readString(ctx, value, "next_cursor", key),
+    next_offset: readNumber(ctx, value, "next_offset", key, { integer: true, min: 0 }),
+    limit: readNumber(ctx, value, "limit", key, { integer: true, min: 1 }),
+    total: readNumber(ctx, value, "total", key, { integer: true, min: 0 }),
+    has_more: readBoolean(ctx, value, "has_more", key),
+  });
+};
+
+/** Rates that aren't positive numbers are dropped; without a target currency the block is. */
+export const validateExchangeRates = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): ExchangeRates | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (value === null || typeof value === "undefined") return undefined;
+  if (!isRecord(value) || Array.isArray(value)) {
+    ctx.report(fieldPath, "invalid_type", "Expected object.");
+    return undefined;
+  }
+
+  const target = readString(ctx, value, "target_currency", fieldPath, { required: true });
+  const ratesPath = joinPath(fieldPath, "rates");
+  if (!isRecord(value.rates) || Array.isArray(value.rates)) {
+    ctx.report(ratesPath, "invalid_type", "Expected an object of rates keyed by currency code.");
+    return undefined;
+  }
+  if (!target) return undefined;
+
+  const rates: Record<string, number> = {};
+  for (const code of Object.keys(value.rates)) {
+    const rate = readNumber(ctx, value.rates, code, ratesPath);
+    if (typeof rate === "number" && rate > 0) {
+      rates[code.trim().toUpperCase()] = rate;
+    } else if (typeof rate === "number") {
+      ctx.report(joinPath(ratesPath, code), "invalid_value", "Expected a positive rate.");
+    }
+  }
+
+  return compact({
+    target_currency: target.trim().toUpperCase(),
+    rates,
+    as_of: readDateTime(ctx, value, "as_of", fieldPath),
+  });
+};
+
+export const validateSearchRoomsPayload = (
+  payload: unknown
+): ValidationResult<SearchRoomsStructuredPayload> => {
+  const ctx = createContext();
+  if (!isRecord(payload) || Array.isArray(payload)) {
+    ctx.report("", "invalid_type", "Expected the search result to be an object.");
+    return { value: null, issues: ctx.issues };
+  }
+
+  const rooms = readRecordArray(ctx, payload, "rooms", "", validateSearchRoom);
+  const hotels = readRecordArray(ctx, payload, "hotels", "", validateSearchHotel);
+  const error = readString(ctx, payload, "error", "");
+
+  const sentResults = payload.rooms != null || payload.hotels != null;
+  if (sentResults && !rooms && !hotels && !error) {
+    return { value: null, issues: ctx.issues };
+  }
+
+  const value = compact({
+    property_id: readString(ctx, payload, "property_id", ""),
+    property_name: readString(ctx, payload, "property_name", ""),
+    rooms,
+    hotels,
+    count: readNumber(ctx, payload, "count", "", { integer: true, min: 0 }),
+    count_hotels: readNumber(ctx, payload, "count_hotels", "", { integer: true, min: 0 }),
+    count_rooms: readNumber(ctx, payload, "count_rooms", "", { integer: true, min: 0 }),
+    paging: validatePaging(ctx, payload, "paging"),
+    exchange_rates: validateExchangeRates(ctx, payload, "exchange_rates", ""),
+    check_in: readDate(ctx, payload, "check_in", ""),
+    check_out: readDate(ctx, payload, "check_out", ""),
+    guests: readNumber(ctx, payload, "guests", "", { integer: true, min: 1 }),
+    applied_filters: validateAppliedFilters(ctx, payload, "applied_filters"),
+    message: readString(ctx, payload, "message", ""),
+    error,
+  });
+
+  return { value, issues: ctx.issues };
+};
+
+const validatePenaltyTier = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  path: string
+): CancellationPenaltyTier | null => {
+  const hours = readNumber(ctx, record, "hours_before_check_in", path, {
+    required: true,
+    min: 0,
+  });
+  const percent = readNumber(ctx, record, "penalty_percent", path, { min: 0 });
+  const amount = readNumber(ctx, record, "penalty_amount", path, { min: 0 });
+  if (typeof hours === "undefined") return null;
+  if (typeof percent === "number" && percent > 100) {
+    ctx.report(joinPath(path, "penalty_percent"), "invalid_value", "Expected at most 100.");
+    return null;
+  }
+
+  return compact({
+    hours_before_check_in: hours,
+    penalty_percent: percent,
+    penalty_amount: amount,
+    description: readString(ctx, record, "description", path),
+  });
+};
+
+export const validateBookingPolicy = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): BookingPolicy | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (value === null || typeof value === "undefined") return undefined;
+  if (!isRecord(value) || Array.isArray(value)) {
+    ctx.report(fieldPath, "invalid_type", "Expected object.");
+    return undefined;
+  }
+
+  return compact({
+    free_cancellation_until: readDateTime(ctx, value, "free_cancellation_until", fieldPath),
+    penalty_tiers: readRecordArray(ctx, value, "penalty_tiers", fieldPath, validatePenaltyTier),
+    check_in_time: readTime(ctx, value, "check_in_time", fieldPath),
+    check_out_time: readTime(ctx, value, "check_out_time", fieldPath),
+    house_rules: readStringArray(ctx, value, "house_rules", fieldPath),
+    summary: readString(ctx, value, "summary", fieldPath),
+  });
+};
+
+const validateCancellationQuote = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  key: string,
+  path: string
+): CancellationQuote | undefined => {
+  const fieldPath = joinPath(path, key);
+  const value = record[key];
+  if (value === null || typeof value === "undefined") return undefined;
+  if (!isRecord(value) || Array.isArray(value)) {
+    ctx.report(fieldPath, "invalid_type", "Expected object.");
+    return undefined;
+  }
+
+  return compact({
+    penalty_amount: readNumber(ctx, value, "penalty_amount", fieldPath, { min: 0 }),
+    refund_amount: readNumber(ctx, value, "refund_amount", fieldPath, { min: 0 }),
+    cancelled_at: readDateTime(ctx, value, "cancelled_at", fieldPath),
+  });
+};
+
+const validateBookingRecord = (
+  ctx: ValidationContext,
+  payload: Record<string, unknown>,
+  path: string
+): BookingPayload | null => {
+  const value = compact({
+    booking_id: readString(ctx, payload, "booking_id", path),
+    status: readString(ctx, payload, "status", path)?.trim().toLowerCase(),
+    guest_name: readString(ctx, payload, "guest_name", path),
+    guests: readNumber(ctx, payload, "guests", path, { integer: true, min: 1 }),
+    room_id: readString(ctx, payload, "room_id", path),
+    room_name: readString(ctx, payload, "room_name", path),
+    room_type: readString(ctx, payload, "room_type", path),
+    room_description: readString(ctx, payload, "room_description", path),
+    room_images: readStringArray(ctx, payload, "room_images", path),
+    amenities: readStringArray(ctx, payload, "amenities", path),
+    max_guests: readNumber(ctx, payload, "max_guests", path, { integer: true, min: 1 }),
+    bed_config: readString(ctx, payload, "bed_config", path),
+    property_id: readString(ctx, payload, "property_id", path),
+    property_name: readString(ctx, payload, "property_name", path),
+    check_in: readDate(ctx, payload, "check_in", path),
+    check_out: readDate(ctx, payload, "check_out", path),
+    nights: readNumber(ctx, payload, "nights", path, { integer: true, min: 1 }),
+    nightly_rate: readNumber(ctx, payload, "nightly_rate", path, { min: 0 }),
+    subtotal: readNumber(ctx, payload, "subtotal", path, { min: 0 }),
+    taxes: readNumber(ctx, payload, "taxes", path, { min: 0 }),
+    service_fee: readNumber(ctx, payload, "service_fee", path, { min: 0 }),
+    total: readNumber(ctx, payload, "total", path, { min: 0 }),
+    currency: readString(ctx, payload, "currency", path),
+    currency_code: readString(ctx, payload, "currency_code", path),
+    currency_display: readString(ctx, payload, "currency_display", path),
+    exchange_rates: validateExchangeRates(ctx, payload, "exchange_rates", path),
+    policy: validateBookingPolicy(ctx, payload, "policy", path),
+    cancellation: validateCancellationQuote(ctx, payload, "cancellation", path),
+    message: readString(ctx, payload, "message", path),
+    error: readString(ctx, payload, "error", path),
+  });
+
+  if (!value.error && !value.booking_id && typeof value.total !== "number") {
+    ctx.report(joinPath(path, "total"), "missing_field", "A booking needs an id or a total.");
+    return null;
+  }
+
+  return value;
+};
+
+export const validateBookingPayload = (
+  payload: unknown
+): ValidationResult<BookingPayload> => {
+  const ctx = createContext();
+  if (!isRecord(payload) || Array.isArray(payload)) {
+    ctx.report("", "invalid_type", "Expected the booking to be an object.");
+    return { value: null, issues: ctx.issues };
+  }
+
+  return { value: validateBookingRecord(ctx, payload, ""), issues: ctx.issues };
+};
+
+/**
+ * Validates a `list_bookings` result. A single booking (from `get_booking`)
+ * becomes a one-item list.
+ */
+export const validateBookingListPayload = (
+  payload: unknown
+): ValidationResult<BookingListPayload> => {
+  const ctx = createContext();
+  if (!isRecord(payload) || Array.isArray(payload)) {
+    ctx.report("", "invalid_type", "Expected the booking list to be an object.");
+    return { value: null, issues: ctx.issues };
+  }
+
+  if (!hasOwn(payload, "bookings") && !hasOwn(payload, "error")) {
+    const booking = validateBookingRecord(ctx, payload, "");
+    return { value: booking ? { bookings: [booking], count: 1 } : null, issues: ctx.issues };
+  }
+
+  const bookings = readRecordArray(ctx, payload, "bookings", "", validateBookingRecord);
+  const error = readString(ctx, payload, "error", "");
+  if (payload.bookings != null && !bookings && !error) {
+    return { value: null, issues: ctx.issues };
+  }
+
+  const value = compact({
+    bookings,
+    count: readNumber(ctx, payload, "count", "", { integer: true, min: 0 }),
+    message: readString(ctx, payload, "message", ""),
+    error,
+  });
+
+  return { value, issues: ctx.issues };
+};
+
+const NIGHT_STATUSES: Record<string, NightStatus> = {
+  available: "available",
+  open: "available",
+  sold_out: "sold_out",
+  soldout: "sold_out",
+  unavailable: "sold_out",
+  blocked: "blocked",
+  closed: "blocked",
+};
+
+const validateAvailabilityNight = (
+  ctx: ValidationContext,
+  record: Record<string, unknown>,
+  path: string
+): AvailabilityNight | null => {
+  const date = readDate(ctx, record, "date", path, { required: true });
+  const rawStatus = readString(ctx, record, "status", path, { required: true });
+  if (!date || !rawStatus) return null;
+
+  const status = NIGHT_STATUSES[normalizeToken(rawStatus)];
+  if (!status) {
+    ctx.report(
+      joinPath(path, "status"),
+      "invalid_value",
+      'Expected "available", "sold_out" or "blocked".'
+    );
+    return null;
+  }
+
+  return compact({
+    date,
+    status,
+    price: readNumber(ctx, record, "price", path, { min: 0 }),
+    min_stay: readNumber(ctx, record, "min_stay", path, { integer: true, min: 1 }),
+  });
+};
+
+export const validateAvailabilityPayload = (
+  payload: unknown
+): ValidationResult<AvailabilityPayload> => {
+  const ctx = createContext();
+  if (!isRecord(payload) || Array.isArray(payload)) {
+    ctx.report("", "invalid_type", "Expected the availability to be an object.");
+    return { value: null, issues: ctx.issues };
+  }
+
+  const nights = readRecordArray(ctx, payload, "nights", "", validateAvailabilityNight);
+  const error = readString(ctx, payload, "error", "");
+  if (payload.nights != null && !nights && !error) {
+    return { value: null, issues: ctx.issues };
+  }
+
+  const value = compact({
+    property_id: readString(ctx, payload, "property_id", ""),
+    property_name: readString(ctx, payload, "property_name", ""),
+    room_id: readString(ctx, payload, "room_id", ""),
+    room_name: readString(ctx, payload, "room_name", ""),
+    guests: readNumber(ctx, payload, "guests", "", { integer: true, min: 1 }),
+    currency_code: readString(ctx, payload, "currency_code", ""),
+    currency_display: readString(ctx, payload, "currency_display", ""),
+    min_stay: readNumber(ctx, payload, "min_stay", "", { integer: true, min: 1 }),
+    nights,
+    message: readString(ctx, payload, "message", ""),
+    error,
+  });
+
+  return { value, issues: ctx.issues };
+};
+
+/** Number of list items (rooms, hotels, bookings, nights) that were skipped during validation. */
+export const countDroppedItems = (result: ValidationResult<unknown>): number =>
+  result.issues.filter(
+    (issue) =>
+      issue.code === "dropped_item" && /(rooms|hotels|bookings|nights)\[\d+\]$/.test(issue.path)
+  ).length;
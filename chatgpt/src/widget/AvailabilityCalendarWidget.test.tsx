@@ -0,0 +1,102 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { daysFromToday, room } from "../test/fixtures";
+import { describeWidgetStates, renderWidget } from "../test/widgetHarness";
+import { AvailabilityCalendarWidget } from "./AvailabilityCalendarWidget";
+
+const populated = {
+  property_id: "p-1",
+  room_id: "room-1",
+  room_name: "Garden Family Room",
+  property_name: "Sunset Beach Resort",
+  guests: 2,
+  currency_code: "USD",
+  min_stay: 2,
+  nights: [
+    { date: daysFromToday(1), status: "available", price: 180 },
+    { date: daysFromToday(2), status: "available", price: 195 },
+    { date: daysFromToday(3), status: "sold_out" },
+    { date: daysFromToday(4), status: "available", price: 240, min_stay: 3 },
+    { date: daysFromToday(5), status: "available", price: 260 },
+    { date: daysFromToday(6), status: "blocked" },
+  ],
+};
+
+describeWidgetStates("AvailabilityCalendarWidget", AvailabilityCalendarWidget, {
+  error: { nights: [], error: "Availability couldn't be checked." },
+  empty: { property_id: "p-1", room_id: "room-1", nights: [] },
+  malformed: { nights: "not a list" },
+  populated,
+});
+
+describe("AvailabilityCalendarWidget keyboard", () => {
+  it("picks a stay with the arrow keys and searches the room for it", async () => {
+    const user = userEvent.setup();
+    const callTool = vi.fn(async () => ({
+      structuredContent: { property_id: "p-1", count: 1, rooms: [room()] },
+    }));
+    const { container } = renderWidget(AvailabilityCalendarWidget, {
+      payload: populated,
+      host: { callTool },
+    });
+
+    expect(container.querySelectorAll('[data-date][tabindex="0"]')).toHaveLength(1);
+    container.querySelector<HTMLElement>(`[data-date="${daysFromToday(1)}"]`)?.focus();
+    await user.keyboard("{Enter}{ArrowRight}{ArrowRight}");
+    expect(document.activeElement?.getAttribute("data-date")).toBe(daysFromToday(3));
+    await user.keyboard("{Enter}");
+
+    await waitFor(() =>
+      expect(callTool).toHaveBeenCalledWith("search_rooms", {
+        property_id: "p-1",
+        room_id: "room-1",
+        check_in: daysFromToday(1),
+        check_out: daysFromToday(3),
+        guests: 2,
+      })
+    );
+    expect(await screen.findByText(/available from/)).toBeTruthy();
+  });
+
+  it("reserves a returned room for the picked stay", async () => {
+    const user = userEvent.setup();
+    const callTool = vi.fn(async (name: string) => ({
+      structuredContent:
+        name === "search_rooms"
+          ? { property_id: "p-1", count: 1, rooms: [room()] }
+          : { booking_id: "bk-9", status: "pending" },
+    }));
+    const { container } = renderWidget(AvailabilityCalendarWidget, {
+      payload: populated,
+      host: { callTool },
+    });
+
+    await user.click(container.querySelector<HTMLElement>(`[data-date="${daysFromToday(1)}"]`)!);
+    await user.click(container.querySelector<HTMLElement>(`[data-date="${daysFromToday(3)}"]`)!);
+    const rooms = await screen.findByRole("list", { name: "Rooms for these dates" });
+    expect(within(rooms).getByText("$195")).toBeTruthy();
+
+    await user.click(within(rooms).getByRole("button", { name: "Reserve Garden Family Room" }));
+    await user.type(screen.getByLabelText("Full name"), "Sam Rivera");
+    await user.type(screen.getByLabelText("Email"), "sam@example.com{Enter}");
+
+    await waitFor(() =>
+      expect(callTool).toHaveBeenCalledWith(
+        "create_booking",
+        expect.objectContaining({
+          property_id: "p-1",
+          room_id: "room-1",
+          guest_name: "Sam Rivera",
+          check_in: daysFromToday(1),
+          check_out: daysFromToday(3),
+          guests: 2,
+        })
+      )
+    );
+    expect(
+      await within(rooms).findByRole("button", { name: "Reserved Garden Family Room" })
+    ).toBeTruthy();
+  });
+});
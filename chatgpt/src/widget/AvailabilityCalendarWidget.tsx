@@ -0,0 +1,742 @@
+import {
+  useCallback,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from "react";
+
+import { callTool, ToolCallError } from "../bridge/client";
+import { readToolError } from "../bridge/payload";
+import { useDisplayMode, useMaxHeight, useToolInput } from "../bridge/useOpenAIGlobal";
+import { useToolOutput } from "../bridge/useToolOutput";
+import { useWidgetState } from "../bridge/useWidgetState";
+import type { MessageKey } from "../i18n/catalog";
+import { useI18n } from "../i18n/I18nProvider";
+import { firstDayOfWeek } from "../i18n/locale";
+import { formatMoney, type MoneyCurrency } from "../i18n/money";
+import type { AvailabilityNight, NightStatus, SearchRoom } from "../openai";
+import {
+  countDroppedItems,
+  validateAvailabilityPayload,
+  validateSearchRoomsPayload,
+} from "../validation/payloads";
+import { useFocusOnMessage } from "./a11y";
+import { addDays, countNights, todayIsoDate } from "./dates";
+import { GuestDetailsForm, prefillGuestDetails, type GuestDetails } from "./GuestDetailsForm";
+import { formatPrice, RESERVE_LABELS, type ReservationState } from "./roomDisplay";
+import { extractAvailabilityPayload, extractSearchRoomsPayload } from "./toolPayloads";
+
+const WIDGET_STATE_VERSION = 1;
+
+type AvailabilityWidgetState = {
+  check_in: string | null;
+  check_out: string | null;
+  month: string | null;
+};
+
+const DEFAULT_WIDGET_STATE: AvailabilityWidgetState = {
+  check_in: null,
+  check_out: null,
+  month: null,
+};
+
+type SearchState =
+  | { status: "idle" }
+  | { status: "searching" }
+  | { status: "done"; count: number; cheapest: SearchRoom | null; rooms: SearchRoom[] }
+  | { status: "failed"; error: string };
+
+/** Why a picked range can't be booked. */
+type StayProblem = { reason: "unavailable" } | { reason: "minStay"; minStay: number };
+
+const STATUS_LABELS: Record<NightStatus | "unknown", MessageKey> = {
+  available: "availability.available",
+  sold_out: "availability.soldOut",
+  blocked: "availability.blocked",
+  unknown: "availability.unknown",
+};
+
+const HEAT_LEVELS = 4;
+// 2026-01-04 was a Sunday; weekday headers count from it.
+const REFERENCE_SUNDAY = "2026-01-04";
+
+const monthOf = (isoDate: string): string => isoDate.slice(0, 7);
+
+const addMonths = (month: string, count: number): string => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const date = new Date(year, monthIndex - 1 + count, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+const lastDayOfMonth = (month: string): string => addDays(`${addMonths(month, 1)}-01`, -1);
+
+/** The same day of the month in `month`, or its last day when that month is shorter. */
+const sameDayIn = (month: string, isoDate: string): string => {
+  const date = `${month}-${isoDate.slice(8)}`;
+  const last = lastDayOfMonth(month);
+  return date > last ? last : date;
+};
+
+/** The month's dates in weeks starting on `firstDay`, padded with `null`. */
+const buildWeeks = (month: string, firstDay: number): (string | null)[][] => {
+  const first = `${month}-01`;
+  const lead = (new Date(`${first}T00:00:00`).getDay() - firstDay + 7) % 7;
+  const cells: (string | null)[] = Array.from({ length: lead }, () => null);
+  for (let date = first; monthOf(date) === month; date = addDays(date, 1)) {
+    cells.push(date);
+  }
+  while (cells.length % 7 !== 0) cells.push(null);
+
+  const weeks: (string | null)[][] = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+  return weeks;
+};
+
+/** Cheapest to dearest available night, bucketed into `HEAT_LEVELS` bands. */
+const priceLevel = (price: number, min: number, max: number): number => {
+  if (max <= min) return 0;
+  return Math.min(HEAT_LEVELS - 1, Math.floor(((price - min) / (max - min)) * HEAT_LEVELS));
+};
+
+const checkStay = (
+  checkIn: string,
+  checkOut: string,
+  nights: Map<string, AvailabilityNight>,
+  defaultMinStay: number
+): StayProblem | null => {
+  for (let date = checkIn; date < checkOut; date = addDays(date, 1)) {
+    if (nights.get(date)?.status !== "available") return { reason: "unavailable" };
+  }
+  const minStay = nights.get(checkIn)?.min_stay ?? defaultMinStay;
+  const length = countNights(checkIn, checkOut) ?? 0;
+  return length < minStay ? { reason: "minStay", minStay } : null;
+};
+
+const roomPrice = (room: SearchRoom): number | null => {
+  const price = Number(room.price_per_night);
+  return Number.isFinite(price) && price > 0 ? price : null;
+};
+
+const findCheapestRoom = (rooms: SearchRoom[]): SearchRoom | null =>
+  rooms.reduce<SearchRoom | null>((cheapest, room) => {
+    const price = roomPrice(room);
+    if (price === null) return cheapest;
+    return cheapest === null || price < (roomPrice(cheapest) ?? Infinity) ? room : cheapest;
+  }, null);
+
+export function AvailabilityCalendarWidget() {
+  const { locale, dir, t, formatDate, formatDateRange, formatNumber } = useI18n();
+  const displayMode = useDisplayMode();
+  const maxHeight = useMaxHeight();
+  const toolInput = useToolInput();
+  const titleId = useId();
+  const { payload: rawPayload, loading } = useToolOutput(extractAvailabilityPayload);
+  const validation = useMemo(
+    () => (rawPayload ? validateAvailabilityPayload(rawPayload) : null),
+    [rawPayload]
+  );
+  const payload = validation?.value ?? null;
+  const invalidPayload = Boolean(validation && !validation.value);
+  const droppedCount = validation ? countDroppedItems(validation) : 0;
+
+  useEffect(() => {
+    if (!validation || validation.issues.length === 0) return;
+    console.warn("[AvailabilityCalendarWidget] Payload validation issues:", validation.issues);
+  }, [validation]);
+
+  const nights = useMemo(
+    () => new Map((payload?.nights ?? []).map((night) => [night.date, night])),
+    [payload]
+  );
+  const priceRange = useMemo(() => {
+    const prices = (payload?.nights ?? [])
+      .filter((night) => night.status === "available" && typeof night.price === "number")
+      .map((night) => night.price as number);
+    return prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : null;
+  }, [payload]);
+  const currency: MoneyCurrency = {
+    code: payload?.currency_code,
+    display: payload?.currency_display,
+  };
+  const defaultMinStay = payload?.min_stay ?? 1;
+
+  const today = todayIsoDate();
+  const dates = useMemo(() => [...nights.keys()].sort(), [nights]);
+  const firstMonth = monthOf(dates[0] && dates[0] > today ? dates[0] : today);
+  const lastMonth = monthOf(dates[dates.length - 1] ?? today);
+
+  const [widgetState, setWidgetState] = useWidgetState<AvailabilityWidgetState>({
+    key: `availability:${payload?.property_id ?? "any"}:${payload?.room_id ?? "any"}`,
+    version: WIDGET_STATE_VERSION,
+    defaults: DEFAULT_WIDGET_STATE,
+  });
+  const { check_in: checkIn, check_out: checkOut } = widgetState;
+  const clampMonth = (month: string) =>
+    month < firstMonth ? firstMonth : month > lastMonth ? lastMonth : month;
+  const month = clampMonth(widgetState.month ?? (checkIn ? monthOf(checkIn) : firstMonth));
+  const weeks = useMemo(() => buildWeeks(month, firstDayOfWeek(locale)), [locale, month]);
+  const weekdays = useMemo(() => {
+    const firstDay = firstDayOfWeek(locale);
+    return Array.from({ length: 7 }, (_, index) => addDays(REFERENCE_SUNDAY, (firstDay + index) % 7));
+  }, [locale]);
+
+  const canCheckIn = useCallback(
+    (date: string) => date >= today && nights.get(date)?.status === "available",
+    [nights, today]
+  );
+  const choosingCheckOut = Boolean(checkIn && !checkOut);
+  const isSelectable = (date: string): boolean => {
+    if (choosingCheckOut && checkIn && date > checkIn) {
+      return checkStay(checkIn, date, nights, defaultMinStay) === null;
+    }
+    return canCheckIn(date);
+  };
+
+  const [hint, setHint] = useState<string | null>(null);
+  const [searchState, setSearchState] = useState<SearchState>({ status: "idle" });
+  const searchRequestRef = useRef<AbortController | null>(null);
+  useEffect(() => () => searchRequestRef.current?.abort(), []);
+  const [guestFormRoom, setGuestFormRoom] = useState<SearchRoom | null>(null);
+  const [reservation, setReservation] = useState<ReservationState | null>(null);
+  const [lastGuestDetails, setLastGuestDetails] = useState<GuestDetails | null>(null);
+
+  const runSearch = useCallback(
+    async (stayCheckIn: string, stayCheckOut: string) => {
+      searchRequestRef.current?.abort();
+      const controller = new AbortController();
+      searchRequestRef.current = controller;
+      setSearchState({ status: "searching" });
+      setGuestFormRoom(null);
+      setReservation(null);
+
+      const guests = payload?.guests ?? Number(toolInput?.guests);
+      try {
+        const result = await callTool(
+          "search_rooms",
+          {
+            ...(payload?.property_id ? { property_id: payload.property_id } : {}),
+            ...(payload?.room_id ? { room_id: payload.room_id } : {}),
+            check_in: stayCheckIn,
+            check_out: stayCheckOut,
+            ...(Number.isInteger(guests) && guests > 0 ? { guests } : {}),
+          },
+          { signal: controller.signal }
+        );
+        const nextRaw = extractSearchRoomsPayload(result);
+        const next = nextRaw ? validateSearchRoomsPayload(nextRaw).value : null;
+        if (!next || next.error) {
+          setSearchState({
+            status: "failed",
+            error: next?.error ?? readToolError(result) ?? t("search.unreadable"),
+          });
+          return;
+        }
+
+        const rooms = next.rooms ?? next.hotels?.flatMap((hotel) => hotel.matching_rooms ?? []) ?? [];
+        setSearchState({
+          status: "done",
+          count: next.count ?? next.count_rooms ?? rooms.length,
+          cheapest: findCheapestRoom(rooms),
+          rooms,
+        });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("[AvailabilityCalendarWidget] search_rooms failed:", error);
+        setSearchState({ status: "failed", error: t("availability.searchError") });
+      }
+    },
+    [payload?.guests, payload?.property_id, payload?.room_id, t, toolInput?.guests]
+  );
+
+  // Rooms found for the picked stay are reserved the same way the search
+  // widget does it, so the guest never has to search again.
+  const reserveRoom = useCallback(
+    async (room: SearchRoom, details: GuestDetails) => {
+      if (!checkIn || !checkOut) return;
+      setLastGuestDetails(details);
+      setReservation({ roomId: room.id, status: "pending" });
+      const propertyId = room.property_id ?? payload?.property_id ?? null;
+
+      try {
+        const result = await callTool("create_booking", {
+          property_id: propertyId,
+          room_id: room.id,
+          guest_name: details.guest_name,
+          guest_email: details.guest_email,
+          guest_phone: details.guest_phone || undefined,
+          special_requests: details.special_requests || undefined,
+          check_in: checkIn,
+          check_out: checkOut,
+          guests: details.guests,
+        });
+        const toolError = readToolError(result);
+        if (toolError) {
+          setReservation({ roomId: room.id, status: "failed", error: toolError });
+        } else {
+          setReservation({ roomId: room.id, status: "reserved" });
+          setGuestFormRoom(null);
+        }
+      } catch (error) {
+        console.error("[AvailabilityCalendarWidget] create_booking failed:", error);
+        if (error instanceof ToolCallError && error.reason === "unavailable") {
+          // Outside a host the embedding page handles the selection event below.
+          setReservation({ roomId: room.id, status: "selected" });
+          setGuestFormRoom(null);
+        } else {
+          setReservation({
+            roomId: room.id,
+            status: "failed",
+            error: error instanceof Error ? error.message : undefined,
+          });
+        }
+      }
+
+      const detail = { room_id: room.id, room_name: room.name, property_id: propertyId };
+      window.dispatchEvent(new CustomEvent("monobook:room-select", { detail }));
+      try {
+        window.parent?.postMessage({ type: "monobook.room_select", detail }, "*");
+      } catch {
+        // Keep UI responsive even if parent messaging is unavailable.
+      }
+    },
+    [checkIn, checkOut, payload?.property_id]
+  );
+
+  const onPickDate = (date: string) => {
+    setHint(null);
+    if (choosingCheckOut && checkIn && date > checkIn) {
+      const problem = checkStay(checkIn, date, nights, defaultMinStay);
+      if (problem?.reason === "minStay") {
+        setHint(t("availability.minStay", { count: problem.minStay }));
+        return;
+      }
+      if (problem) {
+        setHint(t("availability.rangeUnavailable"));
+        return;
+      }
+      setWidgetState({ check_out: date });
+      void runSearch(checkIn, date);
+      return;
+    }
+
+    if (!canCheckIn(date)) {
+      setHint(t(date < today ? "availability.pastDate" : "availability.nightUnavailable"));
+      return;
+    }
+    searchRequestRef.current?.abort();
+    setSearchState({ status: "idle" });
+    setWidgetState({ check_in: date, check_out: null });
+  };
+
+  const onClear = () => {
+    searchRequestRef.current?.abort();
+    setHint(null);
+    setSearchState({ status: "idle" });
+    setWidgetState({ check_in: null, check_out: null });
+  };
+
+  // Roving focus: one Tab stop in the grid, arrow keys move by day and week.
+  const [focusedDate, setFocusedDate] = useState<string | null>(null);
+  const activeDate =
+    focusedDate && monthOf(focusedDate) === month
+      ? focusedDate
+      : checkIn && monthOf(checkIn) === month
+        ? checkIn
+        : `${month}-01`;
+  const gridRef = useRef<HTMLTableElement>(null);
+  const moveFocusRef = useRef(false);
+
+  useEffect(() => {
+    if (!moveFocusRef.current) return;
+    moveFocusRef.current = false;
+    gridRef.current?.querySelector<HTMLElement>(`[data-date="${activeDate}"]`)?.focus();
+  }, [activeDate]);
+
+  const showMonth = (next: string) => setWidgetState({ month: clampMonth(next) });
+
+  const onGridKeyDown = (event: KeyboardEvent<HTMLTableElement>) => {
+    const forward = dir === "rtl" ? -1 : 1;
+    const steps: Record<string, () => string> = {
+      ArrowRight: () => addDays(activeDate, forward),
+      ArrowLeft: () => addDays(activeDate, -forward),
+      ArrowDown: () => addDays(activeDate, 7),
+      ArrowUp: () => addDays(activeDate, -7),
+      Home: () => `${month}-01`,
+      End: () => lastDayOfMonth(month),
+      PageDown: () => sameDayIn(addMonths(month, 1), activeDate),
+      PageUp: () => sameDayIn(addMonths(month, -1), activeDate),
+    };
+    const step = steps[event.key];
+    if (!step) return;
+    event.preventDefault();
+
+    const next = step();
+    const nextMonth = clampMonth(monthOf(next));
+    if (nextMonth !== monthOf(next)) return;
+    if (nextMonth !== month) showMonth(nextMonth);
+    moveFocusRef.current = true;
+    setFocusedDate(next);
+  };
+
+  const errorRef = useFocusOnMessage<HTMLParagraphElement>(
+    searchState.status === "failed" ? searchState.error : null
+  );
+
+  const describeDay = (date: string): string => {
+    const night = nights.get(date);
+    const parts = [
+      formatDate(date, { weekday: "long", month: "long", day: "numeric", year: "numeric" }),
+      t(STATUS_LABELS[night?.status ?? "unknown"]),
+    ];
+    if (night?.status === "available" && typeof night.price === "number") {
+      parts.push(t("availability.nightlyRate", { price: formatMoney(night.price, currency, locale) }));
+    }
+    const minStay = night?.min_stay ?? defaultMinStay;
+    if (night?.status === "available" && minStay > 1) {
+      parts.push(t("availability.minStay", { count: minStay }));
+    }
+    if (date === checkIn) parts.push(t("common.checkIn"));
+    if (date === checkOut) parts.push(t("common.checkOut"));
+    return parts.join(", ");
+  };
+
+  const stayNights = checkIn && checkOut ? countNights(checkIn, checkOut) : null;
+  const stayTotal = useMemo(() => {
+    if (!checkIn || !checkOut) return null;
+    let total = 0;
+    for (let date = checkIn; date < checkOut; date = addDays(date, 1)) {
+      const price = nights.get(date)?.price;
+      if (typeof price !== "number") return null;
+      total += price;
+    }
+    return total;
+  }, [checkIn, checkOut, nights]);
+
+  const title = payload?.room_name || payload?.property_name || t("availability.title");
+
+  return (
+    <main
+      className={`availability availability--${displayMode}`}
+      style={displayMode !== "fullscreen" && maxHeight ? { maxHeight } : undefined}
+    >
+      {loading && (
+        <div role="status" aria-busy="true">
+          <span className="visually-hidden">{t("a11y.loadingAvailability")}</span>
+          <div className="skeleton skeleton--title" aria-hidden="true" />
+          <div className="skeleton skeleton--calendar" aria-hidden="true" />
+        </div>
+      )}
+
+      {!loading && payload?.error && (
+        <div className="widget-alert" role="alert">
+          {payload.error}
+        </div>
+      )}
+
+      {!loading && invalidPayload && (
+        <div className="widget-alert" role="alert">
+          {t("availability.malformed")}
+        </div>
+      )}
+
+      {!loading && payload && !payload.error && (
+        <section className="availability__card" aria-labelledby={titleId}>
+          {droppedCount > 0 && (
+            <p className="widget-notice" role="status">
+              {t("availability.dropped", { count: droppedCount })}
+            </p>
+          )}
+
+          <header className="availability__header">
+            <div>
+              <h2 className="availability__title" id={titleId}>
+                {title}
+              </h2>
+              {payload.room_name && payload.property_name && (
+                <p className="availability__sub">{payload.property_name}</p>
+              )}
+            </div>
+            <div className="availability__nav">
+              <button
+                type="button"
+                className="availability__nav-button"
+                aria-label={t("availability.previousMonth")}
+                disabled={month <= firstMonth}
+                onClick={() => showMonth(addMonths(month, -1))}
+              >
+                <span aria-hidden="true">{dir === "rtl" ? "›" : "‹"}</span>
+              </button>
+              <h3 className="availability__month" aria-live="polite">
+                {formatDate(`${month}-01`, { month: "long", year: "numeric" })}
+              </h3>
+              <button
+                type="button"
+                className="availability__nav-button"
+                aria-label={t("availability.nextMonth")}
+                disabled={month >= lastMonth}
+                onClick={() => showMonth(addMonths(month, 1))}
+              >
+                <span aria-hidden="true">{dir === "rtl" ? "‹" : "›"}</span>
+              </button>
+            </div>
+          </header>
+
+          {nights.size === 0 ? (
+            <p className="availability__empty">{t("availability.empty")}</p>
+          ) : (
+            <>
+              <p className="availability__prompt">
+                {t(choosingCheckOut ? "availability.pickCheckOut" : "availability.pickCheckIn")}
+              </p>
+
+              <table ref={gridRef} className="availability__grid" onKeyDown={onGridKeyDown}>
+                <thead>
+                  <tr>
+                    {weekdays.map((weekday) => (
+                      <th
+                        key={weekday}
+                        scope="col"
+                        abbr={formatDate(weekday, { weekday: "long" })}
+                      >
+                        {formatDate(weekday, { weekday: "narrow" })}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {weeks.map((week) => (
+                    <tr key={week.find(Boolean) ?? ""}>
+                      {week.map((date, index) => {
+                        if (!date) return <td key={`pad-${index}`} />;
+                        const night = nights.get(date);
+                        const status = date < today ? "past" : night?.status ?? "unknown";
+                        const inRange = Boolean(
+                          checkIn && checkOut && date > checkIn && date < checkOut
+                        );
+                        const edge = date === checkIn || date === checkOut;
+                        const heat =
+                          status === "available" &&
+                          typeof night?.price === "number" &&
+                          priceRange
+                            ? priceLevel(night.price, priceRange.min, priceRange.max)
+                            : null;
+                        const className = [
+                          "availability-day",
+                          `availability-day--${status}`,
+                          heat !== null ? `availability-day--heat-${heat}` : "",
+                          inRange ? "availability-day--in-range" : "",
+                          edge ? "availability-day--edge" : "",
+                        ]
+                          .filter(Boolean)
+                          .join(" ");
+
+                        return (
+                          <td key={date}>
+                            <button
+                              type="button"
+                              className={className}
+                              data-date={date}
+                              tabIndex={date === activeDate ? 0 : -1}
+                              aria-label={describeDay(date)}
+                              aria-disabled={!isSelectable(date) || undefined}
+                              aria-current={date === today ? "date" : undefined}
+                              onFocus={() => setFocusedDate(date)}
+                              onClick={() => onPickDate(date)}
+                            >
+                              <span className="availability-day__number">
+                                {formatNumber(Number(date.slice(8)))}
+                              </span>
+                              {status === "available" && typeof night?.price === "number" && (
+                                <span className="availability-day__price" aria-hidden="true">
+                                  {formatMoney(night.price, currency, locale, "whole")}
+                                </span>
+                              )}
+                            </button>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <ul className="availability__legend" aria-label={t("availability.legend")}>
+                {priceRange && priceRange.max > priceRange.min && (
+                  <li className="availability__legend-heat">
+                    <span>{t("availability.lowerPrice")}</span>
+                    {Array.from({ length: HEAT_LEVELS }, (_, level) => (
+                      <span
+                        key={level}
+                        className={`availability__swatch availability-day--heat-${level}`}
+                        aria-hidden="true"
+                      />
+                    ))}
+                    <span>{t("availability.higherPrice")}</span>
+                  </li>
+                )}
+                <li>
+                  <span
+                    className="availability__swatch availability-day--sold_out"
+                    aria-hidden="true"
+                  />
+                  {t("availability.soldOut")}
+                </li>
+                <li>
+                  <span
+                    className="availability__swatch availability-day--blocked"
+                    aria-hidden="true"
+                  />
+                  {t("availability.blocked")}
+                </li>
+                {defaultMinStay > 1 && (
+                  <li>{t("availability.minStay", { count: defaultMinStay })}</li>
+                )}
+              </ul>
+
+              {hint && (
+                <p className="availability__hint" role="status">
+                  {hint}
+                </p>
+              )}
+
+              {checkIn && (
+                <div className="availability__stay">
+                  <p className="availability__stay-text">
+                    {checkOut && stayNights
+                      ? t("availability.stay", {
+                          dates: formatDateRange(checkIn, checkOut),
+                          nights: t("availability.nights", { count: stayNights }),
+                        })
+                      : t("availability.checkInOn", {
+                          date: formatDate(checkIn, { month: "long", day: "numeric" }),
+                        })}
+                    {stayTotal !== null && (
+                      <>
+                        {" · "}
+                        {t("availability.stayTotal", {
+                          amount: formatMoney(stayTotal, currency, locale),
+                        })}
+                      </>
+                    )}
+                  </p>
+                  <button type="button" className="bc-link" onClick={onClear}>
+                    {t("availability.clear")}
+                  </button>
+                </div>
+              )}
+
+              <div className="availability__result" role="status">
+                {searchState.status === "searching" && t("availability.searching")}
+                {searchState.status === "done" &&
+                  (searchState.count === 0
+                    ? t("availability.noRooms")
+                    : searchState.cheapest
+                      ? t("availability.roomsFrom", {
+                          rooms: t("common.rooms", { count: searchState.count }),
+                          price: formatMoney(
+                            roomPrice(searchState.cheapest) ?? 0,
+                            {
+                              code: searchState.cheapest.currency_code ?? currency.code,
+                              display: searchState.cheapest.currency_display ?? currency.display,
+                            },
+                            locale
+                          ),
+                        })
+                      : t("availability.roomsFound", {
+                          rooms: t("common.rooms", { count: searchState.count }),
+                        }))}
+              </div>
+
+              {searchState.status === "done" && searchState.rooms.length > 0 && (
+                <ul className="availability__rooms" aria-label={t("availability.roomsLabel")}>
+                  {searchState.rooms.map((room) => {
+                    const status =
+                      reservation?.roomId === room.id ? reservation.status : undefined;
+                    const action = t(status ? RESERVE_LABELS[status] : "reserve.short");
+                    return (
+                      <li key={room.id} className="availability__room">
+                        <span className="availability__room-name">{room.name}</span>
+                        {room.max_guests ? (
+                          <span className="availability__room-meta">
+                            {t("hotels.sleeps", { count: room.max_guests })}
+                          </span>
+                        ) : null}
+                        <span className="availability__room-price">
+                          {formatPrice(
+                            room.price_per_night,
+                            room.currency_display ?? currency.display,
+                            room.currency_code ?? currency.code,
+                            locale
+                          )}
+                          <span className="availability__room-per"> {t("common.perNight")}</span>
+                        </span>
+                        <button
+                          type="button"
+                          className={
+                            status === "reserved" || status === "selected"
+                              ? "availability__reserve availability__reserve--selected"
+                              : "availability__reserve"
+                          }
+                          aria-label={t("reserve.roomLabel", { action, name: room.name })}
+                          disabled={status === "pending"}
+                          aria-busy={status === "pending"}
+                          onClick={() => setGuestFormRoom(room)}
+                        >
+                          {action}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {searchState.status === "done" && guestFormRoom && (
+                <GuestDetailsForm
+                  key={guestFormRoom.id}
+                  room={guestFormRoom}
+                  initialDetails={lastGuestDetails ?? prefillGuestDetails(toolInput, payload.guests)}
+                  submitting={
+                    reservation?.roomId === guestFormRoom.id && reservation.status === "pending"
+                  }
+                  error={
+                    reservation?.roomId === guestFormRoom.id && reservation.status === "failed"
+                      ? reservation.error ?? t("reserve.error")
+                      : undefined
+                  }
+                  onSubmit={(details) => reserveRoom(guestFormRoom, details)}
+                  onCancel={() => setGuestFormRoom(null)}
+                />
+              )}
+
+              {searchState.status === "failed" && checkIn && checkOut && (
+                <div className="availability__error">
+                  <p ref={errorRef} className="bc-error" role="alert" tabIndex={-1}>
+                    {searchState.error}
+                  </p>
+                  <button
+                    type="button"
+                    className="bc-secondary"
+                    onClick={() => void runSearch(checkIn, checkOut)}
+                  >
+                    {t("availability.retry")}
+                  </button>
+                </div>
+              )}
+            </>
+          )}
+        </section>
+      )}
+
+      {!loading && !payload && !invalidPayload && (
+        <div className="widget-alert" role="alert">
+          {t("availability.empty")}
+        </div>
+      )}
+    </main>
+  );
+}
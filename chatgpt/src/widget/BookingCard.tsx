@@ -0,0 +1,303 @@
+import { useMemo, useState } from "react";
+
+import type { MessageKey } from "../i18n/catalog";
+import { useI18n, type Translate } from "../i18n/I18nProvider";
+import { formatMoney, normalizeCurrencyCode, type MoneyCurrency } from "../i18n/money";
+import type { BookingPayload } from "../openai";
+import { useFocusOnMessage } from "./a11y";
+import { BOOKING_CHANGE_LABELS, type BookingChangeKind } from "./BookingChangeDialog";
+import { ConvertedPrice } from "./ConvertedPrice";
+import { PhotoCarousel, PhotoLightbox } from "./PhotoGallery";
+import { formatPolicyDeadline } from "./PolicyDialog";
+import { resolveImageSources } from "./roomDisplay";
+
+const FALLBACK_GRADIENT =
+  "linear-gradient(135deg, #0b1020 0%, #2b3c6e 45%, #c99a54 100%)";
+
+export type ConfirmState = {
+  status: "idle" | "pending" | "failed";
+  error?: string;
+};
+
+export type BookingStatus = "confirmed" | "pending" | "cancelled";
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, MessageKey> = {
+  confirmed: "booking.status.confirmed",
+  pending: "booking.status.pending",
+  cancelled: "booking.status.cancelled",
+};
+
+/** Anything the server sends besides confirmed or cancelled is shown as pending. */
+export const resolveBookingStatus = (status: string | undefined): BookingStatus => {
+  const normalized = status?.trim().toLowerCase();
+  if (normalized === "confirmed") return "confirmed";
+  if (normalized === "cancelled" || normalized === "canceled") return "cancelled";
+  return "pending";
+};
+
+export const bookingCurrency = (p: BookingPayload): MoneyCurrency => ({
+  code: p.currency_code ?? p.currency,
+  display: p.currency_display,
+});
+
+const formatGuestsLabel = (guests: number | undefined, t: Translate): string =>
+  t("common.guests", { count: guests && guests > 0 ? guests : 2 });
+
+const formatSubtitle = (p: BookingPayload, t: Translate): string => {
+  const parts: string[] = [];
+  if (p.room_type) parts.push(p.room_type);
+  if (p.bed_config) parts.push(p.bed_config);
+  if (p.max_guests && p.max_guests > 0) {
+    parts.push(t("common.upToGuests", { count: p.max_guests }));
+  }
+  return parts.join(" · ") || t("common.room");
+};
+
+/** A failed confirm moves focus here so the failure isn't missed after the button re-enables. */
+export function ConfirmError({ className, message }: { className: string; message: string }) {
+  const ref = useFocusOnMessage<HTMLParagraphElement>(message);
+  return (
+    <p ref={ref} className={className} role="alert" tabIndex={-1}>
+      {message}
+    </p>
+  );
+}
+
+type BookingCardProps = {
+  payload: BookingPayload;
+  confirmState?: ConfirmState;
+  /** Without it the card is read-only: no confirm button. */
+  onConfirm?: () => void;
+  onShowTerms?: () => void;
+  /** Offers "Change dates", "Change guests" and "Cancel booking" when set. */
+  onChangeBooking?: (kind: BookingChangeKind) => void;
+};
+
+const CHANGE_KINDS: BookingChangeKind[] = ["dates", "guests", "cancel"];
+
+const IDLE: ConfirmState = { status: "idle" };
+
+export function BookingCard({
+  payload: p,
+  confirmState = IDLE,
+  onConfirm,
+  onShowTerms,
+  onChangeBooking,
+}: BookingCardProps) {
+  const { locale, t, formatDateRange } = useI18n();
+  const currency = bookingCurrency(p);
+  const money = (value: number | undefined) => formatMoney(Number(value ?? 0), currency, locale);
+  const images = useMemo(() => resolveImageSources(p.room_images), [p.room_images]);
+  const [photoIndex, setPhotoIndex] = useState<number | null>(null);
+  const roomLabel = p.room_name || t("common.room");
+  const currencyCode = normalizeCurrencyCode(currency.code);
+  const status = resolveBookingStatus(p.status);
+  const isConfirming = confirmState.status === "pending";
+  const isConfirmed = status === "confirmed" && !isConfirming;
+  const statusLabel = t(BOOKING_STATUS_LABELS[status]);
+  const confirmationId = p.booking_id ? p.booking_id.slice(0, 8).toUpperCase() : "";
+
+  return (
+    <section className="booking-card" aria-label={t("booking.label")}>
+      <div className="bc-media">
+        <PhotoCarousel
+          className="bc-media__carousel"
+          images={images}
+          label={roomLabel}
+          fallbackBackground={FALLBACK_GRADIENT}
+          onOpen={setPhotoIndex}
+        />
+        <div className="bc-media__overlay" />
+
+        <div className="bc-media-top">
+          <span className={`bc-badge bc-badge--${status}`} aria-live="polite">
+            <span className="bc-badge__dot" />
+            {statusLabel}
+          </span>
+        </div>
+
+        <div className="bc-media-bottom">
+          <div className="bc-price-pill" aria-label={t("common.pricePerNight")}>
+            <span className="bc-price-pill__amount">
+              {formatMoney(Number(p.nightly_rate ?? 0), currency, locale, "auto")}
+            </span>
+            <span className="bc-price-pill__per">{t("common.perNight")}</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="bc-content">
+        <div className="bc-title-row">
+          <div>
+            <h2 className="bc-title">{roomLabel}</h2>
+            {p.property_name && <p className="bc-sub">{p.property_name}</p>}
+            <p className="bc-sub">{formatSubtitle(p, t)}</p>
+          </div>
+        </div>
+
+        {p.amenities && p.amenities.length > 0 && (
+          <div className="bc-meta">
+            {p.amenities.slice(0, 5).map((a) => (
+              <span className="bc-tag" key={a}>
+                {a}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="bc-rows" aria-label={t("booking.details")}>
+          <div className="bc-row">
+            <div className="bc-row__left">
+              <div className="bc-row__label">{t("booking.dates")}</div>
+              <div className="bc-row__value">{formatDateRange(p.check_in, p.check_out)}</div>
+            </div>
+          </div>
+
+          <div className="bc-row">
+            <div className="bc-row__left">
+              <div className="bc-row__label">{t("booking.guests")}</div>
+              <div className="bc-row__value">{formatGuestsLabel(p.guests, t)}</div>
+            </div>
+          </div>
+
+          {confirmationId && (
+            <div className="bc-row">
+              <div className="bc-row__left">
+                <div className="bc-row__label">{t("booking.confirmation")}</div>
+                <div className="bc-row__value">{confirmationId}</div>
+              </div>
+            </div>
+          )}
+
+          {status === "cancelled" && (
+            <div className="bc-row">
+              <div className="bc-row__left">
+                <div className="bc-row__label">{t("booking.cancellation")}</div>
+                <div className="bc-row__value">
+                  {typeof p.cancellation?.refund_amount === "number"
+                    ? t("booking.refunded", { amount: money(p.cancellation.refund_amount) })
+                    : t("booking.status.cancelled")}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {status !== "cancelled" && p.policy?.free_cancellation_until && (
+            <div className="bc-row">
+              <div className="bc-row__left">
+                <div className="bc-row__label">{t("booking.cancellation")}</div>
+                <div className="bc-row__value">
+                  {t("booking.freeUntil", {
+                    deadline: formatPolicyDeadline(p.policy.free_cancellation_until, locale),
+                  })}
+                </div>
+              </div>
+              {onShowTerms && (
+                <button type="button" className="bc-link" onClick={onShowTerms}>
+                  {t("booking.fullPolicy")}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="bc-price-section" aria-label={t("booking.priceBreakdown")}>
+          <h3 className="bc-price-section__heading">{t("booking.priceDetails")}</h3>
+
+          <div className="bc-price-line">
+            <span>
+              {t("booking.nightsTimesRate", { count: p.nights ?? 1, rate: money(p.nightly_rate) })}
+            </span>
+            <span>{money(p.subtotal)}</span>
+          </div>
+
+          <div className="bc-price-line">
+            <span>{t("booking.taxes")}</span>
+            <span>{money(p.taxes)}</span>
+          </div>
+
+          <div className="bc-price-line">
+            <span>{t("booking.serviceFee")}</span>
+            <span>{money(p.service_fee)}</span>
+          </div>
+
+          <div className="bc-total">
+            <span className="bc-total__label">
+              {t("booking.total")}
+              {currencyCode && (
+                <>
+                  {" "}
+                  <span style={{ textDecoration: "underline", textUnderlineOffset: "3px" }}>
+                    {currencyCode}
+                  </span>
+                </>
+              )}
+            </span>
+            <span className="bc-total__value">{money(p.total)}</span>
+          </div>
+          <ConvertedPrice
+            className="bc-total__converted"
+            amount={p.total}
+            currencyCode={currencyCode ?? undefined}
+            rates={p.exchange_rates}
+          />
+        </div>
+      </div>
+
+      {confirmState.status === "failed" && (
+        <ConfirmError
+          className="bc-error"
+          message={confirmState.error ?? t("booking.confirmError")}
+        />
+      )}
+
+      {onChangeBooking && p.booking_id && status !== "cancelled" && (
+        <div className="bc-manage" role="group" aria-label={t("change.manage")}>
+          {CHANGE_KINDS.map((kind) => (
+            <button
+              key={kind}
+              type="button"
+              className={`bc-link ${kind === "cancel" ? "bc-link--danger" : ""}`}
+              disabled={isConfirming}
+              onClick={() => onChangeBooking(kind)}
+            >
+              {t(BOOKING_CHANGE_LABELS[kind])}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="bc-actions">
+        {onShowTerms && (
+          <button type="button" className="bc-secondary" onClick={onShowTerms}>
+            {t("booking.terms")}
+          </button>
+        )}
+        {onConfirm && (
+          <button
+            type="button"
+            className={`bc-confirm ${isConfirmed ? "bc-confirm--done" : ""}`}
+            disabled={isConfirmed || isConfirming || status === "cancelled" || !p.booking_id}
+            aria-busy={isConfirming}
+            onClick={onConfirm}
+          >
+            {t(
+              isConfirming
+                ? "booking.confirming"
+                : isConfirmed
+                  ? "booking.confirmed"
+                  : "booking.confirm"
+            )}
+          </button>
+        )}
+      </div>
+
+      <PhotoLightbox
+        images={images}
+        label={roomLabel}
+        openIndex={photoIndex}
+        onClose={() => setPhotoIndex(null)}
+      />
+    </section>
+  );
+}
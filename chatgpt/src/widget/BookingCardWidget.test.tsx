@@ -0,0 +1,150 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { ToolCallError } from "../bridge/client";
+import { booking } from "../test/fixtures";
+import { describeWidgetStates, renderWidget } from "../test/widgetHarness";
+import { BookingCardWidget } from "./BookingCardWidget";
+
+describeWidgetStates("BookingCardWidget", BookingCardWidget, {
+  error: { booking_id: "bk-1", error: "That room is no longer available." },
+  empty: { booking_id: "bk-1", status: "pending" },
+  malformed: { ...booking(), total: "a lot", check_in: "someday" },
+  populated: booking({ status: "pending" }),
+});
+
+describe("BookingCardWidget keyboard", () => {
+  it("shows the policy before confirming a booking from the keyboard", async () => {
+    const user = userEvent.setup();
+    const callTool = vi.fn(async () => ({ structuredContent: booking({ status: "confirmed" }) }));
+    renderWidget(BookingCardWidget, {
+      payload: booking({ status: "pending" }),
+      host: { callTool },
+    });
+
+    screen.getByRole("button", { name: "Confirm" }).focus();
+    await user.keyboard("{Enter}");
+    const dialog = screen.getByRole("dialog");
+    const accept = within(dialog).getByRole<HTMLButtonElement>("button", {
+      name: "Agree & confirm",
+    });
+    expect(accept.disabled).toBe(true);
+    expect(callTool).not.toHaveBeenCalled();
+
+    await user.click(within(dialog).getByRole("checkbox"));
+    await user.click(accept);
+    await waitFor(() =>
+      expect(callTool).toHaveBeenCalledWith("confirm_booking", {
+        booking_id: "bk-1",
+        policy_acknowledged: true,
+      })
+    );
+    expect(await screen.findByText("Booking Confirmed")).toBeTruthy();
+  });
+
+  it("moves focus to the error when confirming fails", async () => {
+    const user = userEvent.setup();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const callTool = vi.fn(async () => {
+      throw new Error("The payment was declined.");
+    });
+    renderWidget(BookingCardWidget, {
+      payload: booking({ status: "pending", policy: undefined }),
+      host: { callTool },
+    });
+
+    await user.click(screen.getByRole("button", { name: "Confirm" }));
+    const error = await screen.findByText("The payment was declined.");
+    expect(document.activeElement).toBe(error);
+  });
+});
+
+describe("BookingCardWidget changes", () => {
+  it("quotes a change, then commits it once the guest confirms", async () => {
+    const user = userEvent.setup();
+    const callTool = vi.fn(async (_name: string, args?: Record<string, unknown>) => ({
+      structuredContent: booking({ guests: Number(args?.guests), total: 700 }),
+    }));
+    renderWidget(BookingCardWidget, { payload: booking(), host: { callTool } });
+
+    await user.click(screen.getByRole("button", { name: "Change guests" }));
+    const dialog = screen.getByRole("dialog");
+    await user.click(within(dialog).getByRole("button", { name: "More guests" }));
+    await user.click(within(dialog).getByRole("button", { name: "Review price" }));
+
+    expect(await within(dialog).findByText("New guest count: 3 guests")).toBeTruthy();
+    expect(callTool).toHaveBeenCalledTimes(1);
+    expect(callTool).toHaveBeenLastCalledWith("modify_booking", {
+      booking_id: "bk-1",
+      guests: 3,
+      preview: true,
+    });
+
+    await user.click(within(dialog).getByRole("button", { name: "Confirm change" }));
+    await waitFor(() => expect(screen.queryByRole("dialog")).toBeNull());
+    expect(callTool).toHaveBeenLastCalledWith("modify_booking", { booking_id: "bk-1", guests: 3 });
+    expect(screen.getByText("3 guests")).toBeTruthy();
+  });
+
+  it("starts each change from the booking, not the last abandoned draft", async () => {
+    const user = userEvent.setup();
+    renderWidget(BookingCardWidget, { payload: booking(), host: { callTool: vi.fn() } });
+
+    await user.click(screen.getByRole("button", { name: "Change guests" }));
+    await user.click(screen.getByRole("button", { name: "More guests" }));
+    expect(within(screen.getByRole("dialog")).getByRole("status").textContent).toBe("3");
+    await user.click(screen.getByRole("button", { name: "Cancel" }));
+    expect(screen.queryByRole("dialog")).toBeNull();
+
+    await user.click(screen.getByRole("button", { name: "Change guests" }));
+    expect(within(screen.getByRole("dialog")).getByRole("status").textContent).toBe("2");
+    expect(
+      screen.getByRole<HTMLButtonElement>("button", { name: "Review price" }).disabled
+    ).toBe(true);
+  });
+
+  describe("when committing times out", () => {
+    const timingOut = (saved: boolean) =>
+      vi.fn(async (name: string, args?: Record<string, unknown>) => {
+        if (name === "get_booking") {
+          return { structuredContent: booking(saved ? { guests: 3, total: 700 } : {}) };
+        }
+        if (!args?.preview) throw new ToolCallError("modify_booking timed out.", "timeout");
+        return { structuredContent: booking({ guests: 3, total: 700 }) };
+      });
+
+    const commitGuestChange = async () => {
+      const user = userEvent.setup();
+      await user.click(screen.getByRole("button", { name: "Change guests" }));
+      await user.click(screen.getByRole("button", { name: "More guests" }));
+      await user.click(screen.getByRole("button", { name: "Review price" }));
+      await user.click(await screen.findByRole("button", { name: "Confirm change" }));
+    };
+
+    it("reloads the booking and closes when the change went through", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const callTool = timingOut(true);
+      renderWidget(BookingCardWidget, { payload: booking(), host: { callTool } });
+
+      await commitGuestChange();
+      await waitFor(() => expect(screen.queryByRole("dialog")).toBeNull());
+      expect(callTool).toHaveBeenLastCalledWith("get_booking", { booking_id: "bk-1" });
+      expect(screen.getByText("3 guests")).toBeTruthy();
+    });
+
+    it("says the outcome is unknown when the booking is unchanged", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const callTool = timingOut(false);
+      renderWidget(BookingCardWidget, { payload: booking(), host: { callTool } });
+
+      await commitGuestChange();
+      const error = await screen.findByRole("alert");
+      expect(error.textContent).toMatch(/couldn't tell whether the change went through/);
+      expect(callTool).toHaveBeenLastCalledWith("get_booking", { booking_id: "bk-1" });
+      expect(
+        screen.getByRole<HTMLButtonElement>("button", { name: "Confirm change" }).disabled
+      ).toBe(false);
+    });
+  });
+});
@@ -1,450 +1,349 @@
-import { useCallback, useEffect, useState } from "react";
-
-import type { BookingPayload, OpenAIBridge } from "../openai";
-
-const FALLBACK_GRADIENT =
-  "linear-gradient(135deg, #0b1020 0%, #2b3c6e 45%, #c99a54 100%)";
-
-const BRIDGE_METHODS = [
-  "getInitialState",
-  "getState",
-  "getContext",
-  "getToolOutput",
-] as const;
-
-const BRIDGE_STATIC_KEYS = [
-  "toolOutput",
-  "output",
-  "data",
-  "result",
-  "response",
-  "toolResult",
-  "tool_output",
-  "tool_result",
-  "state",
-  "value",
-] as const;
-
-const MAX_BRIDGE_ATTEMPTS_FAST = 100;
-const BRIDGE_POLL_INTERVAL_FAST = 100;
-const MAX_BRIDGE_ATTEMPTS_SLOW = 40;
-const BRIDGE_POLL_INTERVAL_SLOW = 500;
-
-type BootstrapData = {
-  widget?: string;
-  payload?: unknown;
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { callTool, requestDisplayMode, ToolCallError } from "../bridge/client";
+import { readToolError } from "../bridge/payload";
+import { useDisplayMode, useMaxHeight } from "../bridge/useOpenAIGlobal";
+import { useToolOutput } from "../bridge/useToolOutput";
+import { useWidgetState } from "../bridge/useWidgetState";
+import { useI18n } from "../i18n/I18nProvider";
+import { formatMoney } from "../i18n/money";
+import { validateBookingPayload } from "../validation/payloads";
+import type { BookingPayload } from "../openai";
+import {
+  BOOKING_STATUS_LABELS,
+  BookingCard,
+  bookingCurrency,
+  ConfirmError,
+  resolveBookingStatus,
+  type ConfirmState,
+} from "./BookingCard";
+import {
+  BookingChangeDialog,
+  draftFromBooking,
+  type BookingChangeDraft,
+  type BookingChangeKind,
+  type BookingChangeState,
+} from "./BookingChangeDialog";
+import { hasPolicyContent, PolicyDialog } from "./PolicyDialog";
+import { extractBookingPayload } from "./toolPayloads";
+
+const WIDGET_STATE_VERSION = 1;
+
+type BookingWidgetState = {
+  policyAcknowledged: boolean;
 };
 
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
-
-const parseJson = (value: string | null): unknown => {
-  if (!value) return null;
-  try {
-    return JSON.parse(value);
-  } catch {
-    return null;
-  }
-};
-
-const coerceToRecord = (value: unknown): Record<string, unknown> | null => {
-  if (isRecord(value)) return value;
-  if (typeof value === "string") {
-    const parsed = parseJson(value);
-    if (isRecord(parsed)) return parsed;
-  }
-  return null;
+const DEFAULT_WIDGET_STATE: BookingWidgetState = {
+  policyAcknowledged: false,
 };
 
-const hasBookingData = (value: Record<string, unknown>): boolean =>
-  Object.prototype.hasOwnProperty.call(value, "booking_id") ||
-  (Object.prototype.hasOwnProperty.call(value, "status") &&
-    Object.prototype.hasOwnProperty.call(value, "total") &&
-    Object.prototype.hasOwnProperty.call(value, "check_in"));
-
-const extractBookingPayload = (payload: unknown): BookingPayload | null => {
-  const record = coerceToRecord(payload);
-  if (!record) return null;
-
-  const maybeStructured = coerceToRecord(record.structuredContent);
-  if (maybeStructured && hasBookingData(maybeStructured)) {
-    return maybeStructured as BookingPayload;
-  }
-
-  for (const key of [
-    "result",
-    "output",
-    "data",
-    "response",
-    "toolResult",
-    "tool_result",
-    "toolOutput",
-    "tool_output",
-    "value",
-  ]) {
-    const extracted = extractBookingPayload(record[key]);
-    if (extracted) return extracted;
-  }
+type PolicyDialogMode = "closed" | "review" | "confirm";
 
-  if (Array.isArray(record.content)) {
-    for (const item of record.content) {
-      if (!isRecord(item)) continue;
-      const text = item.text;
-      if (typeof text !== "string") continue;
-      const parsed = parseJson(text);
-      const extracted = extractBookingPayload(parsed);
-      if (extracted) return extracted;
-    }
-  }
-
-  if (hasBookingData(record)) {
-    return record as BookingPayload;
-  }
-
-  for (const value of Object.values(record)) {
-    const nested = coerceToRecord(value);
-    if (!nested) continue;
-    if (hasBookingData(nested)) {
-      return nested as BookingPayload;
-    }
-  }
-
-  return null;
+const CHANGE_TOOLS: Record<BookingChangeKind, string> = {
+  dates: "modify_booking",
+  guests: "modify_booking",
+  cancel: "cancel_booking",
 };
 
-const bootstrapPayloadFromScript = (): BookingPayload | null => {
-  const node = document.getElementById("monobook-widget-bootstrap");
-  const fromScript = parseJson(node?.textContent ?? null) as BootstrapData | null;
-  const query = new URLSearchParams(window.location.search);
-  const queryPayload = parseJson(query.get("payload"));
-
-  return (
-    extractBookingPayload(fromScript?.payload) ??
-    extractBookingPayload(queryPayload)
-  );
-};
-
-const isPrefixCurrencyDisplay = (currencyDisplay: string): boolean => {
-  return !/[A-Za-z]/.test(currencyDisplay);
-};
-
-const resolveCurrencyDisplay = (
-  currencyDisplay: string | undefined,
-  currencyCode: string | undefined
-): string => {
-  const normalizedDisplay = currencyDisplay?.trim();
-  if (normalizedDisplay) return normalizedDisplay;
-  const normalizedCode = currencyCode?.trim().toUpperCase();
-  if (!normalizedCode) return "$";
-  if (normalizedCode === "USD") return "$";
-  return normalizedCode;
+const changeArgs = (
+  bookingId: string,
+  kind: BookingChangeKind,
+  draft: BookingChangeDraft
+): Record<string, unknown> => {
+  if (kind === "dates") {
+    return { booking_id: bookingId, check_in: draft.check_in, check_out: draft.check_out };
+  }
+  if (kind === "guests") return { booking_id: bookingId, guests: draft.guests };
+  return { booking_id: bookingId };
 };
 
-const formatAmount = (
-  value: number | undefined,
-  currencyDisplay: string | undefined,
-  currencyCode: string | undefined
-): string => {
-  const numeric = Number(value ?? 0);
-  const display = resolveCurrencyDisplay(currencyDisplay, currencyCode);
-  const formatted = Number.isFinite(numeric)
-    ? numeric.toLocaleString("en-US", {
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
-      })
-    : "0.00";
-  if (isPrefixCurrencyDisplay(display)) return `${display}${formatted}`;
-  return `${formatted} ${display}`;
+/** Whether `booking` already reflects the change; used when a commit's answer never arrived. */
+const showsChange = (
+  booking: BookingPayload,
+  kind: BookingChangeKind,
+  draft: BookingChangeDraft
+): boolean => {
+  if (kind === "cancel") return resolveBookingStatus(booking.status) === "cancelled";
+  if (kind === "guests") return booking.guests === draft.guests;
+  return booking.check_in === draft.check_in && booking.check_out === draft.check_out;
 };
 
-const formatDateRange = (checkIn?: string, checkOut?: string): string => {
-  if (!checkIn || !checkOut) return "—";
+const fetchBooking = async (bookingId: string): Promise<BookingPayload | null> => {
   try {
-    const ci = new Date(checkIn + "T00:00:00");
-    const co = new Date(checkOut + "T00:00:00");
-    const ciStr = ci.toLocaleDateString("en-US", { month: "short", day: "numeric" });
-    const coStr = co.toLocaleDateString("en-US", {
-      month: "short",
-      day: "numeric",
-      year: "numeric",
-    });
-    return `${ciStr} – ${coStr}`;
-  } catch {
-    return `${checkIn} – ${checkOut}`;
-  }
-};
-
-const resolveImageSrc = (images?: string[]): string | null => {
-  const first = images?.[0];
-  if (!first) return null;
-  if (
-    first.startsWith("http://") ||
-    first.startsWith("https://") ||
-    first.startsWith("/") ||
-    first.startsWith("data:image/")
-  ) {
-    return first;
+    const result = await callTool("get_booking", { booking_id: bookingId });
+    const toolError = readToolError(result);
+    if (toolError) {
+      console.warn("[BookingCardWidget] get_booking failed:", toolError);
+      return null;
+    }
+    return validateBookingPayload(extractBookingPayload(result)).value;
+  } catch (error) {
+    console.error("[BookingCardWidget] get_booking failed:", error);
+    return null;
   }
-  return null;
-};
-
-const formatGuestsLabel = (guests?: number): string => {
-  if (!guests || guests <= 0) return "2 guests";
-  return `${guests} guest${guests !== 1 ? "s" : ""}`;
-};
-
-const formatSubtitle = (p: BookingPayload): string => {
-  const parts: string[] = [];
-  if (p.room_type) parts.push(p.room_type);
-  if (p.bed_config) parts.push(p.bed_config);
-  if (p.max_guests && p.max_guests > 0) parts.push(`Up to ${p.max_guests} guests`);
-  return parts.join(" · ") || "Room";
 };
 
-type BookingCardProps = {
+type BookingSummaryProps = {
   payload: BookingPayload;
+  confirmState: ConfirmState;
+  onConfirm: () => void;
+  onOpen: () => void;
 };
 
-function BookingCard({ payload: p }: BookingCardProps) {
-  const imageSrc = resolveImageSrc(p.room_images);
-  const display = resolveCurrencyDisplay(p.currency_display, p.currency_code);
-  const isConfirmed = p.status === "confirmed";
-  const statusLabel = isConfirmed ? "Confirmed" : "Pending";
-  const confirmationId = p.booking_id ? p.booking_id.slice(0, 8).toUpperCase() : "";
+/** The picture-in-picture layout: status, stay and total, with confirm still one tap away. */
+function BookingSummary({ payload: p, confirmState, onConfirm, onOpen }: BookingSummaryProps) {
+  const { locale, t, formatDateRange } = useI18n();
+  const status = resolveBookingStatus(p.status);
+  const isConfirming = confirmState.status === "pending";
+  const isConfirmed = status === "confirmed" && !isConfirming;
 
   return (
-    <section className="booking-card" aria-label="Booking card">
-      <div className="bc-media" role="img" aria-label={p.room_name ?? "Room photo"}>
-        {imageSrc ? (
-          <img className="bc-media__image" src={imageSrc} alt={p.room_name ?? "Room"} />
-        ) : (
-          <div
-            className="bc-media__image bc-media__image--fallback"
-            style={{ background: FALLBACK_GRADIENT }}
-          />
-        )}
-        <div className="bc-media__overlay" />
-
-        <div className="bc-media-top">
-          <span className={`bc-badge ${isConfirmed ? "bc-badge--confirmed" : "bc-badge--pending"}`}>
-            <span className="bc-badge__dot" />
-            {statusLabel}
-          </span>
-        </div>
-
-        <div className="bc-media-bottom">
-          <div className="bc-price-pill" aria-label="Price per night">
-            <span className="bc-price-pill__amount">
-              {formatAmount(p.nightly_rate, p.currency_display, p.currency_code).replace(
-                /\.00$/,
-                ""
-              )}
-            </span>
-            <span className="bc-price-pill__per">/ night</span>
-          </div>
-        </div>
-      </div>
-
-      <div className="bc-content">
-        <div className="bc-title-row">
-          <div>
-            <h2 className="bc-title">{p.room_name || "Room"}</h2>
-            {p.property_name && <p className="bc-sub">{p.property_name}</p>}
-            <p className="bc-sub">{formatSubtitle(p)}</p>
-          </div>
-        </div>
-
-        {p.amenities && p.amenities.length > 0 && (
-          <div className="bc-meta">
-            {p.amenities.slice(0, 5).map((a) => (
-              <span className="bc-tag" key={a}>
-                {a}
-              </span>
-            ))}
-          </div>
-        )}
-
-        <div className="bc-rows" aria-label="Booking details">
-          <div className="bc-row">
-            <div className="bc-row__left">
-              <div className="bc-row__label">Dates</div>
-              <div className="bc-row__value">{formatDateRange(p.check_in, p.check_out)}</div>
-            </div>
-          </div>
-
-          <div className="bc-row">
-            <div className="bc-row__left">
-              <div className="bc-row__label">Guests</div>
-              <div className="bc-row__value">{formatGuestsLabel(p.guests)}</div>
-            </div>
-          </div>
-
-          {confirmationId && (
-            <div className="bc-row">
-              <div className="bc-row__left">
-                <div className="bc-row__label">Confirmation</div>
-                <div className="bc-row__value">{confirmationId}</div>
-              </div>
-            </div>
-          )}
-        </div>
-
-        <div className="bc-price-section" aria-label="Price breakdown">
-          <h3 className="bc-price-section__heading">Price details</h3>
-
-          <div className="bc-price-line">
-            <span>
-              {p.nights ?? 1} night{(p.nights ?? 1) !== 1 ? "s" : ""} ×{" "}
-              {formatAmount(p.nightly_rate, p.currency_display, p.currency_code)}
-            </span>
-            <span>{formatAmount(p.subtotal, p.currency_display, p.currency_code)}</span>
-          </div>
-
-          <div className="bc-price-line">
-            <span>Taxes</span>
-            <span>{formatAmount(p.taxes, p.currency_display, p.currency_code)}</span>
-          </div>
-
-          <div className="bc-price-line">
-            <span>Service fee</span>
-            <span>{formatAmount(p.service_fee, p.currency_display, p.currency_code)}</span>
-          </div>
-
-          <div className="bc-total">
-            <span className="bc-total__label">
-              Total{" "}
-              <span style={{ textDecoration: "underline", textUnderlineOffset: "3px" }}>
-                {display}
-              </span>
-            </span>
-            <span className="bc-total__value">
-              {formatAmount(p.total, p.currency_display, p.currency_code)}
-            </span>
-          </div>
-        </div>
+    <section className="bc-summary" aria-label={t("booking.label")}>
+      <div className="bc-summary__text">
+        <span className={`bc-summary__status bc-summary__status--${status}`} aria-live="polite">
+          {t(BOOKING_STATUS_LABELS[status])}
+        </span>
+        <h2 className="bc-summary__title">{p.room_name || t("common.room")}</h2>
+        <p className="bc-summary__meta">
+          {formatDateRange(p.check_in, p.check_out)} ·{" "}
+          {formatMoney(Number(p.total ?? 0), bookingCurrency(p), locale)}
+        </p>
       </div>
-
-      <div className="bc-actions">
+      {isConfirmed || status === "cancelled" || !p.booking_id ? (
+        <button type="button" className="bc-secondary bc-summary__action" onClick={onOpen}>
+          {t("layout.open")}
+        </button>
+      ) : (
         <button
           type="button"
-          className={`bc-confirm ${isConfirmed ? "bc-confirm--done" : ""}`}
-          disabled={isConfirmed}
+          className="bc-confirm bc-summary__action"
+          disabled={isConfirming}
+          aria-busy={isConfirming}
+          onClick={onConfirm}
         >
-          {isConfirmed ? "Booking Confirmed" : "Confirm"}
+          {t(isConfirming ? "booking.confirming" : "booking.confirm")}
         </button>
-      </div>
+      )}
+      {confirmState.status === "failed" && (
+        <ConfirmError
+          className="bc-error bc-summary__error"
+          message={confirmState.error ?? t("booking.confirmError")}
+        />
+      )}
     </section>
   );
 }
 
 export function BookingCardWidget() {
-  const [initialPayload] = useState<BookingPayload | null>(() =>
-    bootstrapPayloadFromScript()
+  const { locale, t } = useI18n();
+  const displayMode = useDisplayMode();
+  const maxHeight = useMaxHeight();
+  const {
+    payload: rawPayload,
+    loading,
+    setPayload,
+  } = useToolOutput(extractBookingPayload);
+  const validation = useMemo(
+    () => (rawPayload ? validateBookingPayload(rawPayload) : null),
+    [rawPayload]
   );
-  const [payload, setPayload] = useState<BookingPayload | null>(initialPayload);
-  const [loading, setLoading] = useState<boolean>(() => !initialPayload);
-
-  const loadBridgePayload = useCallback(async (): Promise<BookingPayload | null> => {
-    const bridge = window.openai as OpenAIBridge | undefined;
-    if (!bridge) return null;
-
-    const bridgeRecord = bridge as Record<string, unknown>;
-    const candidates: unknown[] = [];
-    const seen = new Set<unknown>();
-
-    const addCandidate = (value: unknown) => {
-      if (typeof value === "undefined") return;
-      if (seen.has(value)) return;
-      seen.add(value);
-      candidates.push(value);
-    };
-
-    for (const key of BRIDGE_STATIC_KEYS) {
-      addCandidate(bridgeRecord[key]);
-    }
+  const [optimisticStatus, setOptimisticStatus] = useState<string | null>(null);
+  const [confirmState, setConfirmState] = useState<ConfirmState>({ status: "idle" });
+  const payload: BookingPayload | null = useMemo(() => {
+    const validated = validation?.value ?? null;
+    if (!validated || !optimisticStatus) return validated;
+    return { ...validated, status: optimisticStatus };
+  }, [optimisticStatus, validation]);
+  const invalidPayload = Boolean(validation && !validation.value);
 
-    for (const methodName of BRIDGE_METHODS) {
-      const method = bridge[methodName];
-      if (typeof method !== "function") continue;
-      try {
-        addCandidate(await method.call(bridge));
-      } catch {
-        // Bridge methods can be absent/fail depending on host lifecycle.
-      }
-    }
-
-    for (const [key, value] of Object.entries(bridgeRecord)) {
-      if (key.startsWith("_")) continue;
-      if (typeof value === "function") continue;
-      if (BRIDGE_STATIC_KEYS.includes(key as (typeof BRIDGE_STATIC_KEYS)[number])) {
-        continue;
+  useEffect(() => {
+    if (!validation || validation.issues.length === 0) return;
+    console.warn("[BookingCardWidget] Payload validation issues:", validation.issues);
+  }, [validation]);
+
+  const onConfirm = useCallback(async () => {
+    const bookingId = payload?.booking_id;
+    if (!bookingId || !rawPayload) return;
+
+    setOptimisticStatus("confirmed");
+    setConfirmState({ status: "pending" });
+
+    try {
+      const result = await callTool("confirm_booking", {
+        booking_id: bookingId,
+        // Confirm is gated on the policy dialog whenever a policy exists.
+        policy_acknowledged: hasPolicyContent(payload?.policy) ? true : undefined,
+      });
+      const toolError = readToolError(result);
+      if (toolError) {
+        setOptimisticStatus(null);
+        setConfirmState({ status: "failed", error: toolError });
+        return;
       }
-      addCandidate(value);
-    }
 
-    for (const candidate of candidates) {
-      const extracted = extractBookingPayload(candidate);
-      if (extracted) return extracted;
+      setPayload(extractBookingPayload(result) ?? { ...rawPayload, status: "confirmed" });
+      setOptimisticStatus(null);
+      setConfirmState({ status: "idle" });
+    } catch (error) {
+      console.error("[BookingCardWidget] confirm_booking failed:", error);
+      setOptimisticStatus(null);
+      setConfirmState({
+        status: "failed",
+        error: error instanceof Error ? error.message : undefined,
+      });
     }
-    return null;
-  }, []);
-
-  useEffect(() => {
-    if (payload) {
-      setLoading(false);
+  }, [payload?.booking_id, payload?.policy, rawPayload, setPayload]);
+
+  const [widgetState, setWidgetState] = useWidgetState<BookingWidgetState>({
+    key: `booking:${payload?.booking_id ?? "pending"}`,
+    version: WIDGET_STATE_VERSION,
+    defaults: DEFAULT_WIDGET_STATE,
+  });
+  const [policyDialog, setPolicyDialog] = useState<PolicyDialogMode>("closed");
+  const hasPolicy = hasPolicyContent(payload?.policy);
+
+  const requestConfirm = useCallback(() => {
+    if (hasPolicy && !widgetState.policyAcknowledged) {
+      setPolicyDialog("confirm");
       return;
     }
+    void onConfirm();
+  }, [hasPolicy, onConfirm, widgetState.policyAcknowledged]);
 
-    let cancelled = false;
-    let attempts = 0;
-    let timeoutId: ReturnType<typeof setTimeout> | null = null;
+  const onAcceptPolicy = useCallback(() => {
+    setWidgetState({ policyAcknowledged: true });
+    setPolicyDialog("closed");
+    if (policyDialog === "confirm") void onConfirm();
+  }, [onConfirm, policyDialog, setWidgetState]);
 
-    const pollBridge = async () => {
-      if (cancelled) return;
-      const extracted = await loadBridgePayload();
-      if (cancelled) return;
+  const onOpenFromSummary = useCallback(() => {
+    void requestDisplayMode("inline");
+  }, []);
 
-      if (extracted) {
-        setPayload(extracted);
-        setLoading(false);
+  // Changes are quoted first (`preview: true`), and only committed once the
+  // guest has seen the new price or the cancellation fee.
+  const [change, setChange] = useState<BookingChangeState | null>(null);
+  const changeRequestRef = useRef<AbortController | null>(null);
+  useEffect(() => () => changeRequestRef.current?.abort(), []);
+
+  const quoteChange = useCallback(
+    async (kind: BookingChangeKind, draft: BookingChangeDraft) => {
+      const bookingId = payload?.booking_id;
+      if (!bookingId) return;
+      changeRequestRef.current?.abort();
+      const controller = new AbortController();
+      changeRequestRef.current = controller;
+      setChange({ kind, status: "quoting", draft });
+
+      const fail = (error: string) =>
+        // A failed cancellation quote stays on review with nothing to accept.
+        setChange({ kind, status: kind === "cancel" ? "review" : "editing", draft, error });
+
+      try {
+        const result = await callTool(
+          CHANGE_TOOLS[kind],
+          { ...changeArgs(bookingId, kind, draft), preview: true },
+          { signal: controller.signal }
+        );
+        if (controller.signal.aborted) return;
+        const toolError = readToolError(result);
+        if (toolError) {
+          fail(toolError);
+          return;
+        }
+        const quote = validateBookingPayload(extractBookingPayload(result)).value;
+        if (!quote) {
+          fail(t("change.quoteError"));
+          return;
+        }
+        setChange({ kind, status: "review", draft, quote });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error(`[BookingCardWidget] ${CHANGE_TOOLS[kind]} preview failed:`, error);
+        fail(t("change.quoteError"));
+      }
+    },
+    [payload?.booking_id, t]
+  );
+
+  const commitChange = useCallback(async () => {
+    const bookingId = payload?.booking_id;
+    if (!bookingId || !rawPayload || !change?.quote) return;
+    const { kind, draft, quote } = change;
+    setChange({ ...change, status: "committing", error: undefined });
+
+    // Not abortable: the host may apply the change even if we stop listening,
+    // so the card always waits for the result. A timeout leaves the outcome
+    // unknown, so the booking is fetched again before a retry is offered.
+    const errorKey = kind === "cancel" ? "change.cancelError" : "change.applyError";
+    try {
+      const result = await callTool(CHANGE_TOOLS[kind], changeArgs(bookingId, kind, draft));
+      const toolError = readToolError(result);
+      if (toolError) {
+        setChange({ ...change, status: "review", error: toolError });
         return;
       }
 
-      attempts += 1;
-      if (attempts < MAX_BRIDGE_ATTEMPTS_FAST) {
-        timeoutId = setTimeout(pollBridge, BRIDGE_POLL_INTERVAL_FAST);
-      } else if (
-        attempts <
-        MAX_BRIDGE_ATTEMPTS_FAST + MAX_BRIDGE_ATTEMPTS_SLOW
-      ) {
-        timeoutId = setTimeout(pollBridge, BRIDGE_POLL_INTERVAL_SLOW);
+      setPayload(
+        extractBookingPayload(result) ?? {
+          ...rawPayload,
+          ...quote,
+          ...(kind === "cancel" ? { status: "cancelled" } : {}),
+        }
+      );
+      setChange(null);
+    } catch (error) {
+      if (error instanceof ToolCallError && error.reason === "timeout") {
+        console.warn(`[BookingCardWidget] ${CHANGE_TOOLS[kind]} timed out; reloading the booking.`);
+        const latest = await fetchBooking(bookingId);
+        if (latest) setPayload(latest);
+        if (latest && showsChange(latest, kind, draft)) {
+          setChange(null);
+        } else {
+          setChange({ ...change, status: "review", error: t("change.outcomeUnknown") });
+        }
+        return;
+      }
+      console.error(`[BookingCardWidget] ${CHANGE_TOOLS[kind]} failed:`, error);
+      setChange({ ...change, status: "review", error: t(errorKey) });
+    }
+  }, [change, payload?.booking_id, rawPayload, setPayload, t]);
+
+  const onChangeBooking = useCallback(
+    (kind: BookingChangeKind) => {
+      if (!payload) return;
+      const draft = draftFromBooking(payload);
+      if (kind === "cancel") {
+        void quoteChange(kind, draft);
       } else {
-        setLoading(false);
+        setChange({ kind, status: "editing", draft });
       }
-    };
-
-    const onMessage = (event: MessageEvent) => {
-      if (cancelled) return;
-      const extracted = extractBookingPayload(event.data);
-      if (!extracted) return;
-      setPayload(extracted);
-      setLoading(false);
-    };
-
-    window.addEventListener("message", onMessage);
-    pollBridge();
-
-    return () => {
-      cancelled = true;
-      if (timeoutId) clearTimeout(timeoutId);
-      window.removeEventListener("message", onMessage);
-    };
-  }, [loadBridgePayload, payload]);
+    },
+    [payload, quoteChange]
+  );
+
+  const onEditChange = useCallback(() => {
+    setChange((current) => current && { ...current, status: "editing", quote: undefined });
+  }, []);
+
+  // Only a preview is abandoned on close; a commit in flight keeps the dialog open.
+  const committing = change?.status === "committing";
+  const onCloseChange = useCallback(() => {
+    if (committing) return;
+    changeRequestRef.current?.abort();
+    setChange(null);
+  }, [committing]);
 
   return (
-    <main className="bc-wrap">
+    <main
+      className={`bc-wrap bc-wrap--${displayMode}`}
+      style={displayMode !== "fullscreen" && maxHeight ? { maxHeight } : undefined}
+    >
       {loading && (
-        <div className="skeleton skeleton--booking-card" />
+        <div role="status" aria-busy="true">
+          <span className="visually-hidden">{t("a11y.loadingBooking")}</span>
+          <div className="skeleton skeleton--booking-card" aria-hidden="true" />
+        </div>
       )}
 
       {!loading && payload?.error && (
@@ -454,12 +353,63 @@ export function BookingCardWidget() {
       )}
 
       {!loading && !payload?.error && payload && (
-        <BookingCard payload={payload} />
+        <>
+          {validation && validation.issues.length > 0 && (
+            <p className="widget-notice" role="status">
+              {t("booking.partial")}
+            </p>
+          )}
+          {displayMode === "pip" ? (
+            <BookingSummary
+              payload={payload}
+              confirmState={confirmState}
+              onConfirm={requestConfirm}
+              onOpen={onOpenFromSummary}
+            />
+          ) : (
+            <BookingCard
+              payload={payload}
+              confirmState={confirmState}
+              onConfirm={requestConfirm}
+              onShowTerms={hasPolicy ? () => setPolicyDialog("review") : undefined}
+              onChangeBooking={onChangeBooking}
+            />
+          )}
+          <BookingChangeDialog
+            key={payload.booking_id}
+            booking={payload}
+            change={change}
+            formatMoney={(value) => formatMoney(value, bookingCurrency(payload), locale)}
+            onQuote={(draft) => change && void quoteChange(change.kind, draft)}
+            onEdit={onEditChange}
+            onCommit={() => void commitChange()}
+            onClose={onCloseChange}
+          />
+          {payload.policy && hasPolicy && (
+            <PolicyDialog
+              open={policyDialog !== "closed"}
+              policy={payload.policy}
+              acknowledged={widgetState.policyAcknowledged}
+              acceptLabel={t(
+                policyDialog === "confirm" ? "policy.agreeAndConfirm" : "policy.agree"
+              )}
+              formatMoney={(value) => formatMoney(value, bookingCurrency(payload), locale)}
+              onAccept={onAcceptPolicy}
+              onClose={() => setPolicyDialog("closed")}
+            />
+          )}
+        </>
+      )}
+
+      {!loading && invalidPayload && (
+        <div className="widget-alert" role="alert">
+          {t("booking.malformed")}
+        </div>
       )}
 
-      {!loading && !payload?.error && !payload && (
+      {!loading && !payload?.error && !payload && !invalidPayload && (
         <div className="widget-alert" role="alert">
-          No booking data available.
+          {t("booking.empty")}
         </div>
       )}
     </main>
@@ -0,0 +1,352 @@
+import { useEffect, useId, useRef, useState, type FormEvent } from "react";
+
+import type { MessageKey } from "../i18n/catalog";
+import { useI18n } from "../i18n/I18nProvider";
+import type { BookingPayload } from "../openai";
+import { useFocusOnMessage, useReturnFocus } from "./a11y";
+import { addDays, MAX_GUESTS, MIN_GUESTS, todayIsoDate, validateCriteria } from "./dates";
+import { formatPolicyDeadline } from "./PolicyDialog";
+
+export type BookingChangeKind = "dates" | "guests" | "cancel";
+
+export type BookingChangeDraft = {
+  check_in: string;
+  check_out: string;
+  guests: number;
+};
+
+/**
+ * A change moves from `editing` (skipped for cancellation) to `quoting`, then
+ * `review` with the tool's quote, and `committing` once the guest accepts it.
+ */
+export type BookingChangeState = {
+  kind: BookingChangeKind;
+  status: "editing" | "quoting" | "review" | "committing";
+  draft: BookingChangeDraft;
+  quote?: BookingPayload;
+  error?: string;
+};
+
+export const BOOKING_CHANGE_LABELS: Record<BookingChangeKind, MessageKey> = {
+  dates: "change.dates",
+  guests: "change.guests",
+  cancel: "change.cancel",
+};
+
+export const draftFromBooking = (booking: BookingPayload): BookingChangeDraft => ({
+  check_in: booking.check_in ?? "",
+  check_out: booking.check_out ?? "",
+  guests: booking.guests ?? MIN_GUESTS,
+});
+
+type PriceComparisonProps = {
+  current: BookingPayload;
+  quote: BookingPayload;
+  formatMoney: (value: number) => string;
+};
+
+function PriceComparison({ current, quote, formatMoney }: PriceComparisonProps) {
+  const { t } = useI18n();
+  const rows: { label: MessageKey; key: "subtotal" | "taxes" | "total" }[] = [
+    { label: "booking.subtotal", key: "subtotal" },
+    { label: "booking.taxes", key: "taxes" },
+    { label: "booking.total", key: "total" },
+  ];
+  const difference = (quote.total ?? 0) - (current.total ?? 0);
+
+  return (
+    <>
+      <table className="bc-change__table">
+        <thead>
+          <tr>
+            <td />
+            <th scope="col">{t("change.current")}</th>
+            <th scope="col">{t("change.new")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, key }) => (
+            <tr key={key} className={key === "total" ? "bc-change__total" : undefined}>
+              <th scope="row">{t(label)}</th>
+              <td>{formatMoney(current[key] ?? 0)}</td>
+              <td>{formatMoney(quote[key] ?? 0)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="bc-change__difference">
+        {difference > 0
+          ? t("change.payMore", { amount: formatMoney(difference) })
+          : difference < 0
+            ? t("change.payLess", { amount: formatMoney(-difference) })
+            : t("change.samePrice")}
+      </p>
+    </>
+  );
+}
+
+type BookingChangeDialogProps = {
+  booking: BookingPayload;
+  change: BookingChangeState | null;
+  formatMoney: (value: number) => string;
+  onQuote: (draft: BookingChangeDraft) => void;
+  onEdit: () => void;
+  onCommit: () => void;
+  onClose: () => void;
+};
+
+export function BookingChangeDialog({
+  booking,
+  change,
+  formatMoney,
+  onQuote,
+  onEdit,
+  onCommit,
+  onClose,
+}: BookingChangeDialogProps) {
+  const { locale, t, formatDateRange, formatNumber } = useI18n();
+  const id = useId();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const open = change !== null;
+  const [draft, setDraft] = useState<BookingChangeDraft>(() => draftFromBooking(booking));
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) {
+      dialog.showModal();
+    } else if (!open && dialog.open) {
+      dialog.close();
+    }
+  }, [open]);
+  useReturnFocus(open);
+
+  // Each change starts from the draft the widget opened it with, and a
+  // different booking never inherits the previous one's edits.
+  const kind = change?.kind;
+  const changeDraft = change?.draft;
+  useEffect(() => {
+    if (!changeDraft) return;
+    setDraft(changeDraft);
+    setValidationError(null);
+  }, [kind, booking.booking_id]);
+
+  const message = validationError ?? change?.error;
+  const errorRef = useFocusOnMessage<HTMLParagraphElement>(message);
+
+  const update = (patch: Partial<BookingChangeDraft>) => {
+    setValidationError(null);
+    setDraft((current) => {
+      const next = { ...current, ...patch };
+      if (patch.check_in && next.check_out && next.check_out <= patch.check_in) {
+        next.check_out = addDays(patch.check_in, 1);
+      }
+      return next;
+    });
+  };
+
+  const current = draftFromBooking(booking);
+  const dirty =
+    kind === "dates"
+      ? draft.check_in !== current.check_in || draft.check_out !== current.check_out
+      : draft.guests !== current.guests;
+  const maxGuests = booking.max_guests ?? MAX_GUESTS;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const problem = kind === "dates" ? validateCriteria(draft, t) : null;
+    setValidationError(problem);
+    if (!problem) onQuote(draft);
+  };
+
+  const busy = change?.status === "quoting" || change?.status === "committing";
+  const quote = change?.quote;
+  const penalty = quote?.cancellation?.penalty_amount ?? 0;
+  const refund = quote?.cancellation?.refund_amount;
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="bc-dialog bc-change"
+      aria-labelledby={`${id}-title`}
+      aria-busy={busy}
+      onCancel={(event) => {
+        // Closing mid-commit would hide whether the change went through.
+        if (change?.status === "committing") event.preventDefault();
+      }}
+      onClose={onClose}
+    >
+      {change && (
+        <>
+          <h3 className="bc-dialog__title" id={`${id}-title`}>
+            {t(BOOKING_CHANGE_LABELS[change.kind])}
+          </h3>
+
+          {change.kind !== "cancel" && change.status === "editing" && (
+            <form id={`${id}-form`} className="bc-change__form" onSubmit={handleSubmit} noValidate>
+              {change.kind === "dates" ? (
+                <div className="bc-change__dates">
+                  <label className="guest-form__field" htmlFor={`${id}-check-in`}>
+                    <span>{t("common.checkIn")}</span>
+                    <input
+                      id={`${id}-check-in`}
+                      type="date"
+                      min={todayIsoDate()}
+                      value={draft.check_in}
+                      onChange={(event) => update({ check_in: event.target.value })}
+                    />
+                  </label>
+                  <label className="guest-form__field" htmlFor={`${id}-check-out`}>
+                    <span>{t("common.checkOut")}</span>
+                    <input
+                      id={`${id}-check-out`}
+                      type="date"
+                      min={draft.check_in ? addDays(draft.check_in, 1) : todayIsoDate()}
+                      value={draft.check_out}
+                      onChange={(event) => update({ check_out: event.target.value })}
+                    />
+                  </label>
+                </div>
+              ) : (
+                <div className="guest-form__field">
+                  <span id={`${id}-guests`}>{t("criteria.guests")}</span>
+                  <div
+                    className="criteria-bar__stepper"
+                    role="group"
+                    aria-labelledby={`${id}-guests`}
+                  >
+                    <button
+                      type="button"
+                      aria-label={t("criteria.fewerGuests")}
+                      disabled={draft.guests <= MIN_GUESTS}
+                      onClick={() => update({ guests: Math.max(MIN_GUESTS, draft.guests - 1) })}
+                    >
+                      −
+                    </button>
+                    <output aria-live="polite">{formatNumber(draft.guests)}</output>
+                    <button
+                      type="button"
+                      aria-label={t("criteria.moreGuests")}
+                      disabled={draft.guests >= maxGuests}
+                      onClick={() => update({ guests: Math.min(maxGuests, draft.guests + 1) })}
+                    >
+                      +
+                    </button>
+                  </div>
+                </div>
+              )}
+            </form>
+          )}
+
+          {change.status === "quoting" && (
+            <p className="bc-dialog__text" role="status">
+              {t(change.kind === "cancel" ? "change.cancelQuoting" : "change.quoting")}
+            </p>
+          )}
+
+          {quote && change.kind !== "cancel" && change.status !== "quoting" && (
+            <section className="bc-dialog__section" aria-label={t("booking.priceBreakdown")}>
+              <p className="bc-dialog__text">
+                {change.kind === "dates"
+                  ? t("change.newDates", {
+                      dates: formatDateRange(quote.check_in, quote.check_out),
+                    })
+                  : t("change.newGuests", {
+                      guests: t("common.guests", { count: quote.guests ?? draft.guests }),
+                    })}
+              </p>
+              <PriceComparison current={booking} quote={quote} formatMoney={formatMoney} />
+            </section>
+          )}
+
+          {quote && change.kind === "cancel" && change.status !== "quoting" && (
+            <section className="bc-dialog__section" aria-label={t("change.cancelTerms")}>
+              <p className="bc-dialog__text">
+                {penalty > 0
+                  ? t("change.cancelPenalty", { amount: formatMoney(penalty) })
+                  : t("change.cancelFree")}
+              </p>
+              <ul className="bc-dialog__list">
+                <li>
+                  <span>{t("change.cancelFee")}</span>
+                  <span>{formatMoney(penalty)}</span>
+                </li>
+                {typeof refund === "number" && (
+                  <li>
+                    <span>{t("change.refund")}</span>
+                    <span>{formatMoney(refund)}</span>
+                  </li>
+                )}
+              </ul>
+              {penalty === 0 && booking.policy?.free_cancellation_until && (
+                <p className="bc-dialog__text">
+                  {t("booking.freeUntil", {
+                    deadline: formatPolicyDeadline(booking.policy.free_cancellation_until, locale),
+                  })}
+                </p>
+              )}
+            </section>
+          )}
+
+          {message && (
+            <p ref={errorRef} className="bc-error bc-change__error" role="alert" tabIndex={-1}>
+              {message}
+            </p>
+          )}
+
+          <div className="bc-dialog__actions">
+            {change.kind === "cancel" ? (
+              <button
+                type="button"
+                className="bc-secondary"
+                disabled={change.status === "committing"}
+                onClick={onClose}
+              >
+                {t("change.keep")}
+              </button>
+            ) : change.status === "review" || change.status === "committing" ? (
+              <button
+                type="button"
+                className="bc-secondary"
+                disabled={change.status === "committing"}
+                onClick={onEdit}
+              >
+                {t("change.edit")}
+              </button>
+            ) : (
+              <button type="button" className="bc-secondary" onClick={onClose}>
+                {t("common.cancel")}
+              </button>
+            )}
+
+            {change.status === "editing" || (change.kind !== "cancel" && !quote) ? (
+              <button
+                type="submit"
+                form={`${id}-form`}
+                className="bc-dialog__accept"
+                disabled={!dirty || change.status !== "editing"}
+              >
+                {t("change.review")}
+              </button>
+            ) : (
+              <button
+                type="button"
+                className={`bc-dialog__accept ${
+                  change.kind === "cancel" ? "bc-dialog__accept--danger" : ""
+                }`}
+                disabled={change.status !== "review" || !quote}
+                aria-busy={change.status === "committing"}
+                onClick={onCommit}
+              >
+                {change.kind === "cancel"
+                  ? t(change.status === "committing" ? "change.cancelling" : "change.confirmCancel")
+                  : t(change.status === "committing" ? "change.applying" : "change.apply")}
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { useI18n } from "../i18n/I18nProvider";
+import { convertMoney, formatMoney } from "../i18n/money";
+import type { ExchangeRates } from "../openai";
+
+type ConvertedPriceProps = {
+  amount: string | number | undefined;
+  /** ISO 4217 code the amount is in; nothing renders without one. */
+  currencyCode: string | undefined;
+  rates: ExchangeRates | undefined;
+  className?: string;
+};
+
+/**
+ * The amount in the user's currency, marked as approximate. Renders nothing
+ * when there are no rates, no rate for this currency, or it's already theirs.
+ */
+export function ConvertedPrice({ amount, currencyCode, rates, className }: ConvertedPriceProps) {
+  const { locale, t, formatDate } = useI18n();
+  const numeric = typeof amount === "undefined" ? undefined : Number(amount);
+  const converted = convertMoney(numeric, currencyCode, rates);
+  if (!converted) return null;
+
+  const currency = currencyCode?.trim().toUpperCase() ?? "";
+  const note = converted.asOf
+    ? t("money.approxNoteAsOf", {
+        currency,
+        date: formatDate(converted.asOf, { year: "numeric", month: "short", day: "numeric" }),
+      })
+    : t("money.approxNote", { currency });
+  const classes = ["converted-price", className].filter(Boolean).join(" ");
+
+  return (
+    <span className={classes} title={note}>
+      {t("money.approx", {
+        amount: formatMoney(converted.amount, { code: converted.currency }, locale, "whole"),
+      })}
+      <span className="visually-hidden"> ({note})</span>
+    </span>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect, useId, useRef, useState, type FormEvent } from "react";
+
+import { useI18n, type Translate } from "../i18n/I18nProvider";
+import type { SearchRoom } from "../openai";
+import { useFocusOnMessage, useReturnFocus } from "./a11y";
+
+export type GuestDetails = {
+  guest_name: string;
+  guest_email: string;
+  guest_phone: string;
+  guests: number;
+  special_requests: string;
+};
+
+type GuestDetailsErrors = Partial<Record<keyof GuestDetails, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,20}$/;
+const MAX_SPECIAL_REQUESTS_LENGTH = 500;
+
+const readText = (source: Record<string, unknown> | undefined, keys: string[]): string => {
+  for (const key of keys) {
+    const value = source?.[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return "";
+};
+
+/**
+ * Seeds the form from details the model already passed to the tool
+ * (`toolInput`), falling back to the searched guest count.
+ */
+export const prefillGuestDetails = (
+  toolInput: Record<string, unknown> | undefined,
+  searchedGuests: number | undefined
+): GuestDetails => {
+  const guestsFromInput = Number(toolInput?.guests);
+  return {
+    guest_name: readText(toolInput, ["guest_name", "name", "full_name"]),
+    guest_email: readText(toolInput, ["guest_email", "email"]),
+    guest_phone: readText(toolInput, ["guest_phone", "phone"]),
+    guests:
+      Number.isInteger(guestsFromInput) && guestsFromInput > 0
+        ? guestsFromInput
+        : searchedGuests ?? 2,
+    special_requests: readText(toolInput, ["special_requests"]),
+  };
+};
+
+export const validateGuestDetails = (
+  details: GuestDetails,
+  maxGuests: number | undefined,
+  t: Translate
+): GuestDetailsErrors => {
+  const errors: GuestDetailsErrors = {};
+
+  if (details.guest_name.trim().length < 2) {
+    errors.guest_name = t("guestForm.nameError");
+  }
+  if (!EMAIL_PATTERN.test(details.guest_email.trim())) {
+    errors.guest_email = t("guestForm.emailError");
+  }
+  if (details.guest_phone.trim() && !PHONE_PATTERN.test(details.guest_phone.trim())) {
+    errors.guest_phone = t("guestForm.phoneError");
+  }
+  if (!Number.isInteger(details.guests) || details.guests < 1) {
+    errors.guests = t("guestForm.guestsRequired");
+  } else if (maxGuests && details.guests > maxGuests) {
+    errors.guests = t("guestForm.guestsMax", { count: maxGuests });
+  }
+  if (details.special_requests.length > MAX_SPECIAL_REQUESTS_LENGTH) {
+    errors.special_requests = t("guestForm.requestsLength", {
+      max: MAX_SPECIAL_REQUESTS_LENGTH,
+    });
+  }
+
+  return errors;
+};
+
+type GuestDetailsFormProps = {
+  room: SearchRoom;
+  initialDetails: GuestDetails;
+  submitting: boolean;
+  error?: string;
+  onSubmit: (details: GuestDetails) => void;
+  onCancel: () => void;
+};
+
+export function GuestDetailsForm({
+  room,
+  initialDetails,
+  submitting,
+  error,
+  onSubmit,
+  onCancel,
+}: GuestDetailsFormProps) {
+  const { t } = useI18n();
+  const formId = useId();
+  const [details, setDetails] = useState<GuestDetails>(initialDetails);
+  const [errors, setErrors] = useState<GuestDetailsErrors>({});
+  const sectionRef = useRef<HTMLElement>(null);
+  const nameRef = useRef<HTMLInputElement>(null);
+  const alertRef = useFocusOnMessage<HTMLParagraphElement>(error);
+
+  useEffect(() => {
+    sectionRef.current?.scrollIntoView({ block: "nearest" });
+    nameRef.current?.focus({ preventScroll: true });
+  }, [room.id]);
+  useReturnFocus(true);
+
+  const update = <K extends keyof GuestDetails>(key: K, value: GuestDetails[K]) => {
+    setDetails((current) => ({ ...current, [key]: value }));
+    if (errors[key]) {
+      setErrors((current) => ({ ...current, [key]: undefined }));
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const nextErrors = validateGuestDetails(details, room.max_guests, t);
+    setErrors(nextErrors);
+    if (Object.values(nextErrors).some(Boolean)) return;
+
+    onSubmit({
+      ...details,
+      guest_name: details.guest_name.trim(),
+      guest_email: details.guest_email.trim(),
+      guest_phone: details.guest_phone.trim(),
+      special_requests: details.special_requests.trim(),
+    });
+  };
+
+  const fieldProps = (key: keyof GuestDetails) => ({
+    id: `${formId}-${key}`,
+    "aria-invalid": errors[key] ? true : undefined,
+    "aria-describedby": errors[key] ? `${formId}-${key}-error` : undefined,
+  });
+
+  const fieldError = (key: keyof GuestDetails) =>
+    errors[key] ? (
+      <span className="guest-form__error" id={`${formId}-${key}-error`}>
+        {errors[key]}
+      </span>
+    ) : null;
+
+  return (
+    <section ref={sectionRef} className="guest-form" aria-labelledby={`${formId}-title`}>
+      <h3 className="guest-form__title" id={`${formId}-title`}>
+        {t("guestForm.title", { name: room.name })}
+      </h3>
+
+      <form className="guest-form__grid" onSubmit={handleSubmit} noValidate>
+        <label className="guest-form__field" htmlFor={`${formId}-guest_name`}>
+          <span>{t("guestForm.name")}</span>
+          <input
+            ref={nameRef}
+            type="text"
+            autoComplete="name"
+            value={details.guest_name}
+            onChange={(event) => update("guest_name", event.target.value)}
+            {...fieldProps("guest_name")}
+          />
+          {fieldError("guest_name")}
+        </label>
+
+        <label className="guest-form__field" htmlFor={`${formId}-guest_email`}>
+          <span>{t("guestForm.email")}</span>
+          <input
+            type="email"
+            autoComplete="email"
+            value={details.guest_email}
+            onChange={(event) => update("guest_email", event.target.value)}
+            {...fieldProps("guest_email")}
+          />
+          {fieldError("guest_email")}
+        </label>
+
+        <label className="guest-form__field" htmlFor={`${formId}-guest_phone`}>
+          <span>{t("guestForm.phone")}</span>
+          <input
+            type="tel"
+            autoComplete="tel"
+            value={details.guest_phone}
+            onChange={(event) => update("guest_phone", event.target.value)}
+            {...fieldProps("guest_phone")}
+          />
+          {fieldError("guest_phone")}
+        </label>
+
+        <label className="guest-form__field" htmlFor={`${formId}-guests`}>
+          <span>{t("guestForm.guests")}</span>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={room.max_guests}
+            value={Number.isFinite(details.guests) ? details.guests : ""}
+            onChange={(event) => update("guests", event.target.valueAsNumber)}
+            {...fieldProps("guests")}
+          />
+          {fieldError("guests")}
+        </label>
+
+        <label
+          className="guest-form__field guest-form__field--wide"
+          htmlFor={`${formId}-special_requests`}
+        >
+          <span>{t("guestForm.requests")}</span>
+          <textarea
+            rows={3}
+            maxLength={MAX_SPECIAL_REQUESTS_LENGTH}
+            value={details.special_requests}
+            onChange={(event) => update("special_requests", event.target.value)}
+            {...fieldProps("special_requests")}
+          />
+          {fieldError("special_requests")}
+        </label>
+
+        {error && (
+          <p
+            ref={alertRef}
+            className="guest-form__alert guest-form__field--wide"
+            role="alert"
+            tabIndex={-1}
+          >
+            {error}
+          </p>
+        )}
+
+        <div className="guest-form__actions">
+          <button type="button" className="guest-form__cancel" onClick={onCancel}>
+            {t("common.cancel")}
+          </button>
+          <button
+            type="submit"
+            className="guest-form__submit"
+            disabled={submitting}
+            aria-busy={submitting}
+          >
+            {t(submitting ? "reserve.pending" : "guestForm.submit")}
+          </button>
+        </div>
+      </form>
+    </section>
+  );
+}
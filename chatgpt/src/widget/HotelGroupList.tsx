@@ -0,0 +1,236 @@
+import { useId } from "react";
+
+import { useI18n } from "../i18n/I18nProvider";
+import type { ExchangeRates, SearchHotel, SearchRoom } from "../openai";
+import { ConvertedPrice } from "./ConvertedPrice";
+import { isCompareDisabled, type CompareSelection } from "./RoomComparison";
+import {
+  formatPrice,
+  RESERVE_LABELS,
+  resolveImageSource,
+  type ReservationState,
+} from "./roomDisplay";
+
+export type HotelGroup = {
+  key: string;
+  hotel: SearchHotel;
+  rooms: SearchRoom[];
+};
+
+/** Buckets the (already filtered and sorted) rooms under the hotel they came from. */
+export const groupRoomsByHotel = (
+  hotels: SearchHotel[],
+  rooms: SearchRoom[]
+): HotelGroup[] =>
+  hotels.flatMap((hotel, index) => {
+    const roomIds = new Set((hotel.matching_rooms ?? []).map((room) => room.id));
+    const hotelRooms = rooms.filter((room) => roomIds.has(room.id));
+    if (hotelRooms.length === 0) return [];
+    return [{ key: hotel.property_id ?? `hotel-${index}`, hotel, rooms: hotelRooms }];
+  });
+
+type HotelRoomRowProps = {
+  room: SearchRoom;
+  reservation: ReservationState | null;
+  onBookNow: (room: SearchRoom) => void;
+  onOpenDetails: (room: SearchRoom) => void;
+  compare: CompareSelection;
+  rates?: ExchangeRates;
+};
+
+function HotelRoomRow({
+  room,
+  reservation,
+  onBookNow,
+  onOpenDetails,
+  compare,
+  rates,
+}: HotelRoomRowProps) {
+  const { locale, t } = useI18n();
+  const imageSrc = resolveImageSource(room);
+  const status = reservation?.status;
+  const comparing = compare.roomIds.includes(room.id);
+  const details = [
+    room.type,
+    room.max_guests ? t("hotels.sleeps", { count: room.max_guests }) : null,
+  ].filter(Boolean);
+
+  return (
+    <li className="hotel-room-row">
+      {imageSrc ? (
+        <img className="hotel-room-row__thumb" src={imageSrc} alt="" />
+      ) : (
+        <span className="hotel-room-row__thumb hotel-room-row__thumb--fallback" aria-hidden="true" />
+      )}
+      <div className="hotel-room-row__body">
+        <button
+          type="button"
+          className="hotel-room-row__name"
+          aria-haspopup="dialog"
+          onClick={() => onOpenDetails(room)}
+        >
+          {room.name}
+        </button>
+        {details.length > 0 && (
+          <span className="hotel-room-row__meta">{details.join(" · ")}</span>
+        )}
+        <button
+          type="button"
+          className={
+            comparing
+              ? "hotel-room-row__compare hotel-room-row__compare--active"
+              : "hotel-room-row__compare"
+          }
+          aria-pressed={comparing}
+          aria-label={t("card.compareLabel", { name: room.name })}
+          disabled={isCompareDisabled(compare, room)}
+          onClick={() => compare.onToggle(room)}
+        >
+          {comparing ? t("card.comparing") : t("card.compare")}
+        </button>
+      </div>
+      <span className="hotel-room-row__price">
+        {formatPrice(room.price_per_night, room.currency_display, room.currency_code, locale)}
+        <span className="hotel-room-row__per"> {t("common.perNight")}</span>
+        <ConvertedPrice
+          className="hotel-room-row__converted"
+          amount={room.price_per_night}
+          currencyCode={room.currency_code}
+          rates={rates}
+        />
+      </span>
+      <button
+        type="button"
+        className={
+          status === "reserved" || status === "selected"
+            ? "hotel-room-row__reserve hotel-room-row__reserve--selected"
+            : "hotel-room-row__reserve"
+        }
+        disabled={status === "pending"}
+        aria-busy={status === "pending"}
+        onClick={() => onBookNow(room)}
+      >
+        {t(status ? RESERVE_LABELS[status] : "reserve.short")}
+      </button>
+    </li>
+  );
+}
+
+type HotelSectionProps = {
+  group: HotelGroup;
+  collapsed: boolean;
+  reservation: ReservationState | null;
+  onToggle: (key: string) => void;
+  onBookNow: (room: SearchRoom) => void;
+  onOpenDetails: (room: SearchRoom) => void;
+  compare: CompareSelection;
+  rates?: ExchangeRates;
+};
+
+function HotelSection({
+  group,
+  collapsed,
+  reservation,
+  onToggle,
+  onBookNow,
+  onOpenDetails,
+  compare,
+  rates,
+}: HotelSectionProps) {
+  const { locale, t } = useI18n();
+  const panelId = useId();
+  const { hotel, rooms } = group;
+  const hasFromPrice = typeof hotel.min_price_per_night === "number";
+
+  return (
+    <section className="hotel-group">
+      <h3 className="hotel-group__heading">
+        <button
+          type="button"
+          className="hotel-group__toggle"
+          aria-expanded={!collapsed}
+          aria-controls={panelId}
+          onClick={() => onToggle(group.key)}
+        >
+          <span className="hotel-group__name">
+            {hotel.property_name?.trim() || t("common.hotel")}
+          </span>
+          <span className="hotel-group__meta">
+            {hasFromPrice && (
+              <span className="hotel-group__from">
+                {t("hotels.from", {
+                  price: formatPrice(
+                    hotel.min_price_per_night,
+                    hotel.min_price_currency_display,
+                    hotel.min_price_currency_code,
+                    locale
+                  ),
+                })}
+              </span>
+            )}
+            <span>{t("hotels.matching", { count: rooms.length })}</span>
+          </span>
+          <svg className="hotel-group__chevron" viewBox="0 0 24 24" aria-hidden="true">
+            <path d="M6 9l6 6 6-6" fill="none" stroke="currentColor" strokeWidth="2" />
+          </svg>
+        </button>
+      </h3>
+
+      <ul className="hotel-group__rooms" id={panelId} hidden={collapsed}>
+        {rooms.map((room) => (
+          <HotelRoomRow
+            key={room.id}
+            room={room}
+            reservation={reservation?.roomId === room.id ? reservation : null}
+            onBookNow={onBookNow}
+            onOpenDetails={onOpenDetails}
+            compare={compare}
+            rates={rates}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+type HotelGroupListProps = {
+  groups: HotelGroup[];
+  collapsedKeys: string[];
+  reservation: ReservationState | null;
+  busy: boolean;
+  onToggle: (key: string) => void;
+  onBookNow: (room: SearchRoom) => void;
+  onOpenDetails: (room: SearchRoom) => void;
+  compare: CompareSelection;
+  rates?: ExchangeRates;
+};
+
+export function HotelGroupList({
+  groups,
+  collapsedKeys,
+  reservation,
+  busy,
+  onToggle,
+  onBookNow,
+  onOpenDetails,
+  compare,
+  rates,
+}: HotelGroupListProps) {
+  return (
+    <div className="hotel-groups" aria-busy={busy}>
+      {groups.map((group) => (
+        <HotelSection
+          key={group.key}
+          group={group}
+          collapsed={collapsedKeys.includes(group.key)}
+          reservation={reservation}
+          onToggle={onToggle}
+          onBookNow={onBookNow}
+          onOpenDetails={onOpenDetails}
+          compare={compare}
+          rates={rates}
+        />
+      ))}
+    </div>
+  );
+}
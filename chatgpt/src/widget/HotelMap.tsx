@@ -0,0 +1,212 @@
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+
+import type { BootstrapData } from "../bridge/client";
+import { useI18n } from "../i18n/I18nProvider";
+import type { HotelGroup } from "./HotelGroupList";
+import {
+  fitViewport,
+  projectToViewport,
+  TILE_SIZE,
+  tilesForViewport,
+  type GeoPoint,
+} from "./mapProjection";
+import { formatPrice } from "./roomDisplay";
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 400;
+const MAP_PADDING = 56;
+
+type MapTiles = NonNullable<BootstrapData["map"]>;
+
+const locate = (group: HotelGroup): GeoPoint | null => {
+  const { latitude, longitude } = group.hotel;
+  return typeof latitude === "number" && typeof longitude === "number"
+    ? { latitude, longitude }
+    : null;
+};
+
+/** Only https tile templates are used; anything else falls back to the offline grid. */
+const resolveTileUrl = (tiles: MapTiles | undefined): string | null => {
+  const template = tiles?.tileUrl?.trim();
+  return template?.startsWith("https://") ? template : null;
+};
+
+const groupPrice = (group: HotelGroup, locale: string): string | null =>
+  typeof group.hotel.min_price_per_night === "number"
+    ? formatPrice(
+        group.hotel.min_price_per_night,
+        group.hotel.min_price_currency_display,
+        group.hotel.min_price_currency_code,
+        locale
+      )
+    : null;
+
+export const hasHotelLocations = (groups: HotelGroup[]): boolean =>
+  groups.some((group) => locate(group) !== null);
+
+type HotelMapProps = {
+  groups: HotelGroup[];
+  tiles?: MapTiles;
+  onShowRooms: (key: string) => void;
+};
+
+export function HotelMap({ groups, tiles, onShowRooms }: HotelMapProps) {
+  const { locale, t } = useI18n();
+  const id = useId();
+  const gridPatternId = `${id.replace(/:/g, "")}-grid`;
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const listRef = useRef<HTMLOListElement>(null);
+
+  const located = useMemo(
+    () =>
+      groups.flatMap((group) => {
+        const point = locate(group);
+        return point ? [{ group, point }] : [];
+      }),
+    [groups]
+  );
+
+  const viewport = useMemo(
+    () =>
+      fitViewport(
+        located.map((item) => item.point),
+        MAP_WIDTH,
+        MAP_HEIGHT,
+        MAP_PADDING
+      ),
+    [located]
+  );
+
+  const tileUrl = resolveTileUrl(tiles);
+  const mapTiles = useMemo(
+    () => (viewport && tileUrl ? tilesForViewport(viewport, tileUrl) : []),
+    [tileUrl, viewport]
+  );
+
+  useEffect(() => {
+    if (!activeKey) return;
+    const item = listRef.current?.querySelector<HTMLElement>(
+      `[data-hotel-key="${CSS.escape(activeKey)}"]`
+    );
+    item?.scrollIntoView({ block: "nearest" });
+  }, [activeKey]);
+
+  return (
+    <div className="hotel-map">
+      <div className="hotel-map__canvas">
+        {viewport ? (
+          <>
+            <svg
+              className="hotel-map__surface"
+              viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+              aria-hidden="true"
+            >
+              <defs>
+                <pattern
+                  id={gridPatternId}
+                  width={TILE_SIZE / 4}
+                  height={TILE_SIZE / 4}
+                  patternUnits="userSpaceOnUse"
+                  x={-viewport.originX % (TILE_SIZE / 4)}
+                  y={-viewport.originY % (TILE_SIZE / 4)}
+                >
+                  <path
+                    d={`M ${TILE_SIZE / 4} 0 L 0 0 0 ${TILE_SIZE / 4}`}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="1"
+                  />
+                </pattern>
+              </defs>
+              <rect className="hotel-map__land" width={MAP_WIDTH} height={MAP_HEIGHT} />
+              <rect
+                className="hotel-map__grid"
+                width={MAP_WIDTH}
+                height={MAP_HEIGHT}
+                fill={`url(#${gridPatternId})`}
+              />
+              {mapTiles.map((tile) => (
+                <image
+                  key={tile.key}
+                  href={tile.url}
+                  x={tile.x}
+                  y={tile.y}
+                  width={TILE_SIZE}
+                  height={TILE_SIZE}
+                />
+              ))}
+            </svg>
+
+            {located.map(({ group, point }) => {
+              const position = projectToViewport(point, viewport);
+              const price = groupPrice(group, locale);
+              const name = group.hotel.property_name?.trim() || t("common.hotel");
+              const active = activeKey === group.key;
+              return (
+                <button
+                  key={group.key}
+                  type="button"
+                  className={active ? "hotel-map__pin hotel-map__pin--active" : "hotel-map__pin"}
+                  style={{
+                    left: `${(position.x / MAP_WIDTH) * 100}%`,
+                    top: `${(position.y / MAP_HEIGHT) * 100}%`,
+                  }}
+                  aria-label={price ? t("map.pin", { name, price }) : name}
+                  aria-describedby={`${id}-${group.key}`}
+                  onMouseEnter={() => setActiveKey(group.key)}
+                  onFocus={() => setActiveKey(group.key)}
+                  onClick={() => setActiveKey(group.key)}
+                >
+                  {price ?? name}
+                </button>
+              );
+            })}
+
+            {mapTiles.length > 0 && tiles?.attribution && (
+              <span className="hotel-map__attribution">{tiles.attribution}</span>
+            )}
+          </>
+        ) : (
+          <p className="hotel-map__empty">{t("map.empty")}</p>
+        )}
+      </div>
+
+      <ol className="hotel-map__list" ref={listRef} aria-label={t("map.list")}>
+        {groups.map((group) => {
+          const price = groupPrice(group, locale);
+          const active = activeKey === group.key;
+          return (
+            <li
+              key={group.key}
+              data-hotel-key={group.key}
+              className={
+                active ? "hotel-map__item hotel-map__item--active" : "hotel-map__item"
+              }
+              onMouseEnter={() => setActiveKey(group.key)}
+              onFocus={() => setActiveKey(group.key)}
+            >
+              <span className="hotel-map__name">
+                {group.hotel.property_name?.trim() || t("common.hotel")}
+              </span>
+              <span className="hotel-map__address" id={`${id}-${group.key}`}>
+                {group.hotel.address ??
+                  t(locate(group) ? "map.addressUnavailable" : "map.locationUnavailable")}
+              </span>
+              <span className="hotel-map__meta">
+                {price && <>{t("hotels.from", { price })} · </>}
+                {t("common.rooms", { count: group.rooms.length })}
+              </span>
+              <button
+                type="button"
+                className="hotel-map__rooms"
+                onClick={() => onShowRooms(group.key)}
+              >
+                {t("map.viewRooms")}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
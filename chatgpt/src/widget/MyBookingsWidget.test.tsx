@@ -0,0 +1,56 @@
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { booking, daysFromToday } from "../test/fixtures";
+import { describeWidgetStates, renderWidget } from "../test/widgetHarness";
+import { MyBookingsWidget } from "./MyBookingsWidget";
+
+const populated = {
+  count: 3,
+  bookings: [
+    booking(),
+    booking({ booking_id: "bk-2", status: "cancelled", property_name: "Harbour View Hotel" }),
+    booking({
+      booking_id: "bk-3",
+      check_in: daysFromToday(-30),
+      check_out: daysFromToday(-27),
+    }),
+  ],
+};
+
+describeWidgetStates("MyBookingsWidget", MyBookingsWidget, {
+  error: { bookings: [], error: "Your bookings couldn't be loaded." },
+  empty: { count: 0, bookings: [] },
+  malformed: { bookings: "not a list" },
+  populated,
+});
+
+describe("MyBookingsWidget keyboard", () => {
+  it("opens a booking from the keyboard and returns focus to it on the way back", async () => {
+    const user = userEvent.setup();
+    const callTool = vi.fn(async () => ({
+      structuredContent: booking({
+        booking_id: "bk-2",
+        status: "cancelled",
+        property_name: "Harbour View Hotel",
+      }),
+    }));
+    renderWidget(MyBookingsWidget, { payload: populated, host: { callTool } });
+
+    const card = screen.getByRole("button", { name: /Harbour View Hotel/ });
+    card.focus();
+    await user.keyboard("{Enter}");
+
+    const back = screen.getByRole("button", { name: "All bookings" });
+    expect(document.activeElement).toBe(back);
+    await waitFor(() =>
+      expect(callTool).toHaveBeenCalledWith("get_booking", { booking_id: "bk-2" })
+    );
+
+    await user.keyboard("{Enter}");
+    expect(document.activeElement).toBe(
+      screen.getByRole("button", { name: /Harbour View Hotel/ })
+    );
+  });
+});
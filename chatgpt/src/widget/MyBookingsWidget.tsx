@@ -0,0 +1,340 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { callTool } from "../bridge/client";
+import { hasOwn, readToolError } from "../bridge/payload";
+import { useDisplayMode, useMaxHeight } from "../bridge/useOpenAIGlobal";
+import { useToolOutput } from "../bridge/useToolOutput";
+import { useWidgetState } from "../bridge/useWidgetState";
+import { useI18n } from "../i18n/I18nProvider";
+import { formatMoney } from "../i18n/money";
+import type { BookingPayload } from "../openai";
+import {
+  countDroppedItems,
+  validateBookingListPayload,
+  validateBookingPayload,
+} from "../validation/payloads";
+import {
+  BOOKING_STATUS_LABELS,
+  BookingCard,
+  bookingCurrency,
+  resolveBookingStatus,
+} from "./BookingCard";
+import { todayIsoDate } from "./dates";
+import { extractBookingPayload, extractMyBookingsPayload } from "./toolPayloads";
+
+const WIDGET_STATE_VERSION = 1;
+
+type MyBookingsWidgetState = {
+  openBookingId: string | null;
+};
+
+const DEFAULT_WIDGET_STATE: MyBookingsWidgetState = {
+  openBookingId: null,
+};
+
+type DetailState = {
+  status: "idle" | "pending" | "failed";
+  booking?: BookingPayload;
+};
+
+/** Bookings need an id to be opened; the list falls back to the index for the React key. */
+const bookingKey = (booking: BookingPayload, index: number): string =>
+  booking.booking_id ?? `index-${index}`;
+
+/**
+ * Splits bookings into stays that haven't ended yet (soonest first) and the
+ * rest (most recent first). Cancelled bookings always count as past.
+ */
+const groupBookings = (
+  bookings: BookingPayload[],
+  today: string
+): { upcoming: BookingPayload[]; past: BookingPayload[] } => {
+  const upcoming: BookingPayload[] = [];
+  const past: BookingPayload[] = [];
+  for (const booking of bookings) {
+    const lastDay = booking.check_out ?? booking.check_in;
+    const ended = lastDay ? lastDay < today : false;
+    if (ended || resolveBookingStatus(booking.status) === "cancelled") {
+      past.push(booking);
+    } else {
+      upcoming.push(booking);
+    }
+  }
+
+  const byCheckIn = (a: BookingPayload, b: BookingPayload) =>
+    (a.check_in ?? "").localeCompare(b.check_in ?? "");
+  upcoming.sort(byCheckIn);
+  past.sort((a, b) => byCheckIn(b, a));
+  return { upcoming, past };
+};
+
+type BookingListItemProps = {
+  booking: BookingPayload;
+  onOpen: (bookingId: string) => void;
+};
+
+function BookingListItem({ booking, onOpen }: BookingListItemProps) {
+  const { locale, t, formatDateRange } = useI18n();
+  const status = resolveBookingStatus(booking.status);
+  const bookingId = booking.booking_id;
+
+  return (
+    <li className="booking-list__item">
+      <button
+        type="button"
+        className={`booking-list__card booking-list__card--${status}`}
+        disabled={!bookingId}
+        data-booking-id={bookingId}
+        onClick={() => bookingId && onOpen(bookingId)}
+      >
+        <span className={`booking-list__status booking-list__status--${status}`}>
+          {t(BOOKING_STATUS_LABELS[status])}
+        </span>
+        <span className="booking-list__title">
+          {booking.property_name || booking.room_name || t("common.room")}
+        </span>
+        {booking.property_name && booking.room_name && (
+          <span className="booking-list__room">{booking.room_name}</span>
+        )}
+        <span className="booking-list__meta">
+          <span>{formatDateRange(booking.check_in, booking.check_out)}</span>
+          {typeof booking.total === "number" && (
+            <span className="booking-list__total">
+              {formatMoney(booking.total, bookingCurrency(booking), locale)}
+            </span>
+          )}
+        </span>
+      </button>
+    </li>
+  );
+}
+
+type BookingSectionProps = {
+  title: string;
+  bookings: BookingPayload[];
+  emptyText?: string;
+  onOpen: (bookingId: string) => void;
+};
+
+function BookingSection({ title, bookings, emptyText, onOpen }: BookingSectionProps) {
+  if (bookings.length === 0 && !emptyText) return null;
+
+  return (
+    <section className="booking-list__section" aria-label={title}>
+      <h3 className="booking-list__heading">{title}</h3>
+      {bookings.length === 0 ? (
+        <p className="booking-list__empty">{emptyText}</p>
+      ) : (
+        <ul className="booking-list__items">
+          {bookings.map((booking, index) => (
+            <BookingListItem
+              key={bookingKey(booking, index)}
+              booking={booking}
+              onOpen={onOpen}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export function MyBookingsWidget() {
+  const { t } = useI18n();
+  const displayMode = useDisplayMode();
+  const maxHeight = useMaxHeight();
+  const { payload: rawPayload, loading } = useToolOutput(extractMyBookingsPayload);
+  const validation = useMemo(
+    () => (rawPayload ? validateBookingListPayload(rawPayload) : null),
+    [rawPayload]
+  );
+  const payload = validation?.value ?? null;
+  const invalidPayload = Boolean(validation && !validation.value);
+  const droppedCount = validation ? countDroppedItems(validation) : 0;
+  // `get_booking` returns one booking rather than a list: show it without the list around it.
+  const singleBooking = Boolean(rawPayload && !hasOwn(rawPayload, "bookings"));
+
+  useEffect(() => {
+    if (!validation || validation.issues.length === 0) return;
+    console.warn("[MyBookingsWidget] Payload validation issues:", validation.issues);
+  }, [validation]);
+
+  const bookings = useMemo(() => payload?.bookings ?? [], [payload]);
+  const groups = useMemo(() => groupBookings(bookings, todayIsoDate()), [bookings]);
+
+  const [widgetState, setWidgetState] = useWidgetState<MyBookingsWidgetState>({
+    key: "my-bookings",
+    version: WIDGET_STATE_VERSION,
+    defaults: DEFAULT_WIDGET_STATE,
+  });
+  const openBooking = singleBooking
+    ? bookings[0]
+    : bookings.find((booking) => booking.booking_id === widgetState.openBookingId);
+  const openBookingId = singleBooking ? undefined : openBooking?.booking_id;
+  const [details, setDetails] = useState<Record<string, DetailState>>({});
+  const detail = openBookingId ? details[openBookingId] : undefined;
+
+  // The list only carries a summary; fetch the full booking once per opened card.
+  useEffect(() => {
+    if (!openBookingId || details[openBookingId]) return;
+    const controller = new AbortController();
+    setDetails((current) => ({ ...current, [openBookingId]: { status: "pending" } }));
+
+    const load = async () => {
+      try {
+        const result = await callTool(
+          "get_booking",
+          { booking_id: openBookingId },
+          { signal: controller.signal }
+        );
+        const toolError = readToolError(result);
+        const booking = toolError
+          ? null
+          : validateBookingPayload(extractBookingPayload(result)).value;
+        if (toolError) console.warn("[MyBookingsWidget] get_booking failed:", toolError);
+        setDetails((current) => ({
+          ...current,
+          [openBookingId]: booking ? { status: "idle", booking } : { status: "failed" },
+        }));
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("[MyBookingsWidget] get_booking failed:", error);
+        setDetails((current) => ({ ...current, [openBookingId]: { status: "failed" } }));
+      }
+    };
+    void load();
+
+    return () => {
+      controller.abort();
+      // Let the next open retry a request that was cut short.
+      setDetails((current) => {
+        if (current[openBookingId]?.status !== "pending") return current;
+        const { [openBookingId]: _aborted, ...rest } = current;
+        return rest;
+      });
+    };
+    // `details` is read only to skip bookings already fetched.
+  }, [openBookingId]);
+
+  const listRef = useRef<HTMLElement>(null);
+  const backRef = useRef<HTMLButtonElement>(null);
+  const openedFromRef = useRef<string | null>(null);
+
+  const onOpen = useCallback(
+    (bookingId: string) => {
+      openedFromRef.current = bookingId;
+      setWidgetState({ openBookingId: bookingId });
+    },
+    [setWidgetState]
+  );
+  const onBack = useCallback(() => setWidgetState({ openBookingId: null }), [setWidgetState]);
+
+  // The list is hidden while a booking is open, so focus moves to the back
+  // button and, on the way back, to the card that was opened.
+  const detailOpen = Boolean(openBookingId);
+  useEffect(() => {
+    if (detailOpen) {
+      backRef.current?.focus();
+      return;
+    }
+    const bookingId = openedFromRef.current;
+    openedFromRef.current = null;
+    if (!bookingId) return;
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-booking-id="${CSS.escape(bookingId)}"]`)
+      ?.focus();
+  }, [detailOpen]);
+
+  return (
+    <main
+      className={`bc-wrap bc-wrap--${displayMode}`}
+      style={displayMode !== "fullscreen" && maxHeight ? { maxHeight } : undefined}
+    >
+      {loading && (
+        <div role="status" aria-busy="true" className="booking-list">
+          <span className="visually-hidden">{t("a11y.loadingBookings")}</span>
+          <div className="skeleton skeleton--booking-row" aria-hidden="true" />
+          <div className="skeleton skeleton--booking-row" aria-hidden="true" />
+          <div className="skeleton skeleton--booking-row" aria-hidden="true" />
+        </div>
+      )}
+
+      {!loading && payload?.error && (
+        <div className="widget-alert" role="alert">
+          {payload.error}
+        </div>
+      )}
+
+      {!loading && invalidPayload && (
+        <div className="widget-alert" role="alert">
+          {t("bookings.malformed")}
+        </div>
+      )}
+
+      {!loading && !invalidPayload && !payload?.error && singleBooking && openBooking && (
+        <BookingCard payload={openBooking} />
+      )}
+
+      {!loading && !invalidPayload && !payload?.error && !singleBooking && (
+        <>
+          <section
+            ref={listRef}
+            className="booking-list"
+            aria-label={t("bookings.label")}
+            hidden={detailOpen}
+          >
+            {droppedCount > 0 && (
+              <p className="widget-notice" role="status">
+                {t("bookings.dropped", { count: droppedCount })}
+              </p>
+            )}
+            {bookings.length === 0 ? (
+              <p className="booking-list__empty">{t("bookings.empty")}</p>
+            ) : (
+              <>
+                <h2 className="booking-list__title-main">
+                  {t("bookings.title", { count: payload?.count ?? bookings.length })}
+                </h2>
+                <BookingSection
+                  title={t("bookings.upcoming")}
+                  bookings={groups.upcoming}
+                  emptyText={t("bookings.noUpcoming")}
+                  onOpen={onOpen}
+                />
+                <BookingSection
+                  title={t("bookings.past")}
+                  bookings={groups.past}
+                  onOpen={onOpen}
+                />
+              </>
+            )}
+          </section>
+
+          {openBooking && detailOpen && (
+            <div className="booking-list__detail">
+              <button
+                ref={backRef}
+                type="button"
+                className="bc-secondary booking-list__back"
+                onClick={onBack}
+              >
+                {t("bookings.back")}
+              </button>
+              {detail?.status === "pending" && (
+                <p className="booking-list__loading" role="status">
+                  {t("bookings.loadingDetails")}
+                </p>
+              )}
+              {detail?.status === "failed" && (
+                <p className="widget-notice" role="alert">
+                  {t("bookings.detailsError")}
+                </p>
+              )}
+              <BookingCard payload={detail?.booking ?? openBooking} />
+            </div>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
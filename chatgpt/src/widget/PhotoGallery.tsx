@@ -0,0 +1,320 @@
+import {
+  useCallback,
+  useEffect,
+  useId,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type PointerEvent,
+} from "react";
+
+import { useI18n } from "../i18n/I18nProvider";
+import { useReturnFocus } from "./a11y";
+
+const SWIPE_THRESHOLD_PX = 40;
+
+const wrapIndex = (index: number, count: number): number => ((index % count) + count) % count;
+
+/**
+ * Horizontal swipe detection via pointer events, so mouse drags and touch both work.
+ * `onSwipe` gets +1 for "next", which is a leftward swipe in LTR and rightward in RTL.
+ * `consumeSwipe` lets click handlers ignore the click that ends a swipe.
+ */
+const useSwipe = (onSwipe: (direction: 1 | -1) => void) => {
+  const { dir } = useI18n();
+  const startXRef = useRef<number | null>(null);
+  const swipedRef = useRef(false);
+
+  const onPointerDown = useCallback((event: PointerEvent) => {
+    startXRef.current = event.clientX;
+    swipedRef.current = false;
+  }, []);
+
+  const onPointerUp = useCallback(
+    (event: PointerEvent) => {
+      const startX = startXRef.current;
+      startXRef.current = null;
+      if (startX === null) return;
+      const deltaX = event.clientX - startX;
+      if (Math.abs(deltaX) < SWIPE_THRESHOLD_PX) return;
+      swipedRef.current = true;
+      const leftward = deltaX < 0;
+      onSwipe(leftward === (dir === "ltr") ? 1 : -1);
+    },
+    [dir, onSwipe]
+  );
+
+  const onPointerCancel = useCallback(() => {
+    startXRef.current = null;
+  }, []);
+
+  const consumeSwipe = useCallback(() => {
+    const swiped = swipedRef.current;
+    swipedRef.current = false;
+    return swiped;
+  }, []);
+
+  return { handlers: { onPointerDown, onPointerUp, onPointerCancel }, consumeSwipe };
+};
+
+/** Arrow keys move in reading direction: ArrowRight is "next" in LTR, "previous" in RTL. */
+const arrowKeyDirection = (key: string, dir: "ltr" | "rtl"): 1 | -1 | null => {
+  if (key !== "ArrowLeft" && key !== "ArrowRight") return null;
+  return (key === "ArrowRight") === (dir === "ltr") ? 1 : -1;
+};
+
+const ChevronIcon = ({ direction }: { direction: "left" | "right" }) => (
+  <svg viewBox="0 0 24 24" aria-hidden="true">
+    <path
+      d={direction === "left" ? "M15 6l-6 6 6 6" : "M9 6l6 6-6 6"}
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+    />
+  </svg>
+);
+
+type PhotoCarouselProps = {
+  images: string[];
+  /** Used for alt text and the carousel's accessible name, e.g. the room name. */
+  label: string;
+  /** CSS background shown when there are no usable images. */
+  fallbackBackground: string;
+  className?: string;
+  onOpen?: (index: number) => void;
+};
+
+export function PhotoCarousel({
+  images,
+  label,
+  fallbackBackground,
+  className,
+  onOpen,
+}: PhotoCarouselProps) {
+  const { dir, t } = useI18n();
+  const [index, setIndex] = useState(0);
+  const count = images.length;
+  const current = count > 0 ? Math.min(index, count - 1) : 0;
+
+  const go = useCallback(
+    (direction: 1 | -1) => setIndex((value) => wrapIndex(value + direction, count)),
+    [count]
+  );
+  const { handlers, consumeSwipe } = useSwipe(go);
+
+  const rootClassName = className ? `photo-carousel ${className}` : "photo-carousel";
+
+  if (count === 0) {
+    return (
+      <div
+        className={`${rootClassName} photo-carousel--fallback`}
+        style={{ background: fallbackBackground }}
+        role="img"
+        aria-label={label}
+      />
+    );
+  }
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (count < 2) return;
+    const direction = arrowKeyDirection(event.key, dir);
+    if (direction === null) return;
+    event.preventDefault();
+    go(direction);
+  };
+
+  return (
+    <div
+      className={rootClassName}
+      role="region"
+      aria-roledescription="carousel"
+      aria-label={t("photos.region", { label })}
+      tabIndex={count > 1 ? 0 : undefined}
+      onKeyDown={onKeyDown}
+    >
+      <div
+        className="photo-carousel__track"
+        style={{ transform: `translateX(${dir === "rtl" ? "" : "-"}${current * 100}%)` }}
+        {...(count > 1 ? handlers : {})}
+        onClick={() => {
+          if (consumeSwipe()) return;
+          onOpen?.(current);
+        }}
+      >
+        {images.map((src, imageIndex) => (
+          <img
+            key={src}
+            className="photo-carousel__image"
+            src={src}
+            alt={count > 1 ? t("photos.alt", { label, index: imageIndex + 1, count }) : label}
+            aria-hidden={imageIndex !== current}
+            loading={imageIndex === 0 ? undefined : "lazy"}
+            draggable={false}
+          />
+        ))}
+      </div>
+
+      {count > 1 && (
+        <>
+          <button
+            type="button"
+            className="photo-carousel__nav photo-carousel__nav--prev"
+            aria-label={t("photos.previous")}
+            onClick={() => go(-1)}
+          >
+            <ChevronIcon direction="left" />
+          </button>
+          <button
+            type="button"
+            className="photo-carousel__nav photo-carousel__nav--next"
+            aria-label={t("photos.next")}
+            onClick={() => go(1)}
+          >
+            <ChevronIcon direction="right" />
+          </button>
+          <div className="photo-carousel__dots">
+            {images.map((src, imageIndex) => (
+              <button
+                key={src}
+                type="button"
+                className={
+                  imageIndex === current
+                    ? "photo-carousel__dot photo-carousel__dot--active"
+                    : "photo-carousel__dot"
+                }
+                aria-label={t("photos.show", { index: imageIndex + 1, count })}
+                aria-current={imageIndex === current}
+                onClick={() => setIndex(imageIndex)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {onOpen && (
+        <button
+          type="button"
+          className="photo-carousel__expand"
+          aria-label={t("photos.viewAll", { count })}
+          onClick={() => onOpen(current)}
+        >
+          <svg viewBox="0 0 24 24" aria-hidden="true">
+            <path
+              d="M4 9V4h5M20 9V4h-5M4 15v5h5M20 15v5h-5"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+}
+
+type PhotoLightboxProps = {
+  images: string[];
+  label: string;
+  /** Index to show, or `null` when the lightbox is closed. */
+  openIndex: number | null;
+  onClose: () => void;
+};
+
+export function PhotoLightbox({ images, label, openIndex, onClose }: PhotoLightboxProps) {
+  const { dir, t } = useI18n();
+  const titleId = useId();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [index, setIndex] = useState(openIndex ?? 0);
+  const count = images.length;
+  const open = openIndex !== null && count > 0;
+
+  const go = useCallback(
+    (direction: 1 | -1) => setIndex((value) => wrapIndex(value + direction, count)),
+    [count]
+  );
+  const { handlers } = useSwipe(go);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) {
+      setIndex(openIndex ?? 0);
+      dialog.showModal();
+    } else if (!open && dialog.open) {
+      dialog.close();
+    }
+  }, [open, openIndex]);
+  useReturnFocus(open);
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (count < 2) return;
+    const direction = arrowKeyDirection(event.key, dir);
+    if (direction === null) return;
+    event.preventDefault();
+    go(direction);
+  };
+
+  const current = Math.min(index, Math.max(0, count - 1));
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="photo-lightbox"
+      aria-labelledby={titleId}
+      onClose={onClose}
+      onKeyDown={onKeyDown}
+    >
+      <div className="photo-lightbox__header">
+        <h3 className="photo-lightbox__title" id={titleId}>
+          {label}
+        </h3>
+        {count > 1 && (
+          <span className="photo-lightbox__counter" aria-live="polite">
+            {t("photos.counter", { index: current + 1, count })}
+          </span>
+        )}
+        <button
+          type="button"
+          className="photo-lightbox__close"
+          aria-label={t("photos.close")}
+          onClick={onClose}
+        >
+          <svg viewBox="0 0 24 24" aria-hidden="true">
+            <path d="M6 6l12 12M18 6L6 18" fill="none" stroke="currentColor" strokeWidth="2" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="photo-lightbox__stage" {...(count > 1 ? handlers : {})}>
+        {open && (
+          <img
+            className="photo-lightbox__image"
+            src={images[current]}
+            alt={count > 1 ? t("photos.alt", { label, index: current + 1, count }) : label}
+            draggable={false}
+          />
+        )}
+        {count > 1 && (
+          <>
+            <button
+              type="button"
+              className="photo-lightbox__nav photo-lightbox__nav--prev"
+              aria-label={t("photos.previous")}
+              onClick={() => go(-1)}
+            >
+              <ChevronIcon direction="left" />
+            </button>
+            <button
+              type="button"
+              className="photo-lightbox__nav photo-lightbox__nav--next"
+              aria-label={t("photos.next")}
+              onClick={() => go(1)}
+            >
+              <ChevronIcon direction="right" />
+            </button>
+          </>
+        )}
+      </div>
+    </dialog>
+  );
+}
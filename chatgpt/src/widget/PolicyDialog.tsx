@@ -0,0 +1,190 @@
+import { useEffect, useId, useRef, useState } from "react";
+
+import { formatDate, isDateOnly } from "../i18n/format";
+import { useI18n, type I18n } from "../i18n/I18nProvider";
+import type { BookingPolicy, CancellationPenaltyTier } from "../openai";
+import { useReturnFocus } from "./a11y";
+
+export const formatPolicyDeadline = (value: string, locale: string): string =>
+  formatDate(locale, value, {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    ...(isDateOnly(value) ? {} : { hour: "numeric", minute: "2-digit" }),
+  });
+
+const formatHoursBefore = (hours: number, { t }: I18n): string => {
+  if (hours === 0) return t("policy.afterCheckIn");
+  if (hours % 24 === 0) return t("policy.withinDays", { count: hours / 24 });
+  return t("policy.withinHours", { count: hours });
+};
+
+const describeTier = (
+  tier: CancellationPenaltyTier,
+  formatMoney: (value: number) => string,
+  { t, formatNumber }: I18n
+): string => {
+  if (tier.description) return tier.description;
+  if (typeof tier.penalty_percent === "number") {
+    return tier.penalty_percent === 100
+      ? t("policy.nonRefundable")
+      : t("policy.percentCharged", {
+          percent: formatNumber(tier.penalty_percent / 100, { style: "percent" }),
+        });
+  }
+  if (typeof tier.penalty_amount === "number") {
+    return t("policy.amountCharged", { amount: formatMoney(tier.penalty_amount) });
+  }
+  return t("policy.feeApplies");
+};
+
+export const hasPolicyContent = (policy: BookingPolicy | undefined): boolean =>
+  Boolean(
+    policy &&
+      (policy.free_cancellation_until ||
+        policy.penalty_tiers?.length ||
+        policy.check_in_time ||
+        policy.check_out_time ||
+        policy.house_rules?.length ||
+        policy.summary)
+  );
+
+type PolicyDialogProps = {
+  open: boolean;
+  policy: BookingPolicy;
+  acknowledged: boolean;
+  /** Label for the accept button, e.g. "Agree & confirm" when opened from Confirm. */
+  acceptLabel: string;
+  formatMoney: (value: number) => string;
+  onAccept: () => void;
+  onClose: () => void;
+};
+
+export function PolicyDialog({
+  open,
+  policy,
+  acknowledged,
+  acceptLabel,
+  formatMoney,
+  onAccept,
+  onClose,
+}: PolicyDialogProps) {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const titleId = useId();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const [checked, setChecked] = useState(acknowledged);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) {
+      setChecked(acknowledged);
+      dialog.showModal();
+    } else if (!open && dialog.open) {
+      dialog.close();
+    }
+  }, [acknowledged, open]);
+  useReturnFocus(open);
+
+  const tiers = [...(policy.penalty_tiers ?? [])].sort(
+    (a, b) => b.hours_before_check_in - a.hours_before_check_in
+  );
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="bc-dialog"
+      aria-labelledby={titleId}
+      onClose={onClose}
+    >
+      <h3 className="bc-dialog__title" id={titleId}>
+        {t("policy.title")}
+      </h3>
+
+      {policy.summary && <p className="bc-dialog__text">{policy.summary}</p>}
+
+      {policy.free_cancellation_until && (
+        <p className="bc-dialog__text">
+          {i18n.tNodes("policy.freeUntil", {
+            deadline: (
+              <strong>{formatPolicyDeadline(policy.free_cancellation_until, i18n.locale)}</strong>
+            ),
+          })}
+        </p>
+      )}
+
+      {tiers.length > 0 && (
+        <section className="bc-dialog__section" aria-label={t("policy.fees")}>
+          <h4 className="bc-dialog__heading">{t("policy.afterThat")}</h4>
+          <ul className="bc-dialog__list">
+            {tiers.map((tier) => (
+              <li key={tier.hours_before_check_in}>
+                <span>{formatHoursBefore(tier.hours_before_check_in, i18n)}</span>
+                <span>{describeTier(tier, formatMoney, i18n)}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {(policy.check_in_time || policy.check_out_time) && (
+        <section className="bc-dialog__section" aria-label={t("policy.arrivalLabel")}>
+          <h4 className="bc-dialog__heading">{t("policy.arrival")}</h4>
+          <ul className="bc-dialog__list">
+            {policy.check_in_time && (
+              <li>
+                <span>{t("common.checkIn")}</span>
+                <span>
+                  {t("policy.checkInFrom", { time: i18n.formatTime(policy.check_in_time) })}
+                </span>
+              </li>
+            )}
+            {policy.check_out_time && (
+              <li>
+                <span>{t("common.checkOut")}</span>
+                <span>
+                  {t("policy.checkOutBy", { time: i18n.formatTime(policy.check_out_time) })}
+                </span>
+              </li>
+            )}
+          </ul>
+        </section>
+      )}
+
+      {policy.house_rules && policy.house_rules.length > 0 && (
+        <section className="bc-dialog__section" aria-label={t("policy.houseRules")}>
+          <h4 className="bc-dialog__heading">{t("policy.houseRules")}</h4>
+          <ul className="bc-dialog__rules">
+            {policy.house_rules.map((rule) => (
+              <li key={rule}>{rule}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <label className="bc-dialog__ack">
+        <input
+          type="checkbox"
+          checked={checked}
+          onChange={(event) => setChecked(event.target.checked)}
+        />
+        <span>{t("policy.acknowledge")}</span>
+      </label>
+
+      <div className="bc-dialog__actions">
+        <button type="button" className="bc-secondary" onClick={onClose}>
+          {t("common.close")}
+        </button>
+        <button
+          type="button"
+          className="bc-dialog__accept"
+          disabled={!checked}
+          onClick={onAccept}
+        >
+          {acceptLabel}
+        </button>
+      </div>
+    </dialog>
+  );
+}
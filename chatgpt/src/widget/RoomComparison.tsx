@@ -0,0 +1,300 @@
+import { useEffect, useId, useMemo, useRef, type ReactNode } from "react";
+
+import { useI18n } from "../i18n/I18nProvider";
+import type { ExchangeRates, SearchRoom } from "../openai";
+import { useReturnFocus } from "./a11y";
+import { ConvertedPrice } from "./ConvertedPrice";
+import {
+  formatPrice,
+  RESERVE_LABELS,
+  resolveArea,
+  resolveBaths,
+  resolveBeds,
+  resolveFloor,
+  resolveView,
+  type ReservationState,
+  type RoomFact,
+} from "./roomDisplay";
+import { RoomFactText } from "./RoomFactText";
+
+export const MIN_COMPARE_ROOMS = 2;
+export const MAX_COMPARE_ROOMS = 4;
+
+/** What a room card needs to render its "Compare" toggle. */
+export type CompareSelection = {
+  roomIds: string[];
+  onToggle: (room: SearchRoom) => void;
+};
+
+export const isCompareDisabled = (selection: CompareSelection, room: SearchRoom): boolean =>
+  !selection.roomIds.includes(room.id) && selection.roomIds.length >= MAX_COMPARE_ROOMS;
+
+type AmenityRow = {
+  label: string;
+  /** Per room, in column order. */
+  present: boolean[];
+  differs: boolean;
+};
+
+const normalizeAmenity = (amenity: string): string => amenity.trim().toLowerCase();
+
+/** Union of the rooms' amenities; rows that not every room shares sort first. */
+const buildAmenityRows = (rooms: SearchRoom[]): AmenityRow[] => {
+  const labels = new Map<string, string>();
+  const sets = rooms.map((room) => {
+    const keys = new Set<string>();
+    for (const amenity of room.amenities ?? []) {
+      const key = normalizeAmenity(amenity);
+      if (!key) continue;
+      keys.add(key);
+      if (!labels.has(key)) labels.set(key, amenity.trim());
+    }
+    return keys;
+  });
+
+  return [...labels.entries()]
+    .map(([key, label]) => {
+      const present = sets.map((keys) => keys.has(key));
+      return { label, present, differs: present.some((value) => value !== present[0]) };
+    })
+    .sort((a, b) => Number(b.differs) - Number(a.differs) || a.label.localeCompare(b.label));
+};
+
+type ComparisonRowProps = {
+  label: string;
+  values: ReactNode[];
+  highlight?: boolean;
+};
+
+function ComparisonRow({ label, values, highlight }: ComparisonRowProps) {
+  return (
+    <tr
+      className={highlight ? "room-compare__row room-compare__row--differs" : "room-compare__row"}
+    >
+      <th scope="row">{label}</th>
+      {values.map((value, index) => (
+        <td key={index}>{value}</td>
+      ))}
+    </tr>
+  );
+}
+
+type RoomComparisonProps = {
+  open: boolean;
+  rooms: SearchRoom[];
+  propertyName: (room: SearchRoom) => string;
+  reservation: ReservationState | null;
+  rates?: ExchangeRates;
+  onBookNow: (room: SearchRoom) => void;
+  onRemove: (room: SearchRoom) => void;
+  onClose: () => void;
+};
+
+export function RoomComparison({
+  open,
+  rooms,
+  propertyName,
+  reservation,
+  rates,
+  onBookNow,
+  onRemove,
+  onClose,
+}: RoomComparisonProps) {
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  const titleId = useId();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const amenityRows = useMemo(() => buildAmenityRows(rooms), [rooms]);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) {
+      dialog.showModal();
+    } else if (!open && dialog.open) {
+      dialog.close();
+    }
+  }, [open]);
+  useReturnFocus(open);
+
+  const differs = (values: string[]): boolean => values.some((value) => value !== values[0]);
+  const nightly = rooms.map((room) =>
+    formatPrice(room.price_per_night, room.currency_display, room.currency_code, locale)
+  );
+  const totals = rooms.map((room) =>
+    typeof room.estimated_total_price === "number"
+      ? formatPrice(
+          room.estimated_total_price,
+          room.estimated_total_price_currency_display ?? room.currency_display,
+          room.estimated_total_price_currency_code ?? room.currency_code,
+          locale
+        )
+      : "—"
+  );
+  const capacity = rooms.map((room) =>
+    room.max_guests ? t("common.guests", { count: room.max_guests }) : "—"
+  );
+  const factRow = (facts: (RoomFact | null)[]) => ({
+    values: facts.map((fact) => (fact ? <RoomFactText fact={fact} /> : "—")),
+    highlight: differs(facts.map((fact) => fact?.text ?? "—")),
+  });
+  const beds = factRow(rooms.map((room) => resolveBeds(room, i18n)));
+  const baths = factRow(rooms.map((room) => resolveBaths(room, i18n)));
+  const areas = factRow(rooms.map((room) => resolveArea(room, i18n)));
+  const views = rooms.some((room) => room.view) ? factRow(rooms.map(resolveView)) : null;
+  const floors = rooms.some((room) => typeof room.floor === "number")
+    ? factRow(rooms.map((room) => resolveFloor(room, i18n)))
+    : null;
+  const properties = rooms.map(propertyName);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="room-compare"
+      aria-labelledby={titleId}
+      onClose={onClose}
+    >
+      <div className="room-compare__header">
+        <h2 className="room-compare__title" id={titleId}>
+          {t("compare.title")}
+        </h2>
+        <button
+          type="button"
+          className="room-compare__close"
+          aria-label={t("compare.close")}
+          onClick={onClose}
+        >
+          <svg viewBox="0 0 24 24" aria-hidden="true">
+            <path d="M6 6l12 12M18 6L6 18" fill="none" stroke="currentColor" strokeWidth="2" />
+          </svg>
+        </button>
+      </div>
+
+      {open && rooms.length > 0 && (
+        <div className="room-compare__scroll">
+          <table className="room-compare__table">
+            <caption className="room-compare__caption">
+              {t("compare.caption")}
+            </caption>
+            <thead>
+              <tr>
+                <td />
+                {rooms.map((room) => (
+                  <th key={room.id} scope="col">
+                    <span className="room-compare__room">{room.name}</span>
+                    <button
+                      type="button"
+                      className="room-compare__remove"
+                      aria-label={t("compare.removeLabel", { name: room.name })}
+                      disabled={rooms.length <= MIN_COMPARE_ROOMS}
+                      onClick={() => onRemove(room)}
+                    >
+                      {t("compare.remove")}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <ComparisonRow
+                label={t("compare.perNight")}
+                values={nightly.map((price, index) => (
+                  <>
+                    {price}
+                    <ConvertedPrice
+                      amount={rooms[index].price_per_night}
+                      currencyCode={rooms[index].currency_code}
+                      rates={rates}
+                    />
+                  </>
+                ))}
+                highlight={differs(nightly)}
+              />
+              <ComparisonRow
+                label={t("compare.total")}
+                values={totals.map((price, index) => (
+                  <>
+                    {price}
+                    <ConvertedPrice
+                      amount={rooms[index].estimated_total_price}
+                      currencyCode={
+                        rooms[index].estimated_total_price_currency_code ??
+                        rooms[index].currency_code
+                      }
+                      rates={rates}
+                    />
+                  </>
+                ))}
+                highlight={differs(totals)}
+              />
+              <ComparisonRow
+                label={t("detail.capacity")}
+                values={capacity}
+                highlight={differs(capacity)}
+              />
+              <ComparisonRow label={t("detail.beds")} {...beds} />
+              <ComparisonRow label={t("compare.baths")} {...baths} />
+              <ComparisonRow label={t("compare.area")} {...areas} />
+              {views && <ComparisonRow label={t("detail.view")} {...views} />}
+              {floors && <ComparisonRow label={t("detail.floor")} {...floors} />}
+              <ComparisonRow
+                label={t("compare.property")}
+                values={properties}
+                highlight={differs(properties)}
+              />
+              {amenityRows.map((row) => (
+                <ComparisonRow
+                  key={row.label}
+                  label={row.label}
+                  highlight={row.differs}
+                  values={row.present.map((present, index) => (
+                    <span
+                      key={index}
+                      className={
+                        present
+                          ? "room-compare__check"
+                          : "room-compare__check room-compare__check--no"
+                      }
+                    >
+                      <span aria-hidden="true">{present ? "✓" : "—"}</span>
+                      <span className="visually-hidden">
+                        {t(present ? "compare.included" : "compare.notIncluded")}
+                      </span>
+                    </span>
+                  ))}
+                />
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td />
+                {rooms.map((room) => {
+                  const status = reservation?.roomId === room.id ? reservation.status : undefined;
+                  const action = t(status ? RESERVE_LABELS[status] : "reserve.short");
+                  return (
+                    <td key={room.id}>
+                      <button
+                        type="button"
+                        className={
+                          status === "reserved" || status === "selected"
+                            ? "room-compare__reserve room-compare__reserve--selected"
+                            : "room-compare__reserve"
+                        }
+                        disabled={status === "pending"}
+                        aria-busy={status === "pending"}
+                        aria-label={t("reserve.roomLabel", { action, name: room.name })}
+                        onClick={() => onBookNow(room)}
+                      >
+                        {action}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </dialog>
+  );
+}
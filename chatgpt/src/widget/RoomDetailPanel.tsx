@@ -0,0 +1,303 @@
+import { useEffect, useId, useMemo, useRef } from "react";
+
+import { readGlobal, requestDisplayMode } from "../bridge/client";
+import type { MessageKey } from "../i18n/catalog";
+import { useI18n, type I18n } from "../i18n/I18nProvider";
+import type { ExchangeRates, SearchRoom } from "../openai";
+import { useReturnFocus } from "./a11y";
+import { ConvertedPrice } from "./ConvertedPrice";
+import { PhotoCarousel } from "./PhotoGallery";
+import {
+  formatPrice,
+  RESERVE_LABELS,
+  resolveArea,
+  resolveBaths,
+  resolveBeds,
+  resolveFloor,
+  resolveImageSources,
+  resolveView,
+  type ReservationState,
+  type RoomFact,
+} from "./roomDisplay";
+import { RoomFactText } from "./RoomFactText";
+
+const FALLBACK_GRADIENT = "linear-gradient(150deg, #405760 0%, #5d7884 42%, #7f9ca8 100%)";
+
+/** Capacity already says how many sleep there, so a guessed bed count isn't repeated. */
+const resolveDetailFacts = (
+  room: SearchRoom,
+  i18n: I18n
+): { label: MessageKey; fact: RoomFact }[] => {
+  const beds = resolveBeds(room, i18n);
+  const facts: [MessageKey, RoomFact | null][] = [
+    ["detail.beds", beds.estimated ? null : beds],
+    ["detail.baths", resolveBaths(room, i18n)],
+    ["detail.area", resolveArea(room, i18n)],
+    ["detail.view", resolveView(room)],
+    ["detail.floor", resolveFloor(room, i18n)],
+  ];
+  return facts.flatMap(([label, fact]) => (fact ? [{ label, fact }] : []));
+};
+
+const AMENITY_CATEGORIES: { label: MessageKey; pattern: RegExp }[] = [
+  { label: "amenity.bedroom", pattern: /\b(bed|linen|pillow|blackout|wardrobe|closet|crib|cot)/i },
+  {
+    label: "amenity.bathroom",
+    pattern: /\b(bath|shower|toilet|towel|hair ?dryer|toiletries|robe|slippers|tub)/i,
+  },
+  {
+    label: "amenity.entertainment",
+    pattern: /\b(wi-?fi|internet|tv|television|streaming|netflix|usb|speaker|desk)/i,
+  },
+  {
+    label: "amenity.food",
+    pattern:
+      /\b(kitchen|coffee|tea|kettle|mini-?bar|fridge|refrigerator|microwave|breakfast|dining)/i,
+  },
+  {
+    label: "amenity.comfort",
+    pattern:
+      /\b(air[- ]?condition|a\/c|heating|fan|balcony|terrace|patio|view|fireplace|soundproof)/i,
+  },
+  {
+    label: "amenity.services",
+    pattern:
+      /\b(parking|pet|accessib|wheelchair|elevator|lift|room service|laundry|concierge|safe)/i,
+  },
+];
+
+type AmenityGroup = {
+  label: MessageKey;
+  items: string[];
+};
+
+const groupAmenities = (amenities: string[] | undefined): AmenityGroup[] => {
+  const groups = new Map<MessageKey, string[]>();
+  for (const raw of amenities ?? []) {
+    const amenity = raw.trim();
+    if (!amenity) continue;
+    const label =
+      AMENITY_CATEGORIES.find((category) => category.pattern.test(amenity))?.label ??
+      "amenity.other";
+    const items = groups.get(label) ?? [];
+    if (!items.includes(amenity)) items.push(amenity);
+    groups.set(label, items);
+  }
+  // Keep category order stable, with the catch-all last.
+  const labels: MessageKey[] = [
+    ...AMENITY_CATEGORIES.map((category) => category.label),
+    "amenity.other",
+  ];
+  return labels.flatMap((label) => {
+    const items = groups.get(label);
+    return items ? [{ label, items }] : [];
+  });
+};
+
+type RoomDetailPanelProps = {
+  room: SearchRoom | null;
+  subtitle: string;
+  nights: number | null;
+  reservation: ReservationState | null;
+  rates?: ExchangeRates;
+  onBookNow: (room: SearchRoom) => void;
+  onOpenPhotos: (room: SearchRoom, index: number) => void;
+  onClose: () => void;
+};
+
+export function RoomDetailPanel({
+  room,
+  subtitle,
+  nights,
+  reservation,
+  rates,
+  onBookNow,
+  onOpenPhotos,
+  onClose,
+}: RoomDetailPanelProps) {
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  const titleId = useId();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const fullscreenRef = useRef(false);
+  const open = room !== null;
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    if (open && !dialog.open) {
+      dialog.showModal();
+      // Only hand back to inline on close if opening the panel is what went fullscreen.
+      if (readGlobal("displayMode") !== "fullscreen") {
+        void requestDisplayMode("fullscreen").then((granted) => {
+          fullscreenRef.current = granted;
+        });
+      }
+    } else if (!open && dialog.open) {
+      dialog.close();
+    }
+    if (!open && fullscreenRef.current) {
+      fullscreenRef.current = false;
+      void requestDisplayMode("inline");
+    }
+  }, [open]);
+  useReturnFocus(open);
+
+  const images = useMemo(() => resolveImageSources(room?.images), [room?.images]);
+  const facts = room ? resolveDetailFacts(room, i18n) : [];
+  const amenityGroups = useMemo(() => groupAmenities(room?.amenities), [room?.amenities]);
+
+  const status = reservation?.status;
+  const selected = status === "reserved" || status === "selected";
+  const hasTotal = typeof room?.estimated_total_price === "number";
+  const descriptionParagraphs = (room?.description ?? "")
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className="room-detail"
+      aria-labelledby={titleId}
+      onClose={onClose}
+    >
+      {room && (
+        <>
+          <div className="room-detail__media">
+            <PhotoCarousel
+              className="room-detail__carousel"
+              images={images}
+              label={room.name}
+              fallbackBackground={FALLBACK_GRADIENT}
+              onOpen={(index) => onOpenPhotos(room, index)}
+            />
+            <button
+              type="button"
+              className="room-detail__close"
+              aria-label={t("detail.close")}
+              onClick={onClose}
+            >
+              <svg viewBox="0 0 24 24" aria-hidden="true">
+                <path d="M6 6l12 12M18 6L6 18" fill="none" stroke="currentColor" strokeWidth="2" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="room-detail__body">
+            <h2 className="room-detail__title" id={titleId}>
+              {room.name}
+            </h2>
+            <p className="room-detail__subtitle">{subtitle}</p>
+
+            <dl className="room-detail__facts">
+              {room.max_guests ? (
+                <div>
+                  <dt>{t("detail.capacity")}</dt>
+                  <dd>{t("common.upToGuests", { count: room.max_guests })}</dd>
+                </div>
+              ) : null}
+              {facts.map(({ label, fact }) => (
+                <div key={label}>
+                  <dt>{t(label)}</dt>
+                  <dd>
+                    <RoomFactText fact={fact} />
+                  </dd>
+                </div>
+              ))}
+              {room.type && room.type !== room.name && (
+                <div>
+                  <dt>{t("detail.roomType")}</dt>
+                  <dd>{room.type}</dd>
+                </div>
+              )}
+            </dl>
+
+            {descriptionParagraphs.length > 0 && (
+              <section className="room-detail__section" aria-labelledby={`${titleId}-about`}>
+                <h3 className="room-detail__heading" id={`${titleId}-about`}>
+                  {t("detail.about")}
+                </h3>
+                {descriptionParagraphs.map((paragraph) => (
+                  <p key={paragraph} className="room-detail__text">
+                    {paragraph}
+                  </p>
+                ))}
+              </section>
+            )}
+
+            {amenityGroups.length > 0 && (
+              <section className="room-detail__section" aria-labelledby={`${titleId}-amenities`}>
+                <h3 className="room-detail__heading" id={`${titleId}-amenities`}>
+                  {t("detail.amenities")}
+                </h3>
+                <div className="room-detail__amenities">
+                  {amenityGroups.map((group) => (
+                    <div key={group.label} className="room-detail__amenity-group">
+                      <h4>{t(group.label)}</h4>
+                      <ul>
+                        {group.items.map((item) => (
+                          <li key={item}>{item}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+
+          <div className="room-detail__footer">
+            <div className="room-detail__pricing">
+              <span className="room-detail__price">
+                {formatPrice(
+                  room.price_per_night,
+                  room.currency_display,
+                  room.currency_code,
+                  locale
+                )}
+                <span className="room-detail__per"> {t("common.perNight")}</span>
+              </span>
+              <ConvertedPrice
+                amount={room.price_per_night}
+                currencyCode={room.currency_code}
+                rates={rates}
+              />
+              {hasTotal && (
+                <span className="room-detail__total">
+                  {t(nights ? "detail.totalForNights" : "detail.total", {
+                    price: formatPrice(
+                      room.estimated_total_price,
+                      room.estimated_total_price_currency_display ?? room.currency_display,
+                      room.estimated_total_price_currency_code ?? room.currency_code,
+                      locale
+                    ),
+                    ...(nights ? { count: nights } : {}),
+                  })}{" "}
+                  <ConvertedPrice
+                    amount={room.estimated_total_price}
+                    currencyCode={room.estimated_total_price_currency_code ?? room.currency_code}
+                    rates={rates}
+                  />
+                </span>
+              )}
+            </div>
+            <button
+              type="button"
+              className={
+                selected
+                  ? "room-detail__reserve room-detail__reserve--selected"
+                  : "room-detail__reserve"
+              }
+              disabled={status === "pending"}
+              aria-busy={status === "pending"}
+              onClick={() => onBookNow(room)}
+            >
+              {t(status ? RESERVE_LABELS[status] : "reserve.now")}
+            </button>
+          </div>
+        </>
+      )}
+    </dialog>
+  );
+}
@@ -0,0 +1,14 @@
+import { useI18n } from "../i18n/I18nProvider";
+import type { RoomFact } from "./roomDisplay";
+
+/** A room fact, marked as an estimate when it was inferred rather than sent. */
+export function RoomFactText({ fact }: { fact: RoomFact }) {
+  const { t } = useI18n();
+  if (!fact.estimated) return <>{fact.text}</>;
+
+  return (
+    <span className="room-fact--estimated" title={t("facts.estimatedNote")}>
+      {t("facts.estimated", { fact: fact.text })}
+    </span>
+  );
+}
@@ -0,0 +1,223 @@
+import { useId } from "react";
+
+import { useI18n } from "../i18n/I18nProvider";
+
+import {
+  hasActiveFilters,
+  ROOM_SORT_LABELS,
+  type AmenityOption,
+  type RoomFilters,
+  type RoomSort,
+} from "./roomFilters";
+
+const MAX_AMENITY_CHIPS = 12;
+
+export type HotelOption = {
+  propertyId: string;
+  name: string;
+};
+
+type RoomFilterToolbarProps = {
+  filters: RoomFilters;
+  sort: RoomSort;
+  amenityOptions: AmenityOption[];
+  hotelOptions: HotelOption[];
+  guestOptions: number[];
+  shownCount: number;
+  totalCount: number;
+  onFiltersChange: (patch: Partial<RoomFilters>) => void;
+  onSortChange: (sort: RoomSort) => void;
+  onReset: () => void;
+};
+
+const parsePriceInput = (value: string): number | null => {
+  if (!value.trim()) return null;
+  const numeric = Number(value);
+  return Number.isFinite(numeric) && numeric >= 0 ? numeric : null;
+};
+
+const toggle = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+export function RoomFilterToolbar({
+  filters,
+  sort,
+  amenityOptions,
+  hotelOptions,
+  guestOptions,
+  shownCount,
+  totalCount,
+  onFiltersChange,
+  onSortChange,
+  onReset,
+}: RoomFilterToolbarProps) {
+  const { formatNumber, t } = useI18n();
+  const id = useId();
+  const active = hasActiveFilters(filters);
+
+  return (
+    <section className="room-filters" aria-label={t("filters.label")}>
+      <div className="room-filters__row">
+        <label className="room-filters__field" htmlFor={`${id}-sort`}>
+          <span>{t("filters.sortBy")}</span>
+          <select
+            id={`${id}-sort`}
+            value={sort}
+            onChange={(event) => onSortChange(event.target.value as RoomSort)}
+          >
+            {(Object.keys(ROOM_SORT_LABELS) as RoomSort[]).map((option) => (
+              <option key={option} value={option}>
+                {t(ROOM_SORT_LABELS[option])}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="room-filters__field" role="group" aria-labelledby={`${id}-price`}>
+          <span id={`${id}-price`}>{t("common.pricePerNight")}</span>
+          <div className="room-filters__range">
+            <input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              placeholder={t("filters.min")}
+              aria-label={t("filters.minLabel")}
+              value={filters.minPrice ?? ""}
+              onChange={(event) => onFiltersChange({ minPrice: parsePriceInput(event.target.value) })}
+            />
+            <span aria-hidden="true">–</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={0}
+              placeholder={t("filters.max")}
+              aria-label={t("filters.maxLabel")}
+              value={filters.maxPrice ?? ""}
+              onChange={(event) => onFiltersChange({ maxPrice: parsePriceInput(event.target.value) })}
+            />
+          </div>
+        </div>
+
+        {guestOptions.length > 1 && (
+          <label className="room-filters__field" htmlFor={`${id}-guests`}>
+            <span>{t("filters.sleeps")}</span>
+            <select
+              id={`${id}-guests`}
+              value={filters.minGuests ?? ""}
+              onChange={(event) =>
+                onFiltersChange({
+                  minGuests: event.target.value ? Number(event.target.value) : null,
+                })
+              }
+            >
+              <option value="">{t("filters.any")}</option>
+              {guestOptions.map((guests) => (
+                <option key={guests} value={guests}>
+                  {t("common.guests", { count: guests })}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {hotelOptions.length > 1 && (
+        <div className="room-filters__chips" role="group" aria-label={t("filters.hotels")}>
+          {hotelOptions.map((hotel) => {
+            const selected = filters.propertyIds.includes(hotel.propertyId);
+            return (
+              <button
+                key={hotel.propertyId}
+                type="button"
+                className={selected ? "filter-chip filter-chip--active" : "filter-chip"}
+                aria-pressed={selected}
+                onClick={() =>
+                  onFiltersChange({ propertyIds: toggle(filters.propertyIds, hotel.propertyId) })
+                }
+              >
+                {hotel.name}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {amenityOptions.length > 0 && (
+        <div className="room-filters__chips" role="group" aria-label={t("filters.amenities")}>
+          {amenityOptions.slice(0, MAX_AMENITY_CHIPS).map((amenity) => {
+            const selected = filters.amenities.includes(amenity.label);
+            return (
+              <button
+                key={amenity.label}
+                type="button"
+                className={selected ? "filter-chip filter-chip--active" : "filter-chip"}
+                aria-pressed={selected}
+                onClick={() => onFiltersChange({ amenities: toggle(filters.amenities, amenity.label) })}
+              >
+                {amenity.label}
+                <span className="filter-chip__count">{formatNumber(amenity.count)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="room-filters__summary">
+        <span role="status" aria-live="polite">
+          {t("filters.showing", { shown: shownCount, count: totalCount })}
+        </span>
+        {active && (
+          <button type="button" className="room-filters__reset" onClick={onReset}>
+            {t("common.clearFilters")}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
+
+type ActiveFiltersBarProps = {
+  filters: RoomFilters;
+  sort: RoomSort;
+  shownCount: number;
+  totalCount: number;
+  onReset: () => void;
+  onEdit: () => void;
+};
+
+/**
+ * Stands in for the toolbar in the inline and PiP layouts, so filters and a
+ * sort saved in the full layout never hide or reorder rooms silently.
+ */
+export function ActiveFiltersBar({
+  filters,
+  sort,
+  shownCount,
+  totalCount,
+  onReset,
+  onEdit,
+}: ActiveFiltersBarProps) {
+  const { t } = useI18n();
+  const filtered = hasActiveFilters(filters);
+  const sorted = sort !== "recommended";
+  if (!filtered && !sorted) return null;
+
+  return (
+    <div className="room-filters__summary room-filters__summary--inline">
+      <span>
+        {[
+          filtered ? t("filters.showing", { shown: shownCount, count: totalCount }) : "",
+          sorted ? t("filters.sortedBy", { sort: t(ROOM_SORT_LABELS[sort]) }) : "",
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </span>
+      <button type="button" className="room-filters__reset" onClick={onReset}>
+        {t(filtered ? "common.clearFilters" : "filters.resetSort")}
+      </button>
+      <button type="button" className="room-filters__reset" onClick={onEdit}>
+        {t("filters.edit")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useEffect, useId, useState, type FormEvent } from "react";
+
+import { useI18n } from "../i18n/I18nProvider";
+import { useFocusOnMessage } from "./a11y";
+import {
+  addDays,
+  MAX_GUESTS,
+  MIN_GUESTS,
+  todayIsoDate,
+  validateCriteria,
+  type SearchCriteria,
+} from "./dates";
+
+type SearchCriteriaBarProps = {
+  criteria: SearchCriteria;
+  searching: boolean;
+  error?: string;
+  onSearch: (criteria: SearchCriteria) => void;
+};
+
+export function SearchCriteriaBar({ criteria, searching, error, onSearch }: SearchCriteriaBarProps) {
+  const { formatNumber, t } = useI18n();
+  const id = useId();
+  const [draft, setDraft] = useState<SearchCriteria>(criteria);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  // Payload updates such as "Load more" pass a fresh object with the same
+  // values; only a real change of criteria should discard unsaved edits.
+  useEffect(() => {
+    setDraft(criteria);
+    setValidationError(null);
+  }, [criteria.check_in, criteria.check_out, criteria.guests]);
+
+  const dirty =
+    draft.check_in !== criteria.check_in ||
+    draft.check_out !== criteria.check_out ||
+    draft.guests !== criteria.guests;
+
+  const update = (patch: Partial<SearchCriteria>) => {
+    setValidationError(null);
+    setDraft((current) => {
+      const next = { ...current, ...patch };
+      // Keep the range valid when check-in moves past check-out.
+      if (patch.check_in && next.check_out && next.check_out <= patch.check_in) {
+        next.check_out = addDays(patch.check_in, 1);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const problem = validateCriteria(draft, t);
+    setValidationError(problem);
+    if (!problem) onSearch(draft);
+  };
+
+  const message = validationError ?? error;
+  const errorRef = useFocusOnMessage<HTMLParagraphElement>(message);
+
+  return (
+    <form className="criteria-bar" onSubmit={handleSubmit} aria-label={t("criteria.label")}>
+      <div className="criteria-bar__dates" role="group" aria-label={t("criteria.dates")}>
+        <label className="criteria-bar__field" htmlFor={`${id}-check-in`}>
+          <span>{t("common.checkIn")}</span>
+          <input
+            id={`${id}-check-in`}
+            type="date"
+            min={todayIsoDate()}
+            value={draft.check_in}
+            onChange={(event) => update({ check_in: event.target.value })}
+          />
+        </label>
+        <label className="criteria-bar__field" htmlFor={`${id}-check-out`}>
+          <span>{t("common.checkOut")}</span>
+          <input
+            id={`${id}-check-out`}
+            type="date"
+            min={draft.check_in ? addDays(draft.check_in, 1) : todayIsoDate()}
+            value={draft.check_out}
+            onChange={(event) => update({ check_out: event.target.value })}
+          />
+        </label>
+      </div>
+
+      <div className="criteria-bar__field">
+        <span id={`${id}-guests`}>{t("criteria.guests")}</span>
+        <div className="criteria-bar__stepper" role="group" aria-labelledby={`${id}-guests`}>
+          <button
+            type="button"
+            aria-label={t("criteria.fewerGuests")}
+            disabled={draft.guests <= MIN_GUESTS}
+            onClick={() => update({ guests: Math.max(MIN_GUESTS, draft.guests - 1) })}
+          >
+            −
+          </button>
+          <output aria-live="polite">{formatNumber(draft.guests)}</output>
+          <button
+            type="button"
+            aria-label={t("criteria.moreGuests")}
+            disabled={draft.guests >= MAX_GUESTS}
+            onClick={() => update({ guests: Math.min(MAX_GUESTS, draft.guests + 1) })}
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        className="criteria-bar__submit"
+        disabled={searching || !dirty}
+        aria-busy={searching}
+      >
+        {t(searching ? "criteria.searching" : "criteria.update")}
+      </button>
+
+      {message && (
+        <p ref={errorRef} className="criteria-bar__error" role="alert" tabIndex={-1}>
+          {message}
+        </p>
+      )}
+    </form>
+  );
+}
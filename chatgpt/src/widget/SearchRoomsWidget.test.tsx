@@ -0,0 +1,43 @@
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { room } from "../test/fixtures";
+import { describeWidgetStates, renderWidget } from "../test/widgetHarness";
+import { SearchRoomsWidget } from "./SearchRoomsWidget";
+
+const populated = {
+  property_id: "p-1",
+  property_name: "Sunset Beach Resort",
+  count: 2,
+  rooms: [room(), room({ id: "room-2", name: "Ocean Suite", price_per_night: 320 })],
+};
+
+describeWidgetStates("SearchRoomsWidget", SearchRoomsWidget, {
+  error: { error: "The search service is unavailable." },
+  empty: { property_name: "Sunset Beach Resort", count: 0, rooms: [] },
+  malformed: { rooms: "not a list" },
+  populated,
+});
+
+describe("SearchRoomsWidget keyboard", () => {
+  it("selects a room when Book now is activated from the keyboard", async () => {
+    const user = userEvent.setup();
+    const onSelect = vi.fn();
+    window.addEventListener("monobook:room-select", onSelect);
+    renderWidget(SearchRoomsWidget, { payload: populated });
+
+    const bookNow = screen.getAllByRole("button", { name: "Book now" })[1];
+    bookNow.focus();
+    await user.keyboard(" ");
+    window.removeEventListener("monobook:room-select", onSelect);
+
+    expect(onSelect).toHaveBeenCalledTimes(1);
+    expect((onSelect.mock.calls[0][0] as CustomEvent).detail).toEqual({
+      room_id: "room-2",
+      room_name: "Ocean Suite",
+      property_id: "p-1",
+    });
+    expect(bookNow.className).toContain("book-button--selected");
+  });
+});
@@ -1,11 +1,18 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 
+import { useToolOutput } from "../bridge/useToolOutput";
+import { useI18n, type Translate } from "../i18n/I18nProvider";
+import { formatMoney } from "../i18n/money";
+import {
+  countDroppedItems,
+  validateSearchRoomsPayload,
+} from "../validation/payloads";
 import type {
-  OpenAIBridge,
   SearchHotel,
   SearchRoom,
   SearchRoomsStructuredPayload,
 } from "../openai";
+import { extractSearchRoomsPayload } from "./toolPayloads";
 
 const FALLBACK_GRADIENTS = [
   "linear-gradient(145deg, #4f3324 0%, #6f4a34 40%, #8c6a50 100%)",
@@ -14,62 +21,6 @@ const FALLBACK_GRADIENTS = [
   "linear-gradient(145deg, #5b5b5b 0%, #7a7a7a 50%, #a3a3a3 100%)",
 ];
 
-const BRIDGE_METHODS = [
-  "getInitialState",
-  "getState",
-  "getContext",
-  "getToolOutput",
-] as const;
-
-const BRIDGE_STATIC_KEYS = [
-  "toolOutput",
-  "output",
-  "data",
-  "result",
-  "response",
-  "toolResult",
-  "tool_output",
-  "tool_result",
-  "state",
-  "value",
-] as const;
-
-const MAX_BRIDGE_ATTEMPTS = 80;
-const BRIDGE_POLL_INTERVAL_MS = 100;
-
-type BootstrapData = {
-  widget?: string;
-  payload?: unknown;
-};
-
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
-
-const parseJson = (value: string | null): unknown => {
-  if (!value) return null;
-  try {
-    return JSON.parse(value);
-  } catch {
-    return null;
-  }
-};
-
-const coerceToRecord = (value: unknown): Record<string, unknown> | null => {
-  if (isRecord(value)) return value;
-  if (typeof value === "string") {
-    const parsed = parseJson(value);
-    if (isRecord(parsed)) return parsed;
-  }
-  return null;
-};
-
-const hasSearchRoomsData = (value: Record<string, unknown>): boolean =>
-  Object.prototype.hasOwnProperty.call(value, "rooms") ||
-  Object.prototype.hasOwnProperty.call(value, "hotels") ||
-  Object.prototype.hasOwnProperty.call(value, "count") ||
-  Object.prototype.hasOwnProperty.call(value, "property_name") ||
-  Object.prototype.hasOwnProperty.call(value, "error");
-
 const flattenHotelsToRooms = (hotels: SearchHotel[] | undefined): SearchRoom[] => {
   if (!hotels || hotels.length === 0) return [];
 
@@ -86,121 +37,20 @@ const flattenHotelsToRooms = (hotels: SearchHotel[] | undefined): SearchRoom[] =
   return rooms;
 };
 
-const extractStructuredPayload = (
-  payload: unknown
-): SearchRoomsStructuredPayload | null => {
-  const record = coerceToRecord(payload);
-  if (!record) return null;
-
-  const maybeStructured = coerceToRecord(record.structuredContent);
-  if (maybeStructured) {
-    return maybeStructured as SearchRoomsStructuredPayload;
-  }
-
-  for (const key of [
-    "result",
-    "output",
-    "data",
-    "response",
-    "toolResult",
-    "tool_result",
-    "toolOutput",
-    "tool_output",
-    "value",
-  ]) {
-    const extracted = extractStructuredPayload(record[key]);
-    if (extracted) return extracted;
-  }
-
-  if (Array.isArray(record.content)) {
-    for (const item of record.content) {
-      if (!isRecord(item)) continue;
-      const text = item.text;
-      if (typeof text !== "string") continue;
-      const parsed = parseJson(text);
-      const extracted = extractStructuredPayload(parsed);
-      if (extracted) return extracted;
-    }
-  }
-
-  if (hasSearchRoomsData(record)) {
-    return record as SearchRoomsStructuredPayload;
-  }
-
-  for (const value of Object.values(record)) {
-    const nested = coerceToRecord(value);
-    if (!nested) continue;
-    if (hasSearchRoomsData(nested)) {
-      return nested as SearchRoomsStructuredPayload;
-    }
-  }
-
-  return null;
-};
-
-const describeCandidateType = (value: unknown): string => {
-  if (value === null) return "null";
-  if (Array.isArray(value)) return `array(${value.length})`;
-  return typeof value;
-};
-
-const bootstrapPayloadFromScript = (): SearchRoomsStructuredPayload | null => {
-  const node = document.getElementById("monobook-widget-bootstrap");
-  const fromScript = parseJson(node?.textContent ?? null) as BootstrapData | null;
-  const query = new URLSearchParams(window.location.search);
-  const queryPayload = parseJson(query.get("payload"));
-
-  return (
-    extractStructuredPayload(fromScript?.payload) ??
-    extractStructuredPayload(queryPayload)
-  );
-};
-
-const isPrefixCurrencyDisplay = (currencyDisplay: string): boolean => {
-  return !/[A-Za-z]/.test(currencyDisplay);
-};
-
-const resolveCurrencyDisplay = (
-  currencyDisplay: string | undefined,
-  currencyCode: string | undefined
-): string => {
-  const normalizedDisplay = currencyDisplay?.trim();
-  if (normalizedDisplay) return normalizedDisplay;
-  const normalizedCode = currencyCode?.trim().toUpperCase();
-  if (!normalizedCode) return "$";
-  if (normalizedCode === "USD") return "$";
-  return normalizedCode;
-};
-
 const formatPricePerNight = (
   value: string | number | undefined,
   currencyDisplay: string | undefined,
-  currencyCode: string | undefined
+  currencyCode: string | undefined,
+  locale: string,
+  t: Translate
 ): string => {
-  const numeric = Number(value ?? 0);
-  const resolvedCurrencyDisplay = resolveCurrencyDisplay(
-    currencyDisplay,
-    currencyCode
+  const price = formatMoney(
+    Number(value ?? 0),
+    { code: currencyCode, display: currencyDisplay },
+    locale,
+    "whole"
   );
-  const amount = Number.isFinite(numeric)
-    ? numeric.toLocaleString("en-US", { maximumFractionDigits: 0 })
-    : "0";
-  if (isPrefixCurrencyDisplay(resolvedCurrencyDisplay)) {
-    return `${resolvedCurrencyDisplay}${amount}/night`;
-  }
-  return `${amount} ${resolvedCurrencyDisplay}/night`;
-};
-
-const formatPriceLabel = (
-  value: string | number | undefined,
-  currencyDisplay: string | undefined,
-  currencyCode: string | undefined
-): string => {
-  const numeric = Number(value ?? 0);
-  if (Number.isFinite(numeric)) {
-    return formatPricePerNight(value, currencyDisplay, currencyCode);
-  }
-  return formatPricePerNight(0, currencyDisplay, currencyCode);
+  return t("legacy.pricePerNight", { price });
 };
 
 const splitAmenities = (
@@ -238,8 +88,10 @@ type RoomCardProps = {
 };
 
 function RoomCard({ room, index, selected, onBookNow }: RoomCardProps) {
+  const { formatNumber, locale, t } = useI18n();
   const imageSrc = resolveImageSource(room);
-  const guestCount = room.max_guests && room.max_guests > 0 ? room.max_guests : "-";
+  const guestCount =
+    room.max_guests && room.max_guests > 0 ? formatNumber(room.max_guests) : "-";
   const amenities = splitAmenities(room.amenities);
   const fallbackBackground = FALLBACK_GRADIENTS[index % FALLBACK_GRADIENTS.length];
 
@@ -252,11 +104,12 @@ function RoomCard({ room, index, selected, onBookNow }: RoomCardProps) {
           <div
             className="room-card__image room-card__image--fallback"
             style={{ background: fallbackBackground }}
+            role="img"
             aria-label={room.name}
           />
         )}
 
-        <div className="room-card__guests" aria-label="Max guests">
+        <div className="room-card__guests" aria-label={t("legacy.maxGuests")}>
           <svg
             viewBox="0 0 24 24"
             fill="none"
@@ -275,17 +128,19 @@ function RoomCard({ room, index, selected, onBookNow }: RoomCardProps) {
         </div>
 
         <div className="room-card__price">
-          {formatPriceLabel(
+          {formatPricePerNight(
             room.price_per_night,
             room.currency_display,
-            room.currency_code
+            room.currency_code,
+            locale,
+            t
           )}
         </div>
       </div>
 
       <div className="room-card__body">
         <h3 className="room-card__title">{room.name}</h3>
-        <p className="room-card__type">{room.type ?? "Room"}</p>
+        <p className="room-card__type">{room.type ?? t("common.room")}</p>
 
         <div className="room-card__amenities">
           {amenities.primary.map((amenity) => (
@@ -293,7 +148,9 @@ function RoomCard({ room, index, selected, onBookNow }: RoomCardProps) {
               {amenity}
             </span>
           ))}
-          {amenities.extraCount > 0 && <span className="chip">+{amenities.extraCount}</span>}
+          {amenities.extraCount > 0 && (
+            <span className="chip">+{formatNumber(amenities.extraCount)}</span>
+          )}
         </div>
 
         <button
@@ -301,7 +158,7 @@ function RoomCard({ room, index, selected, onBookNow }: RoomCardProps) {
           className={selected ? "book-button book-button--selected" : "book-button"}
           onClick={() => onBookNow(room)}
         >
-          Book now
+          {t("legacy.bookNow")}
         </button>
       </div>
     </article>
@@ -309,121 +166,21 @@ function RoomCard({ room, index, selected, onBookNow }: RoomCardProps) {
 }
 
 export function SearchRoomsWidget() {
-  const [initialPayload] = useState<SearchRoomsStructuredPayload | null>(
-    () => bootstrapPayloadFromScript()
-  );
-  const [payload, setPayload] = useState<SearchRoomsStructuredPayload | null>(
-    initialPayload
+  const { t } = useI18n();
+  const { payload: rawPayload, loading } = useToolOutput(extractSearchRoomsPayload);
+  const validation = useMemo(
+    () => (rawPayload ? validateSearchRoomsPayload(rawPayload) : null),
+    [rawPayload]
   );
-  const [loading, setLoading] = useState<boolean>(() => !initialPayload);
+  const payload: SearchRoomsStructuredPayload | null = validation?.value ?? null;
+  const invalidPayload = Boolean(validation && !validation.value);
+  const droppedCount = validation ? countDroppedItems(validation) : 0;
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
 
-  const loadBridgePayload = useCallback(async (): Promise<SearchRoomsStructuredPayload | null> => {
-    const bridge = window.openai as OpenAIBridge | undefined;
-    if (!bridge) {
-      console.warn("[SearchRoomsWidget] OpenAI bridge not found on window.");
-      return null;
-    }
-
-    const bridgeRecord = bridge as Record<string, unknown>;
-    const candidates: unknown[] = [];
-    const seen = new Set<unknown>();
-
-    const addCandidate = (value: unknown) => {
-      if (typeof value === "undefined") return;
-      if (seen.has(value)) return;
-      seen.add(value);
-      candidates.push(value);
-    };
-
-    for (const key of BRIDGE_STATIC_KEYS) {
-      addCandidate(bridgeRecord[key]);
-    }
-
-    for (const methodName of BRIDGE_METHODS) {
-      const method = bridge[methodName];
-      if (typeof method !== "function") continue;
-      try {
-        addCandidate(await method.call(bridge));
-      } catch {
-        // Bridge methods can be absent/fail depending on host lifecycle.
-      }
-    }
-
-    for (const [key, value] of Object.entries(bridgeRecord)) {
-      if (key.startsWith("_")) continue;
-      if (typeof value === "function") continue;
-      if (BRIDGE_STATIC_KEYS.includes(key as (typeof BRIDGE_STATIC_KEYS)[number])) {
-        continue;
-      }
-      addCandidate(value);
-    }
-
-    console.warn(
-      `[SearchRoomsWidget] Evaluating ${candidates.length} bridge candidates.`,
-      candidates.map((candidate) => describeCandidateType(candidate))
-    );
-
-    for (const candidate of candidates) {
-      const extracted = extractStructuredPayload(candidate);
-      if (extracted) {
-        console.warn("[SearchRoomsWidget] Structured payload extracted from bridge.");
-        return extracted;
-      }
-    }
-    console.warn("[SearchRoomsWidget] Structured payload extraction failed.");
-    return null;
-  }, []);
-
   useEffect(() => {
-    if (payload) {
-      setLoading(false);
-      return;
-    }
-
-    let cancelled = false;
-    let attempts = 0;
-    let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-    const pollBridge = async () => {
-      if (cancelled) return;
-      const extracted = await loadBridgePayload();
-      if (cancelled) return;
-
-      if (extracted) {
-        setPayload(extracted);
-        setLoading(false);
-        return;
-      }
-
-      attempts += 1;
-      if (attempts < MAX_BRIDGE_ATTEMPTS) {
-        timeoutId = setTimeout(pollBridge, BRIDGE_POLL_INTERVAL_MS);
-      } else {
-        setLoading(false);
-      }
-    };
-
-    const onMessage = (event: MessageEvent) => {
-      if (cancelled) return;
-      const extracted = extractStructuredPayload(event.data);
-      if (!extracted) return;
-      setPayload(extracted);
-      setLoading(false);
-      console.warn("[SearchRoomsWidget] Structured payload received via postMessage.");
-    };
-
-    window.addEventListener("message", onMessage);
-    pollBridge();
-
-    return () => {
-      cancelled = true;
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-      window.removeEventListener("message", onMessage);
-    };
-  }, [loadBridgePayload, payload]);
+    if (!validation || validation.issues.length === 0) return;
+    console.warn("[SearchRoomsWidget] Payload validation issues:", validation.issues);
+  }, [validation]);
 
   const rooms = useMemo(() => {
     if (Array.isArray(payload?.rooms) && payload.rooms.length > 0) {
@@ -444,21 +201,25 @@ export function SearchRoomsWidget() {
   }, [payload, rooms.length]);
 
   const titleText = useMemo(() => {
+    const roomsLabel = t("common.rooms", { count });
     if (hotelCount > 1) {
-      return `${count} rooms across ${hotelCount} hotels`;
+      return t("search.titleAcross", {
+        rooms: roomsLabel,
+        hotels: t("common.hotels", { count: hotelCount }),
+      });
     }
 
     if (hotelCount === 1) {
       const hotelName =
         payload?.hotels?.[0]?.property_name?.trim() ||
         payload?.property_name?.trim() ||
-        "Selected hotel";
-      return `${count} rooms at ${hotelName}`;
+        t("search.selectedHotel");
+      return t("search.titleAt", { rooms: roomsLabel, name: hotelName });
     }
 
-    const propertyName = payload?.property_name?.trim() || "Selected property";
-    return `${count} rooms at ${propertyName}`;
-  }, [count, hotelCount, payload]);
+    const propertyName = payload?.property_name?.trim() || t("search.selectedProperty");
+    return t("search.titleAt", { rooms: roomsLabel, name: propertyName });
+  }, [count, hotelCount, payload, t]);
 
   const onBookNow = useCallback(
     (room: SearchRoom) => {
@@ -492,13 +253,14 @@ export function SearchRoomsWidget() {
     <main className="rooms-widget">
       <div className="rooms-widget__content">
         {loading && (
-          <>
-            <div className="skeleton skeleton--title" />
-            <div className="rooms-grid">
+          <div role="status" aria-busy="true">
+            <span className="visually-hidden">{t("a11y.loadingRooms")}</span>
+            <div className="skeleton skeleton--title" aria-hidden="true" />
+            <div className="rooms-grid" aria-hidden="true">
               <div className="skeleton skeleton--card" />
               <div className="skeleton skeleton--card" />
             </div>
-          </>
+          </div>
         )}
 
         {!loading && payload?.error && (
@@ -507,15 +269,27 @@ export function SearchRoomsWidget() {
           </div>
         )}
 
-        {!loading && !payload?.error && (
+        {!loading && invalidPayload && (
+          <div className="widget-alert" role="alert">
+            {t("common.malformedResults")}
+          </div>
+        )}
+
+        {!loading && !invalidPayload && !payload?.error && (
           <>
+            {droppedCount > 0 && (
+              <p className="widget-notice" role="status">
+                {t("common.droppedRooms", { count: droppedCount })}
+              </p>
+            )}
+
             <h2 className="rooms-widget__title">
               {titleText}
             </h2>
 
             {rooms.length === 0 ? (
               <p className="rooms-widget__empty">
-                No rooms found for these filters.
+                {t("common.noRoomsFound")}
               </p>
             ) : (
               <div className="rooms-grid">
@@ -0,0 +1,130 @@
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { daysFromToday, hotel, room } from "../test/fixtures";
+import { describeWidgetStates, renderWidget } from "../test/widgetHarness";
+import { SearchRoomsWidgetV2 } from "./SearchRoomsWidgetV2";
+
+const rooms = [
+  room(),
+  room({ id: "room-2", name: "Ocean Suite", price_per_night: 320, max_guests: 2 }),
+  room({ id: "room-3", property_id: "p-2", name: "City Double", price_per_night: 140 }),
+];
+
+const singleHotel = {
+  property_id: "p-1",
+  property_name: "Sunset Beach Resort",
+  count: 2,
+  check_in: daysFromToday(14),
+  check_out: daysFromToday(17),
+  guests: 2,
+  rooms: rooms.slice(0, 2),
+};
+
+describeWidgetStates("SearchRoomsWidgetV2", SearchRoomsWidgetV2, {
+  error: { error: "The search service is unavailable." },
+  empty: { property_name: "Sunset Beach Resort", count: 0, rooms: [] },
+  malformed: { rooms: "not a list" },
+  populated: {
+    count: rooms.length,
+    check_in: daysFromToday(14),
+    check_out: daysFromToday(17),
+    guests: 2,
+    rooms,
+    hotels: [
+      hotel({ matching_rooms: rooms.slice(0, 2) }),
+      hotel({
+        property_id: "p-2",
+        property_name: "Harbour View Hotel",
+        min_price_per_night: 140,
+        latitude: 36.7,
+        longitude: -4.4,
+        matching_rooms: rooms.slice(2),
+      }),
+    ],
+  },
+});
+
+describe("SearchRoomsWidgetV2 keyboard", () => {
+  it("gives the room list one tab stop and moves between cards with the arrow keys", async () => {
+    const user = userEvent.setup();
+    renderWidget(SearchRoomsWidgetV2, { payload: singleHotel });
+
+    const [first, second] = screen.getAllByRole("article");
+    expect([first.tabIndex, second.tabIndex]).toEqual([0, -1]);
+
+    first.focus();
+    await user.keyboard("{ArrowRight}");
+    expect(document.activeElement).toBe(second);
+    expect([first.tabIndex, second.tabIndex]).toEqual([-1, 0]);
+
+    await user.keyboard("{Home}");
+    expect(document.activeElement).toBe(first);
+  });
+
+  it("reserves from the keyboard with the searched dates", async () => {
+    const user = userEvent.setup();
+    const callTool = vi.fn(async () => ({
+      structuredContent: { booking_id: "bk-9", status: "pending" },
+    }));
+    renderWidget(SearchRoomsWidgetV2, { payload: singleHotel, host: { callTool } });
+
+    const [first] = screen.getAllByRole("article");
+    within(first).getByRole("button", { name: "Reserve Now" }).focus();
+    await user.keyboard("{Enter}");
+
+    const name = screen.getByLabelText("Full name");
+    expect(document.activeElement).toBe(name);
+    await user.type(name, "Sam Rivera");
+    await user.type(screen.getByLabelText("Email"), "sam@example.com{Enter}");
+
+    await waitFor(() =>
+      expect(callTool).toHaveBeenCalledWith(
+        "create_booking",
+        expect.objectContaining({
+          property_id: "p-1",
+          room_id: "room-1",
+          guest_name: "Sam Rivera",
+          check_in: daysFromToday(14),
+          check_out: daysFromToday(17),
+        })
+      )
+    );
+    expect(await within(first).findByRole("button", { name: "Reserved" })).toBeTruthy();
+  });
+});
+
+describe("SearchRoomsWidgetV2 paging", () => {
+  it("asks for the next page with the original query, not the criteria bar's defaults", async () => {
+    const user = userEvent.setup();
+    const toolInput = { location: "Marbella", check_in: daysFromToday(30), guests: 3 };
+    const callTool = vi.fn(async () => ({
+      structuredContent: { property_id: "p-1", count: 3, rooms: [rooms[2]] },
+    }));
+    renderWidget(SearchRoomsWidgetV2, {
+      payload: {
+        property_id: "p-1",
+        count: 3,
+        rooms: rooms.slice(0, 2),
+        applied_filters: { check_out: daysFromToday(33), max_price: 400 },
+        paging: { next_cursor: "page-2" },
+      },
+      displayMode: "fullscreen",
+      host: { callTool, toolInput },
+    });
+
+    await user.click(screen.getByRole("button", { name: "Load more" }));
+    await waitFor(() => expect(callTool).toHaveBeenCalledTimes(1));
+    expect(callTool).toHaveBeenCalledWith("search_rooms", {
+      location: "Marbella",
+      property_id: "p-1",
+      check_in: daysFromToday(30),
+      check_out: daysFromToday(33),
+      guests: 3,
+      max_price: 400,
+      cursor: "page-2",
+    });
+    expect(await screen.findByText("City Double")).toBeTruthy();
+  });
+});
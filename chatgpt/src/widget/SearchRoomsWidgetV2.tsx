@@ -1,7 +1,60 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
-
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from "react";
+
+import { callTool, readBootstrap, requestDisplayMode, ToolCallError } from "../bridge/client";
+import { readToolError } from "../bridge/payload";
+import { useDisplayMode, useMaxHeight, useToolInput } from "../bridge/useOpenAIGlobal";
+import { useToolOutput } from "../bridge/useToolOutput";
+import { useWidgetState } from "../bridge/useWidgetState";
+import type { MessageKey } from "../i18n/catalog";
+import { useI18n } from "../i18n/I18nProvider";
+import {
+  countDroppedItems,
+  validateSearchRoomsPayload,
+} from "../validation/payloads";
+import { useFocusOnMessage, useListNavigation, type ListItemProps } from "./a11y";
+import { ConvertedPrice } from "./ConvertedPrice";
+import { addDays, countNights, todayIsoDate, type SearchCriteria } from "./dates";
+import {
+  GuestDetailsForm,
+  prefillGuestDetails,
+  type GuestDetails,
+} from "./GuestDetailsForm";
+import { groupRoomsByHotel, HotelGroupList } from "./HotelGroupList";
+import { hasHotelLocations, HotelMap } from "./HotelMap";
+import { PhotoCarousel, PhotoLightbox } from "./PhotoGallery";
+import {
+  isCompareDisabled,
+  MAX_COMPARE_ROOMS,
+  MIN_COMPARE_ROOMS,
+  RoomComparison,
+  type CompareSelection,
+} from "./RoomComparison";
+import { RoomDetailPanel } from "./RoomDetailPanel";
+import { RoomFactText } from "./RoomFactText";
+import { mergeSearchPages, resolveNextPage, resolvePageProgress } from "./searchPaging";
+import { SearchSummary } from "./SearchSummary";
+import { extractSearchRoomsPayload } from "./toolPayloads";
+import {
+  formatPrice,
+  RESERVE_LABELS,
+  resolveArea,
+  resolveBaths,
+  resolveBeds,
+  resolveImageSources,
+  type ReservationState,
+} from "./roomDisplay";
+import { ActiveFiltersBar, RoomFilterToolbar, type HotelOption } from "./RoomFilterToolbar";
+import {
+  collectAmenities,
+  DEFAULT_ROOM_FILTERS,
+  matchesRoomFilters,
+  sortRooms,
+  type RoomFilters,
+  type RoomSort,
+} from "./roomFilters";
+import { SearchCriteriaBar } from "./SearchCriteriaBar";
 import type {
-  OpenAIBridge,
+  ExchangeRates,
   SearchHotel,
   SearchRoom,
   SearchRoomsStructuredPayload,
@@ -14,66 +67,6 @@ const FALLBACK_GRADIENTS = [
   "linear-gradient(150deg, #384958 0%, #4f6578 42%, #68839b 100%)",
 ];
 
-const BRIDGE_METHODS = [
-  "getInitialState",
-  "getState",
-  "getContext",
-  "getToolOutput",
-] as const;
-
-const BRIDGE_STATIC_KEYS = [
-  "toolOutput",
-  "output",
-  "data",
-  "result",
-  "response",
-  "toolResult",
-  "tool_output",
-  "tool_result",
-  "state",
-  "value",
-] as const;
-
-const MAX_BRIDGE_ATTEMPTS_FAST = 100;
-const BRIDGE_POLL_INTERVAL_FAST = 100;
-const MAX_BRIDGE_ATTEMPTS_SLOW = 40;
-const BRIDGE_POLL_INTERVAL_SLOW = 500;
-
-let bridgeMessageId = 0;
-
-type BootstrapData = {
-  widget?: string;
-  payload?: unknown;
-};
-
-const isRecord = (value: unknown): value is Record<string, unknown> =>
-  typeof value === "object" && value !== null;
-
-const parseJson = (value: string | null): unknown => {
-  if (!value) return null;
-  try {
-    return JSON.parse(value);
-  } catch {
-    return null;
-  }
-};
-
-const coerceToRecord = (value: unknown): Record<string, unknown> | null => {
-  if (isRecord(value)) return value;
-  if (typeof value === "string") {
-    const parsed = parseJson(value);
-    if (isRecord(parsed)) return parsed;
-  }
-  return null;
-};
-
-const hasSearchRoomsData = (value: Record<string, unknown>): boolean =>
-  Object.prototype.hasOwnProperty.call(value, "rooms") ||
-  Object.prototype.hasOwnProperty.call(value, "hotels") ||
-  Object.prototype.hasOwnProperty.call(value, "count") ||
-  Object.prototype.hasOwnProperty.call(value, "property_name") ||
-  Object.prototype.hasOwnProperty.call(value, "error");
-
 const flattenHotelsToRooms = (hotels: SearchHotel[] | undefined): SearchRoom[] => {
   if (!hotels || hotels.length === 0) return [];
 
@@ -90,219 +83,185 @@ const flattenHotelsToRooms = (hotels: SearchHotel[] | undefined): SearchRoom[] =
   return rooms;
 };
 
-const extractStructuredPayload = (
-  payload: unknown
-): SearchRoomsStructuredPayload | null => {
-  const record = coerceToRecord(payload);
-  if (!record) return null;
-
-  const maybeStructured = coerceToRecord(record.structuredContent);
-  if (maybeStructured) {
-    return maybeStructured as SearchRoomsStructuredPayload;
-  }
-
-  for (const key of [
-    "result",
-    "output",
-    "data",
-    "response",
-    "toolResult",
-    "tool_result",
-    "toolOutput",
-    "tool_output",
-    "value",
-  ]) {
-    const extracted = extractStructuredPayload(record[key]);
-    if (extracted) return extracted;
-  }
-
-  if (Array.isArray(record.content)) {
-    for (const item of record.content) {
-      if (!isRecord(item)) continue;
-      const text = item.text;
-      if (typeof text !== "string") continue;
-      const parsed = parseJson(text);
-      const extracted = extractStructuredPayload(parsed);
-      if (extracted) return extracted;
-    }
-  }
-
-  if (hasSearchRoomsData(record)) {
-    return record as SearchRoomsStructuredPayload;
-  }
-
-  for (const value of Object.values(record)) {
-    const nested = coerceToRecord(value);
-    if (!nested) continue;
-    if (hasSearchRoomsData(nested)) {
-      return nested as SearchRoomsStructuredPayload;
-    }
-  }
-
-  return null;
-};
-
-const describeCandidateType = (value: unknown): string => {
-  if (value === null) return "null";
-  if (Array.isArray(value)) return `array(${value.length})`;
-  return typeof value;
-};
+const WIDGET_STATE_VERSION = 4;
+const SCROLL_PERSIST_DELAY_MS = 250;
 
-const bootstrapPayloadFromScript = (): SearchRoomsStructuredPayload | null => {
-  const node = document.getElementById("monobook-widget-bootstrap");
-  const fromScript = parseJson(node?.textContent ?? null) as BootstrapData | null;
-  const query = new URLSearchParams(window.location.search);
-  const queryPayload = parseJson(query.get("payload"));
+type ResultsView = "grouped" | "flat" | "map";
 
-  return (
-    extractStructuredPayload(fromScript?.payload) ??
-    extractStructuredPayload(queryPayload)
-  );
-};
+/**
+ * `carousel` is the inline layout, `full` (grid, filters, paging) is for
+ * fullscreen, and `compact` is the picture-in-picture summary.
+ */
+type SearchLayout = "carousel" | "full" | "compact";
 
-const isPrefixCurrencyDisplay = (currencyDisplay: string): boolean => {
-  return !/[A-Za-z]/.test(currencyDisplay);
+const RESULTS_VIEW_LABELS: Record<ResultsView, MessageKey> = {
+  grouped: "search.view.grouped",
+  flat: "search.view.flat",
+  map: "search.view.map",
 };
 
-const resolveCurrencyDisplay = (
-  currencyDisplay: string | undefined,
-  currencyCode: string | undefined
-): string => {
-  const normalizedDisplay = currencyDisplay?.trim();
-  if (normalizedDisplay) return normalizedDisplay;
-  const normalizedCode = currencyCode?.trim().toUpperCase();
-  if (!normalizedCode) return "$";
-  if (normalizedCode === "USD") return "$";
-  return normalizedCode;
+type SearchWidgetState = {
+  selectedRoomId: string | null;
+  shortlist: string[];
+  scrollY: number;
+  filters: RoomFilters;
+  sort: RoomSort;
+  /** Only meaningful for `search_hotels` results; `null` until the user picks one. */
+  view: ResultsView | null;
+  collapsedHotels: string[];
+  compareRoomIds: string[];
 };
 
-const formatPrice = (
-  value: string | number | undefined,
-  currencyDisplay: string | undefined,
-  currencyCode: string | undefined
-): string => {
-  const numeric = Number(value ?? 0);
-  const resolvedCurrencyDisplay = resolveCurrencyDisplay(
-    currencyDisplay,
-    currencyCode
-  );
-  if (Number.isFinite(numeric)) {
-    const amount = numeric.toLocaleString("en-US", { maximumFractionDigits: 0 });
-    if (isPrefixCurrencyDisplay(resolvedCurrencyDisplay)) {
-      return `${resolvedCurrencyDisplay}${amount}`;
-    }
-    return `${amount} ${resolvedCurrencyDisplay}`;
-  }
-  if (isPrefixCurrencyDisplay(resolvedCurrencyDisplay)) {
-    return `${resolvedCurrencyDisplay}0`;
-  }
-  return `0 ${resolvedCurrencyDisplay}`;
-};
-
-const resolveImageSource = (room: SearchRoom): string | null => {
-  const firstImage = room.images?.[0];
-  if (!firstImage) return null;
-  if (
-    firstImage.startsWith("http://") ||
-    firstImage.startsWith("https://") ||
-    firstImage.startsWith("/") ||
-    firstImage.startsWith("data:image/")
-  ) {
-    return firstImage;
-  }
-  return null;
+const DEFAULT_WIDGET_STATE: SearchWidgetState = {
+  selectedRoomId: null,
+  shortlist: [],
+  scrollY: 0,
+  filters: DEFAULT_ROOM_FILTERS,
+  sort: "recommended",
+  view: null,
+  collapsedHotels: [],
+  compareRoomIds: [],
 };
 
-const resolveBathCount = (room: SearchRoom): string => {
-  const fromAmenity = (room.amenities ?? []).find((item) => /bath/i.test(item));
-  const amenityMatch = fromAmenity?.match(/\d+(?:\.\d+)?/);
-  if (amenityMatch) return amenityMatch[0];
-
-  const descriptionMatch = room.description?.match(/(\d+(?:\.\d+)?)\s*(bath|bathroom)/i);
-  if (descriptionMatch) return descriptionMatch[1];
-
-  return "1";
+const resolveResultKey = (payload: SearchRoomsStructuredPayload | null): string => {
+  if (!payload) return "pending";
+  return [
+    // The first hotel is stable as further pages are appended.
+    payload.property_id ?? payload.hotels?.[0]?.property_id ?? "",
+    payload.check_in ?? payload.applied_filters?.check_in ?? "",
+    payload.check_out ?? payload.applied_filters?.check_out ?? "",
+    payload.guests ?? payload.applied_filters?.guests ?? "",
+  ].join("|");
 };
 
-const resolveArea = (room: SearchRoom): string => {
-  const textBlocks = [room.description, ...(room.amenities ?? [])].filter(Boolean);
-  for (const block of textBlocks) {
-    const match = block?.match(/(\d{3,5})\s*(sq\.?\s*ft|sqft|ft2|sqm|m2)/i);
-    if (match) {
-      const unit = /sqm|m2/i.test(match[2]) ? "sqm" : "sqft";
-      return `${match[1]} ${unit}`;
-    }
-  }
-
-  return "N/A";
+type SearchState = {
+  status: "idle" | "searching" | "failed";
+  error?: string;
 };
 
-const callToolWithFallback = async (
-  toolName: string,
-  args: Record<string, unknown>
-): Promise<unknown> => {
-  const bridge = window.openai;
-  if (bridge?.callTool) {
-    return bridge.callTool(toolName, args);
-  }
-
-  const message = {
-    jsonrpc: "2.0" as const,
-    method: "tools/call",
-    params: { name: toolName, arguments: args },
-    id: ++bridgeMessageId,
-  };
-
-  try {
-    window.parent.postMessage(JSON.stringify(message), "*");
-  } catch {
-    // Ignore postMessage errors outside iframe contexts.
-  }
-
-  return message.id;
+/** The tool that produced this widget, so re-searches hit the same one. */
+const resolveSearchTool = (payload: SearchRoomsStructuredPayload | null): string => {
+  const widget = readBootstrap()?.widget;
+  if (widget === "search_rooms" || widget === "search_hotels") return widget;
+  return payload?.hotels ? "search_hotels" : "search_rooms";
 };
 
 type RoomCardV2Props = {
   room: SearchRoom;
   index: number;
-  selected: boolean;
+  reservation: ReservationState | null;
+  shortlisted: boolean;
+  onToggleShortlist: (room: SearchRoom) => void;
   subtitle: string;
   onBookNow: (room: SearchRoom) => void;
+  onOpenPhotos: (room: SearchRoom, index: number) => void;
+  onOpenDetails: (room: SearchRoom) => void;
+  compare: CompareSelection;
+  rates?: ExchangeRates;
+  /** Roving-focus props when the card sits in a keyboard-navigable list. */
+  listItem?: ListItemProps;
 };
 
-function RoomCardV2({ room, index, selected, subtitle, onBookNow }: RoomCardV2Props) {
-  const imageSrc = resolveImageSource(room);
-  const guestCount = room.max_guests && room.max_guests > 0 ? room.max_guests : 2;
-  const bedCount = Math.max(1, Math.ceil(guestCount / 2));
-  const bathCount = resolveBathCount(room);
-  const area = resolveArea(room);
+function RoomCardV2({
+  room,
+  index,
+  reservation,
+  shortlisted,
+  subtitle,
+  onBookNow,
+  onToggleShortlist,
+  onOpenPhotos,
+  onOpenDetails,
+  compare,
+  rates,
+  listItem,
+}: RoomCardV2Props) {
+  const i18n = useI18n();
+  const { locale, t } = i18n;
+  const titleId = useId();
+  const status = reservation?.status;
+  const selected = status === "reserved" || status === "selected";
+  const images = useMemo(() => resolveImageSources(room.images), [room.images]);
+  const beds = resolveBeds(room, i18n);
+  const baths = resolveBaths(room, i18n);
+  const area = resolveArea(room, i18n);
   const fallbackBackground = FALLBACK_GRADIENTS[index % FALLBACK_GRADIENTS.length];
+  const comparing = compare.roomIds.includes(room.id);
 
   return (
-    <article className="room-card-v2">
-      {imageSrc ? (
-        <img className="room-card-v2__image" src={imageSrc} alt={room.name} />
-      ) : (
-        <div
-          className="room-card-v2__image room-card-v2__image--fallback"
-          style={{ background: fallbackBackground }}
-          aria-label={room.name}
-        />
-      )}
+    <article className="room-card-v2" aria-labelledby={titleId} {...listItem}>
+      <PhotoCarousel
+        className="room-card-v2__media"
+        images={images}
+        label={room.name}
+        fallbackBackground={fallbackBackground}
+        onOpen={(photoIndex) => onOpenPhotos(room, photoIndex)}
+      />
 
       <div className="room-card-v2__overlay" />
 
+      <button
+        type="button"
+        className={
+          comparing
+            ? "room-card-v2__compare room-card-v2__compare--active"
+            : "room-card-v2__compare"
+        }
+        aria-pressed={comparing}
+        aria-label={t("card.compareLabel", { name: room.name })}
+        disabled={isCompareDisabled(compare, room)}
+        onClick={() => compare.onToggle(room)}
+      >
+        {comparing ? t("card.comparing") : t("card.compare")}
+      </button>
+
+      <button
+        type="button"
+        className={
+          shortlisted
+            ? "room-card-v2__shortlist room-card-v2__shortlist--active"
+            : "room-card-v2__shortlist"
+        }
+        aria-pressed={shortlisted}
+        aria-label={t(shortlisted ? "card.unshortlist" : "card.shortlist", { name: room.name })}
+        onClick={() => onToggleShortlist(room)}
+      >
+        <svg viewBox="0 0 24 24" aria-hidden="true">
+          <path
+            d="M12 20s-7-4.4-7-10a4 4 0 0 1 7-2.6A4 4 0 0 1 19 10c0 5.6-7 10-7 10z"
+            fill={shortlisted ? "currentColor" : "none"}
+            stroke="currentColor"
+            strokeWidth="1.8"
+          />
+        </svg>
+      </button>
+
       <div className="room-card-v2__content">
-        <h3 className="room-card-v2__title">{room.name}</h3>
-        <p className="room-card-v2__subtitle">{subtitle}</p>
+        <h3 id={titleId} className="room-card-v2__title">
+          {room.name}
+        </h3>
+        <p className="room-card-v2__subtitle">
+          {subtitle}
+          <button
+            type="button"
+            className="room-card-v2__details"
+            aria-haspopup="dialog"
+            aria-label={t("card.viewDetailsFor", { name: room.name })}
+            onClick={() => onOpenDetails(room)}
+          >
+            {t("card.viewDetails")}
+          </button>
+        </p>
 
-        <div className="room-card-v2__facts" role="list" aria-label="Room details">
+        <div className="room-card-v2__facts" role="list" aria-label={t("card.facts")}>
           <span className="room-card-v2__fact" role="listitem">
             <svg viewBox="0 0 24 24" aria-hidden="true">
               <path d="M3 11h18v8H3z" fill="none" stroke="currentColor" strokeWidth="1.8" />
               <path d="M6 11V8a3 3 0 0 1 6 0v3" fill="none" stroke="currentColor" strokeWidth="1.8" />
             </svg>
-            <span>Bed: {bedCount}</span>
+            <span>
+              <RoomFactText fact={beds} />
+            </span>
           </span>
 
           <span className="room-card-v2__fact room-card-v2__fact--separated" role="listitem">
@@ -315,16 +274,22 @@ function RoomCardV2({ room, index, selected, subtitle, onBookNow }: RoomCardV2Pr
               />
               <path d="M4 15h16v3H4z" fill="none" stroke="currentColor" strokeWidth="1.8" />
             </svg>
-            <span>Baths: {bathCount}</span>
+            <span>
+              <RoomFactText fact={baths} />
+            </span>
           </span>
 
-          <span className="room-card-v2__fact room-card-v2__fact--separated" role="listitem">
-            <svg viewBox="0 0 24 24" aria-hidden="true">
-              <path d="M4 8h16M4 16h16" fill="none" stroke="currentColor" strokeWidth="1.8" />
-              <path d="M4 4v16M20 4v16" fill="none" stroke="currentColor" strokeWidth="1.8" />
-            </svg>
-            <span>{area}</span>
-          </span>
+          {area && (
+            <span className="room-card-v2__fact room-card-v2__fact--separated" role="listitem">
+              <svg viewBox="0 0 24 24" aria-hidden="true">
+                <path d="M4 8h16M4 16h16" fill="none" stroke="currentColor" strokeWidth="1.8" />
+                <path d="M4 4v16M20 4v16" fill="none" stroke="currentColor" strokeWidth="1.8" />
+              </svg>
+              <span>
+                <RoomFactText fact={area} />
+              </span>
+            </span>
+          )}
         </div>
 
         <div className="room-card-v2__actions">
@@ -332,8 +297,15 @@ function RoomCardV2({ room, index, selected, subtitle, onBookNow }: RoomCardV2Pr
             {formatPrice(
               room.price_per_night,
               room.currency_display,
-              room.currency_code
+              room.currency_code,
+              locale
             )}
+            <ConvertedPrice
+              className="room-card-v2__converted"
+              amount={room.price_per_night}
+              currencyCode={room.currency_code}
+              rates={rates}
+            />
           </span>
           <button
             type="button"
@@ -343,136 +315,100 @@ function RoomCardV2({ room, index, selected, subtitle, onBookNow }: RoomCardV2Pr
                 : "room-card-v2__reserve"
             }
             onClick={() => onBookNow(room)}
+            disabled={status === "pending"}
+            aria-busy={status === "pending"}
           >
-            {selected ? "Reserved" : "Reserve Now"}
+            {t(status ? RESERVE_LABELS[status] : "reserve.now")}
           </button>
         </div>
+
+        {status === "failed" && (
+          <p className="room-card-v2__error" role="alert">
+            {reservation?.error ?? t("reserve.error")}
+          </p>
+        )}
       </div>
     </article>
   );
 }
 
 export function SearchRoomsWidgetV2() {
-  const [initialPayload] = useState<SearchRoomsStructuredPayload | null>(
-    () => bootstrapPayloadFromScript()
+  const { dir, t } = useI18n();
+  const {
+    payload: rawPayload,
+    loading,
+    setPayload,
+  } = useToolOutput(extractSearchRoomsPayload);
+  const validation = useMemo(
+    () => (rawPayload ? validateSearchRoomsPayload(rawPayload) : null),
+    [rawPayload]
   );
-  const [payload, setPayload] = useState<SearchRoomsStructuredPayload | null>(
-    initialPayload
+  const payload: SearchRoomsStructuredPayload | null = validation?.value ?? null;
+  const invalidPayload = Boolean(validation && !validation.value);
+  const droppedCount = validation ? countDroppedItems(validation) : 0;
+  const [widgetState, setWidgetState] = useWidgetState<SearchWidgetState>({
+    key: `search-rooms:${resolveResultKey(payload)}`,
+    version: WIDGET_STATE_VERSION,
+    defaults: DEFAULT_WIDGET_STATE,
+  });
+  const [pendingReservation, setReservation] = useState<ReservationState | null>(null);
+  const reservation: ReservationState | null =
+    pendingReservation ??
+    (widgetState.selectedRoomId
+      ? { roomId: widgetState.selectedRoomId, status: "reserved" }
+      : null);
+  const scrollRestoredRef = useRef(false);
+  const toolInput = useToolInput();
+  const [guestFormRoom, setGuestFormRoom] = useState<SearchRoom | null>(null);
+  const [lastGuestDetails, setLastGuestDetails] = useState<GuestDetails | null>(null);
+  const [photoViewer, setPhotoViewer] = useState<{ room: SearchRoom; index: number } | null>(
+    null
+  );
+  const [detailRoom, setDetailRoom] = useState<SearchRoom | null>(null);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const displayMode = useDisplayMode();
+  const maxHeight = useMaxHeight();
+  // Set when the host won't go fullscreen, so the full layout opens inline instead.
+  const [expandedInline, setExpandedInline] = useState(false);
+  const layout: SearchLayout =
+    displayMode === "pip"
+      ? "compact"
+      : displayMode === "fullscreen" || expandedInline
+        ? "full"
+        : "carousel";
+  const photoViewerImages = useMemo(
+    () => resolveImageSources(photoViewer?.room.images),
+    [photoViewer?.room.images]
   );
-  const [loading, setLoading] = useState<boolean>(() => !initialPayload);
-  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
-
-  const loadBridgePayload = useCallback(async (): Promise<SearchRoomsStructuredPayload | null> => {
-    const bridge = window.openai as OpenAIBridge | undefined;
-    if (!bridge) {
-      console.warn("[SearchRoomsWidgetV2] OpenAI bridge not found on window.");
-      return null;
-    }
-
-    const bridgeRecord = bridge as Record<string, unknown>;
-    const candidates: unknown[] = [];
-    const seen = new Set<unknown>();
-
-    const addCandidate = (value: unknown) => {
-      if (typeof value === "undefined") return;
-      if (seen.has(value)) return;
-      seen.add(value);
-      candidates.push(value);
-    };
-
-    for (const key of BRIDGE_STATIC_KEYS) {
-      addCandidate(bridgeRecord[key]);
-    }
-
-    for (const methodName of BRIDGE_METHODS) {
-      const method = bridge[methodName];
-      if (typeof method !== "function") continue;
-      try {
-        addCandidate(await method.call(bridge));
-      } catch {
-        // Bridge methods can be absent/fail depending on host lifecycle.
-      }
-    }
-
-    for (const [key, value] of Object.entries(bridgeRecord)) {
-      if (key.startsWith("_")) continue;
-      if (typeof value === "function") continue;
-      if (BRIDGE_STATIC_KEYS.includes(key as (typeof BRIDGE_STATIC_KEYS)[number])) {
-        continue;
-      }
-      addCandidate(value);
-    }
-
-    console.warn(
-      `[SearchRoomsWidgetV2] Evaluating ${candidates.length} bridge candidates.`,
-      candidates.map((candidate) => describeCandidateType(candidate))
-    );
 
-    for (const candidate of candidates) {
-      const extracted = extractStructuredPayload(candidate);
-      if (extracted) {
-        console.warn("[SearchRoomsWidgetV2] Structured payload extracted from bridge.");
-        return extracted;
-      }
-    }
-    console.warn("[SearchRoomsWidgetV2] Structured payload extraction failed.");
-    return null;
-  }, []);
+  useEffect(() => {
+    if (!validation || validation.issues.length === 0) return;
+    console.warn("[SearchRoomsWidgetV2] Payload validation issues:", validation.issues);
+  }, [validation]);
 
   useEffect(() => {
-    if (payload) {
-      setLoading(false);
-      return;
+    if (loading || scrollRestoredRef.current) return;
+    scrollRestoredRef.current = true;
+    if (widgetState.scrollY > 0) {
+      window.scrollTo({ top: widgetState.scrollY });
     }
+  }, [loading, widgetState.scrollY]);
 
-    let cancelled = false;
-    let attempts = 0;
+  useEffect(() => {
     let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-    const pollBridge = async () => {
-      if (cancelled) return;
-      const extracted = await loadBridgePayload();
-      if (cancelled) return;
-
-      if (extracted) {
-        setPayload(extracted);
-        setLoading(false);
-        return;
-      }
-
-      attempts += 1;
-      if (attempts < MAX_BRIDGE_ATTEMPTS_FAST) {
-        timeoutId = setTimeout(pollBridge, BRIDGE_POLL_INTERVAL_FAST);
-      } else if (
-        attempts <
-        MAX_BRIDGE_ATTEMPTS_FAST + MAX_BRIDGE_ATTEMPTS_SLOW
-      ) {
-        timeoutId = setTimeout(pollBridge, BRIDGE_POLL_INTERVAL_SLOW);
-      } else {
-        setLoading(false);
-      }
+    const onScroll = () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        setWidgetState({ scrollY: Math.round(window.scrollY) });
+      }, SCROLL_PERSIST_DELAY_MS);
     };
 
-    const onMessage = (event: MessageEvent) => {
-      if (cancelled) return;
-      const extracted = extractStructuredPayload(event.data);
-      if (!extracted) return;
-      setPayload(extracted);
-      setLoading(false);
-      console.warn("[SearchRoomsWidgetV2] Structured payload received via postMessage.");
-    };
-
-    window.addEventListener("message", onMessage);
-    pollBridge();
-
+    window.addEventListener("scroll", onScroll, { passive: true });
     return () => {
-      cancelled = true;
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
-      window.removeEventListener("message", onMessage);
+      if (timeoutId) clearTimeout(timeoutId);
+      window.removeEventListener("scroll", onScroll);
     };
-  }, [loadBridgePayload, payload]);
+  }, [setWidgetState]);
 
   const rooms = useMemo(() => {
     if (Array.isArray(payload?.rooms) && payload.rooms.length > 0) {
@@ -493,21 +429,25 @@ export function SearchRoomsWidgetV2() {
   }, [payload, rooms.length]);
 
   const titleText = useMemo(() => {
+    const roomsLabel = t("common.rooms", { count });
     if (hotelCount > 1) {
-      return `${count} rooms across ${hotelCount} hotels`;
+      return t("search.titleAcross", {
+        rooms: roomsLabel,
+        hotels: t("common.hotels", { count: hotelCount }),
+      });
     }
 
     if (hotelCount === 1) {
       const hotelName =
         payload?.hotels?.[0]?.property_name?.trim() ||
         payload?.property_name?.trim() ||
-        "Selected hotel";
-      return `${count} rooms at ${hotelName}`;
+        t("search.selectedHotel");
+      return t("search.titleAt", { rooms: roomsLabel, name: hotelName });
     }
 
-    const propertyName = payload?.property_name?.trim() || "Selected property";
-    return `${count} rooms at ${propertyName}`;
-  }, [count, hotelCount, payload]);
+    const propertyName = payload?.property_name?.trim() || t("search.selectedProperty");
+    return t("search.titleAt", { rooms: roomsLabel, name: propertyName });
+  }, [count, hotelCount, payload, t]);
 
   const roomSubtitle = useMemo(() => {
     const byPropertyId = new Map<string, string>();
@@ -532,13 +472,149 @@ export function SearchRoomsWidgetV2() {
       const roomType = room.type?.trim();
       if (roomType) return roomType;
 
-      return "Monobook Collection";
+      return t("search.defaultCollection");
+    };
+  }, [payload?.hotels, payload?.property_name, t]);
+
+  const searchedGuests = payload?.guests ?? payload?.applied_filters?.guests;
+  const [searchState, setSearchState] = useState<SearchState>({ status: "idle" });
+  // Results are only announced after a search from the widget, not on first render.
+  const [announceResults, setAnnounceResults] = useState(false);
+  const searchControllerRef = useRef<AbortController | null>(null);
+  // Arguments behind the current results: the chat's tool call until the widget searches itself.
+  const [searchArgs, setSearchArgs] = useState<Record<string, unknown> | null>(null);
+
+  const criteria = useMemo<SearchCriteria>(() => {
+    const checkIn =
+      payload?.check_in ?? payload?.applied_filters?.check_in ?? addDays(todayIsoDate(), 1);
+    return {
+      check_in: checkIn,
+      check_out: payload?.check_out ?? payload?.applied_filters?.check_out ?? addDays(checkIn, 1),
+      guests: searchedGuests ?? 2,
     };
-  }, [payload?.hotels, payload?.property_name]);
+  }, [payload, searchedGuests]);
 
-  const onBookNow = useCallback(
-    async (room: SearchRoom) => {
-      setSelectedRoomId(room.id);
+  const [pageState, setPageState] = useState<SearchState>({ status: "idle" });
+  const pagerErrorRef = useFocusOnMessage<HTMLParagraphElement>(
+    pageState.status === "failed" ? pageState.error : null
+  );
+  const pageControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(
+    () => () => {
+      searchControllerRef.current?.abort();
+      pageControllerRef.current?.abort();
+    },
+    []
+  );
+
+  const onSearch = useCallback(
+    async (next: SearchCriteria) => {
+      searchControllerRef.current?.abort();
+      pageControllerRef.current?.abort();
+      const controller = new AbortController();
+      searchControllerRef.current = controller;
+      setSearchState({ status: "searching" });
+      setAnnounceResults(false);
+      setPageState({ status: "idle" });
+
+      const toolName = resolveSearchTool(payload);
+      const args = {
+        ...toolInput,
+        ...(toolName === "search_rooms" && payload?.property_id
+          ? { property_id: payload.property_id }
+          : {}),
+        ...next,
+      };
+      try {
+        const result = await callTool(toolName, args, { signal: controller.signal });
+        const nextPayload = extractSearchRoomsPayload(result);
+        if (!nextPayload) {
+          setSearchState({
+            status: "failed",
+            error: readToolError(result) ?? t("search.unreadable"),
+          });
+          return;
+        }
+
+        setPayload(nextPayload);
+        setSearchArgs(args);
+        setReservation(null);
+        setGuestFormRoom(null);
+        setSearchState({ status: "idle" });
+        setAnnounceResults(true);
+      } catch (error) {
+        if (error instanceof ToolCallError && error.reason === "aborted") return;
+        console.error(`[SearchRoomsWidgetV2] ${toolName} failed:`, error);
+        setSearchState({
+          status: "failed",
+          error: error instanceof Error ? error.message : t("search.failed"),
+        });
+      }
+    },
+    [payload, setPayload, t, toolInput]
+  );
+
+  const nextPage = useMemo(() => (payload ? resolveNextPage(payload) : null), [payload]);
+  const pageProgress = useMemo(
+    () => (payload ? resolvePageProgress(payload) : null),
+    [payload]
+  );
+
+  const onLoadMore = useCallback(async () => {
+    if (!payload || !nextPage) return;
+    pageControllerRef.current?.abort();
+    const controller = new AbortController();
+    pageControllerRef.current = controller;
+    setPageState({ status: "searching" });
+
+    const toolName = resolveSearchTool(payload);
+    try {
+      // The same query as the current results, never the criteria bar's defaults.
+      const result = await callTool(
+        toolName,
+        {
+          ...(searchArgs ?? toolInput),
+          ...(toolName === "search_rooms" && payload.property_id
+            ? { property_id: payload.property_id }
+            : {}),
+          ...payload.applied_filters,
+          ...nextPage,
+        },
+        { signal: controller.signal }
+      );
+      const nextRaw = extractSearchRoomsPayload(result);
+      const next = nextRaw ? validateSearchRoomsPayload(nextRaw).value : null;
+      if (!next || next.error) {
+        setPageState({
+          status: "failed",
+          error: next?.error ?? readToolError(result) ?? t("pager.error"),
+        });
+        return;
+      }
+
+      setPayload(mergeSearchPages(payload, next));
+      setPageState({ status: "idle" });
+    } catch (error) {
+      if (error instanceof ToolCallError && error.reason === "aborted") return;
+      console.error(`[SearchRoomsWidgetV2] ${toolName} (next page) failed:`, error);
+      setPageState({
+        status: "failed",
+        error: error instanceof Error ? error.message : t("pager.error"),
+      });
+    }
+  }, [nextPage, payload, searchArgs, setPayload, t, toolInput]);
+
+  const onBookNow = useCallback((room: SearchRoom) => {
+    setDetailRoom(null);
+    setCompareOpen(false);
+    setGuestFormRoom(room);
+  }, []);
+
+  const reserveRoom = useCallback(
+    async (room: SearchRoom, details: GuestDetails) => {
+      setLastGuestDetails(details);
+      setReservation({ roomId: room.id, status: "pending" });
 
       const propertyId =
         room.property_id ??
@@ -547,19 +623,41 @@ export function SearchRoomsWidgetV2() {
         null;
       const checkIn = payload?.check_in ?? payload?.applied_filters?.check_in ?? "";
       const checkOut = payload?.check_out ?? payload?.applied_filters?.check_out ?? "";
-      const guests = payload?.guests ?? payload?.applied_filters?.guests ?? 2;
 
       try {
-        await callToolWithFallback("create_booking", {
+        const result = await callTool("create_booking", {
           property_id: propertyId,
           room_id: room.id,
-          guest_name: "Guest",
+          guest_name: details.guest_name,
+          guest_email: details.guest_email,
+          guest_phone: details.guest_phone || undefined,
+          special_requests: details.special_requests || undefined,
           check_in: checkIn,
           check_out: checkOut,
-          guests,
+          guests: details.guests,
         });
+        const toolError = readToolError(result);
+        if (toolError) {
+          setReservation({ roomId: room.id, status: "failed", error: toolError });
+        } else {
+          setReservation({ roomId: room.id, status: "reserved" });
+          setWidgetState({ selectedRoomId: room.id });
+          setGuestFormRoom(null);
+        }
       } catch (error) {
         console.error("[SearchRoomsWidgetV2] callTool failed:", error);
+        if (error instanceof ToolCallError && error.reason === "unavailable") {
+          // Outside a host the embedding page handles the selection event below.
+          setReservation({ roomId: room.id, status: "selected" });
+          setWidgetState({ selectedRoomId: room.id });
+          setGuestFormRoom(null);
+        } else {
+          setReservation({
+            roomId: room.id,
+            status: "failed",
+            error: error instanceof Error ? error.message : undefined,
+          });
+        }
       }
 
       // Keep event dispatching as fallback for non-ChatGPT contexts
@@ -581,20 +679,218 @@ export function SearchRoomsWidgetV2() {
         // Keep UI responsive even if parent messaging is unavailable.
       }
     },
-    [payload]
+    [payload, setWidgetState]
+  );
+
+  const amenityOptions = useMemo(() => collectAmenities(rooms), [rooms]);
+
+  const hotelOptions = useMemo<HotelOption[]>(
+    () =>
+      (payload?.hotels ?? []).flatMap((hotel) =>
+        hotel.property_id
+          ? [
+              {
+                propertyId: hotel.property_id,
+                name: hotel.property_name?.trim() || t("common.hotel"),
+              },
+            ]
+          : []
+      ),
+    [payload?.hotels, t]
+  );
+
+  const guestOptions = useMemo(
+    () =>
+      [...new Set(rooms.map((room) => room.max_guests ?? 0))]
+        .filter((guests) => guests > 0)
+        .sort((a, b) => a - b),
+    [rooms]
+  );
+
+  const visibleRooms = useMemo(
+    () =>
+      sortRooms(
+        rooms.filter((room) => matchesRoomFilters(room, widgetState.filters)),
+        widgetState.sort
+      ),
+    [rooms, widgetState.filters, widgetState.sort]
+  );
+  const roomList = useListNavigation(visibleRooms.length, dir);
+
+  const onFiltersChange = useCallback(
+    (patch: Partial<RoomFilters>) => {
+      setWidgetState((current) => ({ filters: { ...current.filters, ...patch } }));
+    },
+    [setWidgetState]
+  );
+
+  const onResetFilters = useCallback(() => {
+    setWidgetState({ filters: DEFAULT_ROOM_FILTERS });
+  }, [setWidgetState]);
+
+  const onResetFiltersAndSort = useCallback(() => {
+    setWidgetState({ filters: DEFAULT_ROOM_FILTERS, sort: DEFAULT_WIDGET_STATE.sort });
+  }, [setWidgetState]);
+
+  const hasHotelGroups = (payload?.hotels?.length ?? 0) > 0;
+  const view: ResultsView = hasHotelGroups ? widgetState.view ?? "grouped" : "flat";
+
+  const hotelGroups = useMemo(
+    () => (hasHotelGroups ? groupRoomsByHotel(payload?.hotels ?? [], visibleRooms) : []),
+    [hasHotelGroups, payload?.hotels, visibleRooms]
+  );
+  const canShowMap = useMemo(
+    () => hasHotelLocations(groupRoomsByHotel(payload?.hotels ?? [], rooms)),
+    [payload?.hotels, rooms]
+  );
+  const resultsView: ResultsView = view === "map" && !canShowMap ? "grouped" : view;
+  const viewOptions: ResultsView[] = canShowMap ? ["grouped", "flat", "map"] : ["grouped", "flat"];
+
+  const onToggleHotel = useCallback(
+    (key: string) => {
+      setWidgetState((current) => ({
+        collapsedHotels: current.collapsedHotels.includes(key)
+          ? current.collapsedHotels.filter((item) => item !== key)
+          : [...current.collapsedHotels, key],
+      }));
+    },
+    [setWidgetState]
+  );
+
+  const onOpenPhotos = useCallback((room: SearchRoom, index: number) => {
+    setPhotoViewer({ room, index });
+  }, []);
+
+  const onToggleCompare = useCallback(
+    (room: SearchRoom) => {
+      setWidgetState((current) => {
+        if (current.compareRoomIds.includes(room.id)) {
+          return { compareRoomIds: current.compareRoomIds.filter((id) => id !== room.id) };
+        }
+        if (current.compareRoomIds.length >= MAX_COMPARE_ROOMS) return {};
+        return { compareRoomIds: [...current.compareRoomIds, room.id] };
+      });
+    },
+    [setWidgetState]
+  );
+
+  const compareSelection = useMemo<CompareSelection>(
+    () => ({ roomIds: widgetState.compareRoomIds, onToggle: onToggleCompare }),
+    [onToggleCompare, widgetState.compareRoomIds]
   );
 
+  const compareRooms = useMemo(
+    () =>
+      widgetState.compareRoomIds.flatMap((id) => {
+        const room = rooms.find((item) => item.id === id);
+        return room ? [room] : [];
+      }),
+    [rooms, widgetState.compareRoomIds]
+  );
+
+  const onOpenDetails = useCallback((room: SearchRoom) => {
+    setDetailRoom(room);
+  }, []);
+
+  const onShowHotelRooms = useCallback(
+    (key: string) => {
+      setWidgetState((current) => ({
+        view: "grouped",
+        collapsedHotels: current.collapsedHotels.filter((item) => item !== key),
+      }));
+    },
+    [setWidgetState]
+  );
+
+  const onToggleShortlist = useCallback(
+    (room: SearchRoom) => {
+      setWidgetState((current) => ({
+        shortlist: current.shortlist.includes(room.id)
+          ? current.shortlist.filter((id) => id !== room.id)
+          : [...current.shortlist, room.id],
+      }));
+    },
+    [setWidgetState]
+  );
+
+  const onExpand = useCallback(async () => {
+    if (!(await requestDisplayMode("fullscreen"))) setExpandedInline(true);
+  }, []);
+
+  const onOpenFromSummary = useCallback(async () => {
+    if (!(await requestDisplayMode("fullscreen"))) void requestDisplayMode("inline");
+  }, []);
+
+  const searchAnnouncement =
+    searchState.status === "searching"
+      ? t("criteria.searching")
+      : announceResults
+        ? titleText
+        : "";
+  // Failures are left to the guest form's alert; restored reservations aren't news.
+  const announcedRoom =
+    pendingReservation && pendingReservation.status !== "failed"
+      ? rooms.find((room) => room.id === pendingReservation.roomId)
+      : undefined;
+  const reservationAnnouncement =
+    pendingReservation && announcedRoom
+      ? t("layout.status", {
+          status: t(RESERVE_LABELS[pendingReservation.status]),
+          name: announcedRoom.name,
+        })
+      : "";
+
   return (
-    <main className="rooms-widget-v2">
+    <main
+      className={`rooms-widget-v2 rooms-widget-v2--${layout}`}
+      style={layout !== "full" && maxHeight ? { maxHeight } : undefined}
+    >
+      <div className="visually-hidden" role="status">
+        <p>{searchAnnouncement}</p>
+        <p>{reservationAnnouncement}</p>
+      </div>
+
+      {/* Dialogs render first so they close before the guest form tries to take focus. */}
+      <RoomComparison
+        open={compareOpen && compareRooms.length >= MIN_COMPARE_ROOMS}
+        rooms={compareRooms}
+        propertyName={roomSubtitle}
+        reservation={reservation}
+        rates={payload?.exchange_rates}
+        onBookNow={onBookNow}
+        onRemove={onToggleCompare}
+        onClose={() => setCompareOpen(false)}
+      />
+      <RoomDetailPanel
+        room={detailRoom}
+        subtitle={detailRoom ? roomSubtitle(detailRoom) : ""}
+        nights={countNights(criteria.check_in, criteria.check_out)}
+        reservation={reservation?.roomId === detailRoom?.id ? reservation : null}
+        rates={payload?.exchange_rates}
+        onBookNow={onBookNow}
+        onOpenPhotos={onOpenPhotos}
+        onClose={() => setDetailRoom(null)}
+      />
+
       <div className="rooms-widget-v2__content">
         {loading && (
-          <>
-            <div className="skeleton skeleton--title" />
-            <div className="rooms-grid-v2">
+          <div role="status" aria-busy="true">
+            <span className="visually-hidden">{t("a11y.loadingRooms")}</span>
+            <div className="skeleton skeleton--title" aria-hidden="true" />
+            <div className="rooms-grid-v2" aria-hidden="true">
               <div className="skeleton skeleton--card-v2" />
               <div className="skeleton skeleton--card-v2" />
             </div>
-          </>
+          </div>
+        )}
+
+        {!loading && payload && layout === "full" && (
+          <SearchCriteriaBar
+            criteria={criteria}
+            searching={searchState.status === "searching"}
+            error={searchState.status === "failed" ? searchState.error : undefined}
+            onSearch={onSearch}
+          />
         )}
 
         {!loading && payload?.error && (
@@ -603,31 +899,284 @@ export function SearchRoomsWidgetV2() {
           </div>
         )}
 
-        {!loading && !payload?.error && (
+        {!loading && invalidPayload && (
+          <div className="widget-alert" role="alert">
+            {t("common.malformedResults")}
+          </div>
+        )}
+
+        {!loading && !invalidPayload && !payload?.error && layout === "compact" && (
           <>
-            <h2 className="rooms-widget-v2__title">{titleText}</h2>
+            <ActiveFiltersBar
+              filters={widgetState.filters}
+              sort={widgetState.sort}
+              shownCount={visibleRooms.length}
+              totalCount={rooms.length}
+              onReset={onResetFiltersAndSort}
+              onEdit={onOpenFromSummary}
+            />
+            <SearchSummary
+              title={titleText}
+              rooms={visibleRooms}
+              reservation={reservation}
+              onOpen={onOpenFromSummary}
+            />
+          </>
+        )}
+
+        {!loading && !invalidPayload && !payload?.error && layout !== "compact" && (
+          <>
+            {droppedCount > 0 && (
+              <p className="widget-notice" role="status">
+                {t("common.droppedRooms", { count: droppedCount })}
+              </p>
+            )}
+
+            <div className="rooms-widget-v2__header">
+              <h2 className="rooms-widget-v2__title">{titleText}</h2>
+              {layout === "carousel" && (
+                <button
+                  type="button"
+                  className="rooms-widget-v2__expand"
+                  aria-label={t("layout.expandLabel")}
+                  onClick={onExpand}
+                >
+                  {t("layout.expand")}
+                </button>
+              )}
+              {expandedInline && displayMode === "inline" && (
+                <button
+                  type="button"
+                  className="rooms-widget-v2__expand"
+                  onClick={() => setExpandedInline(false)}
+                >
+                  {t("layout.collapse")}
+                </button>
+              )}
+              {layout === "full" && hasHotelGroups && (
+                <div className="view-toggle" role="group" aria-label={t("search.layout")}>
+                  {viewOptions.map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      className={
+                        resultsView === option
+                          ? "view-toggle__option view-toggle__option--active"
+                          : "view-toggle__option"
+                      }
+                      aria-pressed={resultsView === option}
+                      onClick={() => setWidgetState({ view: option })}
+                    >
+                      {t(RESULTS_VIEW_LABELS[option])}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {guestFormRoom && (
+              <GuestDetailsForm
+                key={guestFormRoom.id}
+                room={guestFormRoom}
+                initialDetails={
+                  lastGuestDetails ?? prefillGuestDetails(toolInput, searchedGuests)
+                }
+                submitting={
+                  reservation?.roomId === guestFormRoom.id &&
+                  reservation.status === "pending"
+                }
+                error={
+                  reservation?.roomId === guestFormRoom.id && reservation.status === "failed"
+                    ? reservation.error ?? t("reserve.error")
+                    : undefined
+                }
+                onSubmit={(details) => reserveRoom(guestFormRoom, details)}
+                onCancel={() => setGuestFormRoom(null)}
+              />
+            )}
+
+            {layout === "full" && rooms.length > 1 && (
+              <RoomFilterToolbar
+                filters={widgetState.filters}
+                sort={widgetState.sort}
+                amenityOptions={amenityOptions}
+                hotelOptions={hotelOptions}
+                guestOptions={guestOptions}
+                shownCount={visibleRooms.length}
+                totalCount={rooms.length}
+                onFiltersChange={onFiltersChange}
+                onSortChange={(sort) => setWidgetState({ sort })}
+                onReset={onResetFilters}
+              />
+            )}
+
+            {layout === "carousel" && (
+              <ActiveFiltersBar
+                filters={widgetState.filters}
+                sort={widgetState.sort}
+                shownCount={visibleRooms.length}
+                totalCount={rooms.length}
+                onReset={onResetFiltersAndSort}
+                onEdit={onExpand}
+              />
+            )}
 
             {rooms.length === 0 ? (
               <p className="rooms-widget-v2__empty">
-                No rooms found for these filters.
+                {t("common.noRoomsFound")}
+              </p>
+            ) : visibleRooms.length === 0 ? (
+              <p className="rooms-widget-v2__empty">
+                {t("search.noMatches")}{" "}
+                <button type="button" className="room-filters__reset" onClick={onResetFilters}>
+                  {t("common.clearFilters")}
+                </button>
               </p>
+            ) : layout === "carousel" ? (
+              <div
+                className="rooms-carousel"
+                role="list"
+                aria-label={titleText}
+                aria-busy={searchState.status === "searching"}
+                onKeyDown={roomList.onKeyDown}
+              >
+                {visibleRooms.map((room, index) => (
+                  <div key={room.id} className="rooms-carousel__item" role="listitem">
+                    <RoomCardV2
+                      room={room}
+                      index={index}
+                      reservation={reservation?.roomId === room.id ? reservation : null}
+                      shortlisted={widgetState.shortlist.includes(room.id)}
+                      onToggleShortlist={onToggleShortlist}
+                      subtitle={roomSubtitle(room)}
+                      onBookNow={onBookNow}
+                      onOpenPhotos={onOpenPhotos}
+                      onOpenDetails={onOpenDetails}
+                      compare={compareSelection}
+                      rates={payload?.exchange_rates}
+                      listItem={roomList.itemProps(index)}
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : resultsView === "map" ? (
+              <HotelMap
+                groups={hotelGroups}
+                tiles={readBootstrap()?.map}
+                onShowRooms={onShowHotelRooms}
+              />
+            ) : resultsView === "grouped" ? (
+              <HotelGroupList
+                groups={hotelGroups}
+                collapsedKeys={widgetState.collapsedHotels}
+                reservation={reservation}
+                busy={searchState.status === "searching"}
+                onToggle={onToggleHotel}
+                onBookNow={onBookNow}
+                onOpenDetails={onOpenDetails}
+                compare={compareSelection}
+                rates={payload?.exchange_rates}
+              />
             ) : (
-              <div className="rooms-grid-v2">
-                {rooms.map((room, index) => (
-                  <RoomCardV2
-                    key={room.id}
-                    room={room}
-                    index={index}
-                    selected={selectedRoomId === room.id}
-                    subtitle={roomSubtitle(room)}
-                    onBookNow={onBookNow}
-                  />
+              <div
+                className="rooms-grid-v2"
+                role="list"
+                aria-label={titleText}
+                aria-busy={searchState.status === "searching"}
+                onKeyDown={roomList.onKeyDown}
+              >
+                {visibleRooms.map((room, index) => (
+                  <div key={room.id} className="rooms-grid-v2__item" role="listitem">
+                    <RoomCardV2
+                      room={room}
+                      index={index}
+                      reservation={reservation?.roomId === room.id ? reservation : null}
+                      shortlisted={widgetState.shortlist.includes(room.id)}
+                      onToggleShortlist={onToggleShortlist}
+                      subtitle={roomSubtitle(room)}
+                      onBookNow={onBookNow}
+                      onOpenPhotos={onOpenPhotos}
+                      onOpenDetails={onOpenDetails}
+                      compare={compareSelection}
+                      rates={payload?.exchange_rates}
+                      listItem={roomList.itemProps(index)}
+                    />
+                  </div>
                 ))}
               </div>
             )}
+
+            {layout === "full" &&
+              pageProgress &&
+              (nextPage || pageProgress.total > pageProgress.loaded) && (
+                <div className="rooms-pager">
+                  <span className="rooms-pager__count" role="status" aria-live="polite">
+                    {pageProgress.total > pageProgress.loaded
+                      ? t(pageProgress.unit === "hotels" ? "pager.hotelsOf" : "pager.roomsOf", {
+                          loaded: pageProgress.loaded,
+                          count: pageProgress.total,
+                        })
+                      : t(pageProgress.unit === "hotels" ? "pager.hotels" : "pager.rooms", {
+                          count: pageProgress.loaded,
+                        })}
+                  </span>
+                  {nextPage && (
+                    <button
+                      type="button"
+                      className="rooms-pager__more"
+                      disabled={pageState.status === "searching"}
+                      aria-busy={pageState.status === "searching"}
+                      onClick={onLoadMore}
+                    >
+                      {t(pageState.status === "searching" ? "pager.loading" : "pager.more")}
+                    </button>
+                  )}
+                  {pageState.status === "failed" && (
+                    <p
+                      ref={pagerErrorRef}
+                      className="rooms-pager__error"
+                      role="alert"
+                      tabIndex={-1}
+                    >
+                      {pageState.error}
+                    </p>
+                  )}
+                </div>
+              )}
           </>
         )}
       </div>
+
+      {layout !== "compact" && compareRooms.length > 0 && (
+        <div className="compare-bar" role="region" aria-label={t("compare.region")}>
+          <span className="compare-bar__count">
+            {t("compare.selected", { count: compareRooms.length, max: MAX_COMPARE_ROOMS })}
+          </span>
+          <button
+            type="button"
+            className="compare-bar__clear"
+            onClick={() => setWidgetState({ compareRoomIds: [] })}
+          >
+            {t("compare.clear")}
+          </button>
+          <button
+            type="button"
+            className="compare-bar__open"
+            aria-haspopup="dialog"
+            disabled={compareRooms.length < MIN_COMPARE_ROOMS}
+            onClick={() => setCompareOpen(true)}
+          >
+            {t("compare.open")}
+          </button>
+        </div>
+      )}
+
+      <PhotoLightbox
+        images={photoViewerImages}
+        label={photoViewer?.room.name ?? ""}
+        openIndex={photoViewer?.index ?? null}
+        onClose={() => setPhotoViewer(null)}
+      />
     </main>
   );
 }
@@ -0,0 +1,62 @@
+import { useMemo } from "react";
+
+import { useI18n } from "../i18n/I18nProvider";
+import type { SearchRoom } from "../openai";
+import { formatPrice, RESERVE_LABELS, type ReservationState } from "./roomDisplay";
+
+type SearchSummaryProps = {
+  title: string;
+  rooms: SearchRoom[];
+  reservation: ReservationState | null;
+  onOpen: () => void;
+};
+
+const cheapestRoom = (rooms: SearchRoom[]): SearchRoom | null => {
+  let cheapest: SearchRoom | null = null;
+  for (const room of rooms) {
+    const price = Number(room.price_per_night);
+    if (!Number.isFinite(price)) continue;
+    if (!cheapest || price < Number(cheapest.price_per_night)) cheapest = room;
+  }
+  return cheapest;
+};
+
+/** The picture-in-picture layout: one line of results plus the room being booked. */
+export function SearchSummary({ title, rooms, reservation, onOpen }: SearchSummaryProps) {
+  const { locale, t } = useI18n();
+  const cheapest = useMemo(() => cheapestRoom(rooms), [rooms]);
+  const reservedRoom = reservation
+    ? rooms.find((room) => room.id === reservation.roomId) ?? null
+    : null;
+
+  return (
+    <section className="search-summary" aria-label={title}>
+      <div className="search-summary__text">
+        <h2 className="search-summary__title">{title}</h2>
+        {cheapest && (
+          <p className="search-summary__meta">
+            {t("layout.fromPrice", {
+              price: formatPrice(
+                cheapest.price_per_night,
+                cheapest.currency_display,
+                cheapest.currency_code,
+                locale
+              ),
+            })}
+          </p>
+        )}
+        {reservation && reservedRoom && (
+          <p className="search-summary__status">
+            {t("layout.status", {
+              status: t(RESERVE_LABELS[reservation.status]),
+              name: reservedRoom.name,
+            })}
+          </p>
+        )}
+      </div>
+      <button type="button" className="search-summary__open" onClick={onOpen}>
+        {t("layout.open")}
+      </button>
+    </section>
+  );
+}
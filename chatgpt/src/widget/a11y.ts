@@ -0,0 +1,128 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type KeyboardEvent,
+  type RefObject,
+} from "react";
+
+import type { TextDirection } from "../i18n/locale";
+
+/**
+ * Focuses the element whenever `message` changes to something to show. Meant
+ * for errors that follow a user action; errors in the initial payload
+ * shouldn't pull focus into the widget, so those keep `role="alert"` only.
+ */
+export const useFocusOnMessage = <T extends HTMLElement>(
+  message: string | null | undefined
+): RefObject<T> => {
+  const ref = useRef<T>(null);
+  useEffect(() => {
+    if (message) ref.current?.focus();
+  }, [message]);
+  return ref;
+};
+
+/**
+ * Remembers what had focus when `active` turns on and hands focus back when it
+ * turns off or the component unmounts; not every browser does this for
+ * `<dialog>`. Call it after the effect that closes the dialog, since focus
+ * can't land on the opener while the modal still makes it inert.
+ */
+export const useReturnFocus = (active: boolean): void => {
+  const openerRef = useRef<HTMLElement | null>(null);
+
+  const restore = useCallback(() => {
+    const opener = openerRef.current;
+    openerRef.current = null;
+    if (opener?.isConnected) opener.focus({ preventScroll: true });
+  }, []);
+
+  // Layout effects run before any `showModal()` in a regular effect moves focus.
+  useLayoutEffect(() => {
+    if (active && document.activeElement instanceof HTMLElement) {
+      openerRef.current = document.activeElement;
+    }
+  }, [active]);
+
+  useEffect(() => {
+    if (!active) restore();
+  }, [active, restore]);
+
+  useEffect(() => restore, [restore]);
+};
+
+const LIST_ITEM_ATTRIBUTE = "data-list-item";
+
+export type ListItemProps = {
+  tabIndex: number;
+  onFocus: () => void;
+  [LIST_ITEM_ATTRIBUTE]: "";
+};
+
+type ListNavigation = {
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+  itemProps: (index: number) => ListItemProps;
+};
+
+/** Items laid out on the same row as the first one, so Up/Down can skip a whole row. */
+const countColumns = (items: HTMLElement[]): number => {
+  const top = items[0]?.offsetTop;
+  const columns = items.filter((item) => item.offsetTop === top).length;
+  return Math.max(1, columns);
+};
+
+/**
+ * Roving focus for a list or grid of cards: one Tab stop for the whole list,
+ * arrow keys (mirrored for RTL), Home and End to move between cards. Keys
+ * pressed inside a card's own controls are left alone.
+ */
+export const useListNavigation = (count: number, dir: TextDirection): ListNavigation => {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const current = Math.min(activeIndex, Math.max(0, count - 1));
+
+  const onKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLElement>) => {
+      const target = event.target as HTMLElement;
+      if (!target.hasAttribute(LIST_ITEM_ATTRIBUTE)) return;
+      const items = Array.from(
+        event.currentTarget.querySelectorAll<HTMLElement>(`[${LIST_ITEM_ATTRIBUTE}]`)
+      );
+      const index = items.indexOf(target);
+      if (index === -1) return;
+
+      const forward = dir === "rtl" ? -1 : 1;
+      const columns = countColumns(items);
+      const next: Record<string, number> = {
+        ArrowRight: index + forward,
+        ArrowLeft: index - forward,
+        Home: 0,
+        End: items.length - 1,
+      };
+      // A single row (the carousel) leaves Up/Down to scroll the page.
+      if (columns < items.length) {
+        next.ArrowDown = index + columns;
+        next.ArrowUp = index - columns;
+      }
+      if (!(event.key in next)) return;
+
+      event.preventDefault();
+      const nextIndex = Math.min(items.length - 1, Math.max(0, next[event.key]));
+      items[nextIndex]?.focus();
+    },
+    [dir]
+  );
+
+  const itemProps = useCallback(
+    (index: number): ListItemProps => ({
+      tabIndex: index === current ? 0 : -1,
+      onFocus: () => setActiveIndex(index),
+      [LIST_ITEM_ATTRIBUTE]: "",
+    }),
+    [current]
+  );
+
+  return { onKeyDown, itemProps };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+
+import { createI18n } from "../i18n/I18nProvider";
+import { addDays, countNights, todayIsoDate, validateCriteria } from "./dates";
+
+describe("date helpers", () => {
+  it("adds days across month and year ends", () => {
+    expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDays("2026-03-01", -1)).toBe("2026-02-28");
+  });
+
+  it("counts nights, or null for an unusable range", () => {
+    expect(countNights("2026-11-02", "2026-11-05")).toBe(3);
+    expect(countNights("2026-11-05", "2026-11-05")).toBeNull();
+    expect(countNights("soon", "2026-11-05")).toBeNull();
+  });
+});
+
+describe("validateCriteria", () => {
+  const { t } = createI18n("en-US");
+  const today = todayIsoDate();
+
+  it("accepts a future range", () => {
+    expect(
+      validateCriteria({ check_in: today, check_out: addDays(today, 2), guests: 2 }, t)
+    ).toBeNull();
+  });
+
+  it("explains what's wrong with the range", () => {
+    expect(validateCriteria({ check_in: "", check_out: today, guests: 2 }, t)).toBe(
+      t("criteria.missingDates")
+    );
+    expect(
+      validateCriteria({ check_in: addDays(today, -1), check_out: today, guests: 2 }, t)
+    ).toBe(t("criteria.pastCheckIn"));
+    expect(validateCriteria({ check_in: today, check_out: today, guests: 2 }, t)).toBe(
+      t("criteria.checkOutOrder")
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import type { Translate } from "../i18n/I18nProvider";
+
+export type SearchCriteria = {
+  check_in: string;
+  check_out: string;
+  guests: number;
+};
+
+export const MIN_GUESTS = 1;
+export const MAX_GUESTS = 16;
+
+const toIsoDate = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const addDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+
+export const todayIsoDate = (): string => toIsoDate(new Date());
+
+/** Nights between two `YYYY-MM-DD` dates, or `null` when the range is unusable. */
+export const countNights = (checkIn: string, checkOut: string): number | null => {
+  const start = new Date(`${checkIn}T00:00:00`).getTime();
+  const end = new Date(`${checkOut}T00:00:00`).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return null;
+  return Math.round((end - start) / 86_400_000);
+};
+
+export const validateCriteria = (criteria: SearchCriteria, t: Translate): string | null => {
+  if (!criteria.check_in || !criteria.check_out) return t("criteria.missingDates");
+  if (criteria.check_in < todayIsoDate()) return t("criteria.pastCheckIn");
+  if (criteria.check_out <= criteria.check_in) return t("criteria.checkOutOrder");
+  return null;
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  fitViewport,
+  projectToViewport,
+  projectToWorld,
+  TILE_SIZE,
+  tilesForViewport,
+} from "./mapProjection";
+
+describe("projectToWorld", () => {
+  it("puts null island at the centre of the world", () => {
+    expect(projectToWorld({ latitude: 0, longitude: 0 }, 0)).toEqual({ x: 128, y: 128 });
+    expect(projectToWorld({ latitude: 0, longitude: 180 }, 1).x).toBe(TILE_SIZE * 2);
+  });
+
+  it("clamps latitudes beyond Web Mercator's limit", () => {
+    const pole = projectToWorld({ latitude: 90, longitude: 0 }, 0);
+    expect(pole.y).toBeCloseTo(0, 6);
+  });
+});
+
+describe("fitViewport", () => {
+  it("has nothing to fit without points", () => {
+    expect(fitViewport([], 400, 300, 20)).toBeNull();
+  });
+
+  it("centres a single point at a street-level zoom", () => {
+    const point = { latitude: 36.5, longitude: -4.9 };
+    const viewport = fitViewport([point], 400, 300, 20);
+    expect(viewport?.zoom).toBe(14);
+    const projected = projectToViewport(point, viewport!);
+    expect(projected.x).toBeCloseTo(200, 6);
+    expect(projected.y).toBeCloseTo(150, 6);
+  });
+
+  it("picks the highest zoom that keeps every point inside the padding", () => {
+    const points = [
+      { latitude: 36.5, longitude: -4.9 },
+      { latitude: 36.7, longitude: -4.4 },
+    ];
+    const viewport = fitViewport(points, 400, 300, 20)!;
+    for (const point of points) {
+      const { x, y } = projectToViewport(point, viewport);
+      expect(x).toBeGreaterThanOrEqual(20);
+      expect(x).toBeLessThanOrEqual(380);
+      expect(y).toBeGreaterThanOrEqual(20);
+      expect(y).toBeLessThanOrEqual(280);
+    }
+
+    // One zoom level closer, they no longer fit.
+    const [a, b] = points.map((point) => projectToWorld(point, viewport.zoom + 1));
+    expect(Math.abs(b.x - a.x) > 360 || Math.abs(b.y - a.y) > 260).toBe(true);
+  });
+});
+
+describe("tilesForViewport", () => {
+  it("covers the viewport and wraps x around the antimeridian", () => {
+    const viewport = { zoom: 1, width: 256, height: 256, originX: -128, originY: 0 };
+    const tiles = tilesForViewport(viewport, "https://tiles.example.com/{z}/{x}/{y}.png");
+    expect(tiles.map((tile) => tile.key)).toEqual(["1/-1/0", "1/-1/1", "1/0/0", "1/0/1"]);
+    expect(tiles[0]).toEqual({
+      key: "1/-1/0",
+      url: "https://tiles.example.com/1/1/0.png",
+      x: -128,
+      y: 0,
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Web Mercator helpers for the hotel map. Points are projected to the same
+ * pixel grid slippy-map tiles use, so a tile layer lines up when one is set.
+ */
+
+export const TILE_SIZE = 256;
+const MAX_ZOOM = 16;
+/** Zoom used when every hotel sits on the same spot. */
+const SINGLE_POINT_ZOOM = 14;
+const MAX_LATITUDE = 85.05112878;
+
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export type MapViewport = {
+  zoom: number;
+  width: number;
+  height: number;
+  /** World pixel coordinates of the viewport's top-left corner. */
+  originX: number;
+  originY: number;
+};
+
+export type MapTile = {
+  key: string;
+  url: string;
+  x: number;
+  y: number;
+};
+
+export const projectToWorld = (point: GeoPoint, zoom: number): { x: number; y: number } => {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const latitude = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.latitude));
+  const sin = Math.sin((latitude * Math.PI) / 180);
+  return {
+    x: ((point.longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
+
+/** Highest zoom at which every point fits inside the viewport minus `padding`. */
+export const fitViewport = (
+  points: GeoPoint[],
+  width: number,
+  height: number,
+  padding: number
+): MapViewport | null => {
+  if (points.length === 0) return null;
+
+  let zoom = SINGLE_POINT_ZOOM;
+  for (let candidate = MAX_ZOOM; candidate >= 0; candidate -= 1) {
+    const projected = points.map((point) => projectToWorld(point, candidate));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    const spanX = Math.max(...xs) - Math.min(...xs);
+    const spanY = Math.max(...ys) - Math.min(...ys);
+    if (spanX === 0 && spanY === 0) break;
+    if (spanX <= width - padding * 2 && spanY <= height - padding * 2) {
+      zoom = candidate;
+      break;
+    }
+    zoom = candidate;
+  }
+
+  const projected = points.map((point) => projectToWorld(point, zoom));
+  const xs = projected.map((point) => point.x);
+  const ys = projected.map((point) => point.y);
+  const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  return {
+    zoom,
+    width,
+    height,
+    originX: centerX - width / 2,
+    originY: centerY - height / 2,
+  };
+};
+
+/** Viewport-relative pixel position of a point. */
+export const projectToViewport = (
+  point: GeoPoint,
+  viewport: MapViewport
+): { x: number; y: number } => {
+  const world = projectToWorld(point, viewport.zoom);
+  return { x: world.x - viewport.originX, y: world.y - viewport.originY };
+};
+
+/** Tiles covering the viewport, positioned in viewport pixels. */
+export const tilesForViewport = (viewport: MapViewport, urlTemplate: string): MapTile[] => {
+  const count = 2 ** viewport.zoom;
+  const firstX = Math.floor(viewport.originX / TILE_SIZE);
+  const lastX = Math.floor((viewport.originX + viewport.width) / TILE_SIZE);
+  const firstY = Math.max(0, Math.floor(viewport.originY / TILE_SIZE));
+  const lastY = Math.min(count - 1, Math.floor((viewport.originY + viewport.height) / TILE_SIZE));
+
+  const tiles: MapTile[] = [];
+  for (let tileX = firstX; tileX <= lastX; tileX += 1) {
+    for (let tileY = firstY; tileY <= lastY; tileY += 1) {
+      const wrappedX = ((tileX % count) + count) % count;
+      tiles.push({
+        key: `${viewport.zoom}/${tileX}/${tileY}`,
+        url: urlTemplate
+          .replace("{z}", String(viewport.zoom))
+          .replace("{x}", String(wrappedX))
+          .replace("{y}", String(tileY)),
+        x: tileX * TILE_SIZE - viewport.originX,
+        y: tileY * TILE_SIZE - viewport.originY,
+      });
+    }
+  }
+  return tiles;
+};
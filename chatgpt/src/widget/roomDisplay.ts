@@ -0,0 +1,136 @@
+import type { MessageKey } from "../i18n/catalog";
+import type { I18n } from "../i18n/I18nProvider";
+import { areaUnitFor } from "../i18n/locale";
+import { formatMoney } from "../i18n/money";
+import type { BedType, RoomArea, SearchRoom } from "../openai";
+
+export type ReservationStatus = "pending" | "reserved" | "selected" | "failed";
+
+export type ReservationState = {
+  roomId: string;
+  status: ReservationStatus;
+  error?: string;
+};
+
+export const RESERVE_LABELS: Record<ReservationStatus, MessageKey> = {
+  pending: "reserve.pending",
+  reserved: "reserve.reserved",
+  selected: "reserve.selected",
+  failed: "reserve.failed",
+};
+
+/** Nightly and total prices; minor units only show when the amount has them. */
+export const formatPrice = (
+  value: string | number | undefined,
+  currencyDisplay: string | undefined,
+  currencyCode: string | undefined,
+  locale: string
+): string =>
+  formatMoney(Number(value ?? 0), { code: currencyCode, display: currencyDisplay }, locale, "auto");
+
+/** A room fact ready to show; `estimated` marks ones guessed from capacity or free text. */
+export type RoomFact = {
+  text: string;
+  estimated: boolean;
+};
+
+const BED_LABELS: Record<BedType, MessageKey> = {
+  king: "facts.bed.king",
+  queen: "facts.bed.queen",
+  double: "facts.bed.double",
+  twin: "facts.bed.twin",
+  single: "facts.bed.single",
+  sofa_bed: "facts.bed.sofaBed",
+  bunk: "facts.bed.bunk",
+  other: "facts.beds",
+};
+
+const SQFT_PER_SQM = 10.7639;
+
+/** Fallback only: two guests per bed. */
+const estimateBedCount = (room: SearchRoom): number => {
+  const guestCount = room.max_guests && room.max_guests > 0 ? room.max_guests : 2;
+  return Math.max(1, Math.ceil(guestCount / 2));
+};
+
+/** Fallback only: a number next to "bath" in the amenities or description. */
+const estimateBathCount = (room: SearchRoom): number => {
+  const fromAmenity = (room.amenities ?? []).find((item) => /bath/i.test(item));
+  const amenityMatch = fromAmenity?.match(/\d+(?:\.\d+)?/);
+  if (amenityMatch) return Number(amenityMatch[0]);
+
+  const descriptionMatch = room.description?.match(/(\d+(?:\.\d+)?)\s*(bath|bathroom)/i);
+  if (descriptionMatch) return Number(descriptionMatch[1]);
+
+  return 1;
+};
+
+/** Fallback only: a 3–5 digit figure followed by a floor area unit. */
+const estimateArea = (room: SearchRoom): RoomArea | null => {
+  const textBlocks = [room.description, ...(room.amenities ?? [])].filter(Boolean);
+  for (const block of textBlocks) {
+    const match = block?.match(/(\d{3,5})\s*(sq\.?\s*ft|sqft|ft2|sqm|m2)/i);
+    if (match) return { value: Number(match[1]), unit: /sqm|m2/i.test(match[2]) ? "sqm" : "sqft" };
+  }
+  return null;
+};
+
+export const resolveBeds = (room: SearchRoom, { t }: I18n): RoomFact => {
+  if (room.beds && room.beds.length > 0) {
+    return {
+      text: room.beds
+        .map((bed) => t(BED_LABELS[bed.type], { count: bed.count }))
+        .join(t("facts.bedSeparator")),
+      estimated: false,
+    };
+  }
+  if (room.bed_config) return { text: room.bed_config, estimated: false };
+  return { text: t("facts.beds", { count: estimateBedCount(room) }), estimated: true };
+};
+
+export const resolveBaths = (room: SearchRoom, { t }: I18n): RoomFact =>
+  typeof room.bathrooms === "number"
+    ? { text: t("facts.baths", { count: room.bathrooms }), estimated: false }
+    : { text: t("facts.baths", { count: estimateBathCount(room) }), estimated: true };
+
+/** In the locale's unit, converted if needed; `null` when the room doesn't say. */
+export const resolveArea = (room: SearchRoom, { locale, t }: I18n): RoomFact | null => {
+  const area = room.area ?? estimateArea(room);
+  if (!area) return null;
+
+  const unit = areaUnitFor(locale);
+  const value =
+    area.unit === unit
+      ? area.value
+      : unit === "sqft"
+        ? area.value * SQFT_PER_SQM
+        : area.value / SQFT_PER_SQM;
+  return {
+    text: t(unit === "sqft" ? "facts.areaSqft" : "facts.areaSqm", { value: Math.round(value) }),
+    estimated: !room.area,
+  };
+};
+
+export const resolveView = (room: SearchRoom): RoomFact | null =>
+  room.view ? { text: room.view, estimated: false } : null;
+
+export const resolveFloor = (room: SearchRoom, { t }: I18n): RoomFact | null =>
+  typeof room.floor === "number"
+    ? {
+        text: room.floor === 0 ? t("facts.groundFloor") : t("facts.floor", { floor: room.floor }),
+        estimated: false,
+      }
+    : null;
+
+const isSafeImageSource = (src: string): boolean =>
+  src.startsWith("http://") ||
+  src.startsWith("https://") ||
+  src.startsWith("/") ||
+  src.startsWith("data:image/");
+
+/** Every displayable image, in payload order; anything with another URL scheme is dropped. */
+export const resolveImageSources = (images: string[] | undefined): string[] =>
+  [...new Set((images ?? []).map((src) => src.trim()))].filter(isSafeImageSource);
+
+export const resolveImageSource = (room: SearchRoom): string | null =>
+  resolveImageSources(room.images)[0] ?? null;
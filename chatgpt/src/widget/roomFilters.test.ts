@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import { room } from "../test/fixtures";
+import {
+  collectAmenities,
+  DEFAULT_ROOM_FILTERS,
+  hasActiveFilters,
+  matchesRoomFilters,
+  sortRooms,
+  type RoomFilters,
+} from "./roomFilters";
+
+const filters = (patch: Partial<RoomFilters>): RoomFilters => ({
+  ...DEFAULT_ROOM_FILTERS,
+  ...patch,
+});
+
+describe("matchesRoomFilters", () => {
+  it("filters on the nightly price range, excluding unpriced rooms", () => {
+    const range = filters({ minPrice: 100, maxPrice: 200 });
+    expect(matchesRoomFilters(room({ price_per_night: 195 }), range)).toBe(true);
+    expect(matchesRoomFilters(room({ price_per_night: "250" }), range)).toBe(false);
+    expect(matchesRoomFilters(room({ price_per_night: undefined }), range)).toBe(false);
+  });
+
+  it("filters on capacity and hotel", () => {
+    expect(matchesRoomFilters(room({ max_guests: 2 }), filters({ minGuests: 3 }))).toBe(false);
+    expect(matchesRoomFilters(room(), filters({ propertyIds: ["p-2"] }))).toBe(false);
+    expect(matchesRoomFilters(room(), filters({ propertyIds: ["p-1", "p-2"] }))).toBe(true);
+  });
+
+  it("needs every selected amenity, ignoring case and spacing", () => {
+    const amenities = filters({ amenities: ["wifi", " POOL ACCESS"] });
+    expect(matchesRoomFilters(room(), amenities)).toBe(true);
+    expect(matchesRoomFilters(room({ amenities: ["WiFi"] }), amenities)).toBe(false);
+  });
+
+  it("matches everything by default", () => {
+    expect(hasActiveFilters(DEFAULT_ROOM_FILTERS)).toBe(false);
+    expect(matchesRoomFilters(room({ price_per_night: undefined }), DEFAULT_ROOM_FILTERS)).toBe(
+      true
+    );
+    expect(hasActiveFilters(filters({ amenities: ["WiFi"] }))).toBe(true);
+  });
+});
+
+describe("sortRooms", () => {
+  const rooms = [
+    room({ id: "a", price_per_night: 200, max_guests: 2 }),
+    room({ id: "b", price_per_night: undefined, max_guests: 6 }),
+    room({ id: "c", price_per_night: 120, max_guests: 4, estimated_total_price: 400 }),
+  ];
+  const ids = (sorted: typeof rooms) => sorted.map((item) => item.id);
+
+  it("keeps the host's order for recommended", () => {
+    expect(sortRooms(rooms, "recommended")).toBe(rooms);
+  });
+
+  it("sorts unpriced rooms last in both directions", () => {
+    expect(ids(sortRooms(rooms, "price_asc"))).toEqual(["c", "a", "b"]);
+    expect(ids(sortRooms(rooms, "price_desc"))).toEqual(["a", "c", "b"]);
+    expect(ids(sortRooms(rooms, "total_asc"))).toEqual(["c", "a", "b"]);
+  });
+
+  it("sorts by capacity without touching the input", () => {
+    expect(ids(sortRooms(rooms, "capacity_desc"))).toEqual(["b", "c", "a"]);
+    expect(ids(rooms)).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("collectAmenities", () => {
+  it("merges case variants and lists the most common first", () => {
+    expect(
+      collectAmenities([
+        room({ amenities: ["Pool", "WiFi"] }),
+        room({ amenities: ["wifi ", "Spa", "WIFI"] }),
+      ])
+    ).toEqual([
+      { label: "WiFi", count: 2 },
+      { label: "Pool", count: 1 },
+      { label: "Spa", count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import type { MessageKey } from "../i18n/catalog";
+import type { SearchRoom } from "../openai";
+
+export type RoomSort = "recommended" | "price_asc" | "price_desc" | "capacity_desc" | "total_asc";
+
+export type RoomFilters = {
+  minPrice: number | null;
+  maxPrice: number | null;
+  minGuests: number | null;
+  amenities: string[];
+  propertyIds: string[];
+};
+
+export const DEFAULT_ROOM_FILTERS: RoomFilters = {
+  minPrice: null,
+  maxPrice: null,
+  minGuests: null,
+  amenities: [],
+  propertyIds: [],
+};
+
+export const ROOM_SORT_LABELS: Record<RoomSort, MessageKey> = {
+  recommended: "sort.recommended",
+  price_asc: "sort.price_asc",
+  price_desc: "sort.price_desc",
+  capacity_desc: "sort.capacity_desc",
+  total_asc: "sort.total_asc",
+};
+
+export type AmenityOption = {
+  label: string;
+  count: number;
+};
+
+const normalizeAmenity = (amenity: string): string => amenity.trim().toLowerCase();
+
+export const roomNightlyPrice = (room: SearchRoom): number | null => {
+  const numeric = Number(room.price_per_night);
+  return room.price_per_night !== undefined && Number.isFinite(numeric) ? numeric : null;
+};
+
+export const roomTotalPrice = (room: SearchRoom): number | null =>
+  typeof room.estimated_total_price === "number" ? room.estimated_total_price : null;
+
+export const hasActiveFilters = (filters: RoomFilters): boolean =>
+  filters.minPrice !== null ||
+  filters.maxPrice !== null ||
+  filters.minGuests !== null ||
+  filters.amenities.length > 0 ||
+  filters.propertyIds.length > 0;
+
+/** Union of every room's amenities, most common first. */
+export const collectAmenities = (rooms: SearchRoom[]): AmenityOption[] => {
+  const byKey = new Map<string, AmenityOption>();
+  for (const room of rooms) {
+    const seen = new Set<string>();
+    for (const amenity of room.amenities ?? []) {
+      const key = normalizeAmenity(amenity);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      const option = byKey.get(key);
+      if (option) {
+        option.count += 1;
+      } else {
+        byKey.set(key, { label: amenity.trim(), count: 1 });
+      }
+    }
+  }
+  return [...byKey.values()].sort(
+    (a, b) => b.count - a.count || a.label.localeCompare(b.label)
+  );
+};
+
+export const matchesRoomFilters = (room: SearchRoom, filters: RoomFilters): boolean => {
+  const price = roomNightlyPrice(room);
+  if (filters.minPrice !== null && (price === null || price < filters.minPrice)) return false;
+  if (filters.maxPrice !== null && (price === null || price > filters.maxPrice)) return false;
+  if (filters.minGuests !== null && (room.max_guests ?? 0) < filters.minGuests) return false;
+  if (
+    filters.propertyIds.length > 0 &&
+    !filters.propertyIds.includes(room.property_id ?? "")
+  ) {
+    return false;
+  }
+  if (filters.amenities.length > 0) {
+    const roomAmenities = new Set((room.amenities ?? []).map(normalizeAmenity));
+    return filters.amenities.every((amenity) => roomAmenities.has(normalizeAmenity(amenity)));
+  }
+  return true;
+};
+
+/** Rooms without a price sort last regardless of direction. */
+const compareNullable = (a: number | null, b: number | null, direction: 1 | -1): number => {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return (a - b) * direction;
+};
+
+export const sortRooms = (rooms: SearchRoom[], sort: RoomSort): SearchRoom[] => {
+  if (sort === "recommended") return rooms;
+  return [...rooms].sort((a, b) => {
+    switch (sort) {
+      case "price_asc":
+        return compareNullable(roomNightlyPrice(a), roomNightlyPrice(b), 1);
+      case "price_desc":
+        return compareNullable(roomNightlyPrice(a), roomNightlyPrice(b), -1);
+      case "capacity_desc":
+        return compareNullable(a.max_guests ?? null, b.max_guests ?? null, -1);
+      case "total_asc":
+        return compareNullable(roomTotalPrice(a), roomTotalPrice(b), 1);
+      default:
+        return 0;
+    }
+  });
+};
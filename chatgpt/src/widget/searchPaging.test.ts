@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+
+import { hotel, room } from "../test/fixtures";
+import { mergeSearchPages, resolveNextPage, resolvePageProgress } from "./searchPaging";
+
+describe("resolveNextPage", () => {
+  it("prefers the cursor, then the offset the host sent", () => {
+    expect(resolveNextPage({ paging: { next_cursor: "c2", next_offset: 20 } })).toEqual({
+      cursor: "c2",
+    });
+    expect(resolveNextPage({ paging: { next_offset: 20 } })).toEqual({ offset: 20 });
+  });
+
+  it("stops when the host says there's no more", () => {
+    expect(resolveNextPage({ paging: { has_more: false, next_cursor: "c2" } })).toBeNull();
+  });
+
+  it("pages by offset when the host only sends counts", () => {
+    expect(resolveNextPage({ count: 5, rooms: [room(), room({ id: "room-2" })] })).toEqual({
+      offset: 2,
+    });
+    expect(resolveNextPage({ count: 1, rooms: [room()] })).toBeNull();
+  });
+});
+
+describe("resolvePageProgress", () => {
+  it("counts hotels for search_hotels and rooms otherwise", () => {
+    expect(resolvePageProgress({ count_hotels: 9, hotels: [hotel()] })).toEqual({
+      unit: "hotels",
+      loaded: 1,
+      total: 9,
+    });
+    expect(resolvePageProgress({ paging: { total: 12 }, rooms: [room()] })).toEqual({
+      unit: "rooms",
+      loaded: 1,
+      total: 12,
+    });
+  });
+
+  it("never reports fewer than are loaded", () => {
+    expect(resolvePageProgress({ count: 1, rooms: [room(), room({ id: "room-2" })] }).total).toBe(
+      2
+    );
+  });
+});
+
+describe("mergeSearchPages", () => {
+  it("appends rooms and drops ones already loaded", () => {
+    const merged = mergeSearchPages(
+      { count: 3, rooms: [room(), room({ id: "room-2" })], paging: { next_offset: 2 } },
+      { count: 3, rooms: [room({ id: "room-2" }), room({ id: "room-3" })], paging: {} }
+    );
+    expect(merged.rooms?.map((item) => item.id)).toEqual(["room-1", "room-2", "room-3"]);
+    expect(merged.paging).toEqual({});
+  });
+
+  it("merges a hotel's rooms and keeps its lowest price", () => {
+    const merged = mergeSearchPages(
+      { hotels: [hotel({ min_price_per_night: 195 })] },
+      {
+        hotels: [
+          hotel({ min_price_per_night: 150, matching_rooms: [room(), room({ id: "room-2" })] }),
+          hotel({ property_id: "p-2", matching_rooms: [room({ id: "room-9" })] }),
+        ],
+      }
+    );
+    expect(merged.hotels?.map((item) => item.property_id)).toEqual(["p-1", "p-2"]);
+    expect(merged.hotels?.[0].min_price_per_night).toBe(150);
+    expect(merged.hotels?.[0].matching_rooms?.map((item) => item.id)).toEqual([
+      "room-1",
+      "room-2",
+    ]);
+  });
+
+  it("ends paging when a page adds nothing new", () => {
+    const merged = mergeSearchPages(
+      { rooms: [room()], paging: { next_cursor: "c2" } },
+      { rooms: [room()], paging: { next_cursor: "c3" } }
+    );
+    expect(merged.paging).toEqual({ next_cursor: "c3", has_more: false });
+    expect(resolveNextPage(merged)).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import type { SearchHotel, SearchRoom, SearchRoomsStructuredPayload } from "../openai";
+
+export type PageRequest = { cursor: string } | { offset: number };
+
+const dedupeRooms = (rooms: SearchRoom[]): SearchRoom[] => {
+  const seen = new Set<string>();
+  return rooms.filter((room) => {
+    if (seen.has(room.id)) return false;
+    seen.add(room.id);
+    return true;
+  });
+};
+
+export type PageProgress = {
+  /** `search_hotels` pages by hotel, `search_rooms` by room. */
+  unit: "hotels" | "rooms";
+  loaded: number;
+  total: number;
+};
+
+export const resolvePageProgress = (payload: SearchRoomsStructuredPayload): PageProgress => {
+  const unit = payload.hotels ? "hotels" : "rooms";
+  const loaded = unit === "hotels" ? payload.hotels?.length ?? 0 : payload.rooms?.length ?? 0;
+  const reported =
+    payload.paging?.total ??
+    (unit === "hotels" ? payload.count_hotels : payload.count_rooms ?? payload.count);
+  return { unit, loaded, total: Math.max(reported ?? loaded, loaded) };
+};
+
+/**
+ * Arguments for the next page, or `null` when there isn't one. Hosts that only
+ * send counts get offset paging based on how much is already loaded.
+ */
+export const resolveNextPage = (payload: SearchRoomsStructuredPayload): PageRequest | null => {
+  const paging = payload.paging;
+  if (paging?.has_more === false) return null;
+  if (paging?.next_cursor) return { cursor: paging.next_cursor };
+  if (typeof paging?.next_offset === "number") return { offset: paging.next_offset };
+  const { loaded, total } = resolvePageProgress(payload);
+  if (paging?.has_more || total > loaded) return { offset: loaded };
+  return null;
+};
+
+const countRooms = (payload: SearchRoomsStructuredPayload): number =>
+  (payload.rooms?.length ?? 0) +
+  (payload.hotels ?? []).reduce((sum, hotel) => sum + (hotel.matching_rooms?.length ?? 0), 0);
+
+const mergeHotels = (current: SearchHotel[], next: SearchHotel[]): SearchHotel[] => {
+  const merged = current.map((hotel) => ({ ...hotel }));
+  for (const hotel of next) {
+    const existing = hotel.property_id
+      ? merged.find((item) => item.property_id === hotel.property_id)
+      : undefined;
+    if (!existing) {
+      merged.push(hotel);
+      continue;
+    }
+    existing.matching_rooms = dedupeRooms([
+      ...(existing.matching_rooms ?? []),
+      ...(hotel.matching_rooms ?? []),
+    ]);
+    if (
+      typeof hotel.min_price_per_night === "number" &&
+      (typeof existing.min_price_per_night !== "number" ||
+        hotel.min_price_per_night < existing.min_price_per_night)
+    ) {
+      existing.min_price_per_night = hotel.min_price_per_night;
+      existing.min_price_currency_code = hotel.min_price_currency_code;
+      existing.min_price_currency_display = hotel.min_price_currency_display;
+    }
+  }
+  return merged;
+};
+
+/**
+ * Appends the next page to the loaded results; rooms are deduplicated by `id`.
+ * A page that adds nothing ends paging so "Load more" can't loop.
+ */
+export const mergeSearchPages = (
+  current: SearchRoomsStructuredPayload,
+  next: SearchRoomsStructuredPayload
+): SearchRoomsStructuredPayload => {
+  const merged: SearchRoomsStructuredPayload = {
+    ...current,
+    rooms:
+      current.rooms || next.rooms
+        ? dedupeRooms([...(current.rooms ?? []), ...(next.rooms ?? [])])
+        : undefined,
+    hotels:
+      current.hotels || next.hotels
+        ? mergeHotels(current.hotels ?? [], next.hotels ?? [])
+        : undefined,
+    count: next.count ?? current.count,
+    count_rooms: next.count_rooms ?? current.count_rooms,
+    count_hotels: next.count_hotels ?? current.count_hotels,
+    paging: next.paging,
+  };
+  if (countRooms(merged) === countRooms(current)) {
+    merged.paging = { ...next.paging, has_more: false };
+  }
+  return merged;
+};
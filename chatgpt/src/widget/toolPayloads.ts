@@ -0,0 +1,32 @@
+import { extractToolPayload, hasOwn } from "../bridge/payload";
+
+const hasSearchRoomsData = (value: Record<string, unknown>): boolean =>
+  hasOwn(value, "rooms") ||
+  hasOwn(value, "hotels") ||
+  hasOwn(value, "count") ||
+  hasOwn(value, "property_name") ||
+  hasOwn(value, "error");
+
+const hasBookingData = (value: Record<string, unknown>): boolean =>
+  hasOwn(value, "booking_id") ||
+  (hasOwn(value, "status") && hasOwn(value, "total") && hasOwn(value, "check_in"));
+
+export const extractSearchRoomsPayload = (payload: unknown): Record<string, unknown> | null =>
+  extractToolPayload(payload, hasSearchRoomsData, { trustStructuredContent: true });
+
+export const extractBookingPayload = (payload: unknown): Record<string, unknown> | null =>
+  extractToolPayload(payload, hasBookingData);
+
+const hasBookingListData = (value: Record<string, unknown>): boolean =>
+  hasOwn(value, "bookings") || hasBookingData(value);
+
+/** A `list_bookings` list, or the single booking `get_booking` returns. */
+export const extractMyBookingsPayload = (payload: unknown): Record<string, unknown> | null =>
+  extractToolPayload(payload, hasBookingListData);
+
+// Any `nights`, so a malformed list still reaches the calendar's own alert.
+const hasAvailabilityData = (value: Record<string, unknown>): boolean =>
+  hasOwn(value, "nights");
+
+export const extractAvailabilityPayload = (payload: unknown): Record<string, unknown> | null =>
+  extractToolPayload(payload, hasAvailabilityData);
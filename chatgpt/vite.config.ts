@@ -1,8 +1,12 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin, type Rollup } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import fs from "fs";
 
+import { WIDGET_DEFINITIONS } from "./src/registry/definitions";
+
+const WIDGET_MANIFEST_FILE = "widgets-manifest.json";
+
 const copyStaticAssetsPlugin = () => ({
   name: "copy-static-assets",
   closeBundle() {
@@ -16,8 +20,63 @@ const copyStaticAssetsPlugin = () => ({
   },
 });
 
+/**
+ * Writes `widgets-manifest.json`: the entry, the stylesheet and, per widget,
+ * its tools, its chunk and every chunk that one imports, so the server can
+ * preload just what a tool call needs.
+ */
+const widgetManifestPlugin = (): Plugin => ({
+  name: "widget-manifest",
+  // After Vite's CSS plugin, so the stylesheet is already in the bundle.
+  enforce: "post",
+  generateBundle(_options, bundle) {
+    const files = Object.values(bundle);
+    const chunks = files.filter((file): file is Rollup.OutputChunk => file.type === "chunk");
+    const entry = chunks.find((chunk) => chunk.isEntry);
+    const css = files.find((file) => file.type === "asset" && file.fileName.endsWith(".css"));
+
+    const collectImports = (chunk: Rollup.OutputChunk, found = new Set<string>()): string[] => {
+      for (const fileName of chunk.imports) {
+        const imported = bundle[fileName];
+        if (found.has(fileName) || imported?.type !== "chunk") continue;
+        found.add(fileName);
+        collectImports(imported, found);
+      }
+      return [...found];
+    };
+
+    const widgets = Object.fromEntries(
+      WIDGET_DEFINITIONS.map((definition) => {
+        const modulePath = path.resolve(__dirname, definition.module);
+        const chunk = chunks.find((item) => item.facadeModuleId === modulePath);
+        if (!chunk) {
+          this.error(`No chunk was built for widget "${definition.name}" (${definition.module}).`);
+        }
+        return [
+          definition.name,
+          { tools: definition.tools, file: chunk.fileName, imports: collectImports(chunk) },
+        ];
+      })
+    );
+
+    this.emitFile({
+      type: "asset",
+      fileName: WIDGET_MANIFEST_FILE,
+      source: `${JSON.stringify(
+        {
+          entry: entry && { file: entry.fileName, imports: collectImports(entry) },
+          css: css?.fileName,
+          widgets,
+        },
+        null,
+        2
+      )}\n`,
+    });
+  },
+});
+
 export default defineConfig({
-  plugins: [react(), copyStaticAssetsPlugin()],
+  plugins: [react(), copyStaticAssetsPlugin(), widgetManifestPlugin()],
   define: {
     "process.env.NODE_ENV": JSON.stringify("production"),
   },
@@ -32,6 +91,7 @@ export default defineConfig({
     },
     rollupOptions: {
       output: {
+        chunkFileNames: "widgets/[name]-[hash].js",
         assetFileNames: (assetInfo) => {
           if (assetInfo.name === "style.css") {
             return "chatgpt-widget.css";